@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ClientUsage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientMac" TEXT NOT NULL,
+    "lanName" TEXT NOT NULL DEFAULT '',
+    "rx" BIGINT NOT NULL DEFAULT 0,
+    "tx" BIGINT NOT NULL DEFAULT 0,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClientUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClientUsage_clientMac_startTime_idx" ON "ClientUsage"("clientMac", "startTime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientUsage_userId_clientMac_lanName_startTime_key" ON "ClientUsage"("userId", "clientMac", "lanName", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "ClientUsage" ADD CONSTRAINT "ClientUsage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "CreditTransactionType" AS ENUM ('UNKNOWN', 'SUMMARY_RECORD', 'USAGE', 'CREDIT', 'ADJUSTMENT_DOWN', 'ADJUSTMENT_UP', 'AUTOCREDIT', 'AUTOCREDIT_DEDUCTION');
+
+-- CreateTable
+CREATE TABLE "CreditTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recordType" "CreditTransactionType" NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "rx" BIGINT NOT NULL DEFAULT 0,
+    "tx" BIGINT NOT NULL DEFAULT 0,
+    "clientMac" TEXT,
+    "lanName" TEXT,
+    "creditDetail" TEXT,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "lastUpdate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_userId_startTime_idx" ON "CreditTransaction"("userId", "startTime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditTransaction_userId_startTime_endTime_recordType_key" ON "CreditTransaction"("userId", "startTime", "endTime", "recordType");
+
+-- AddForeignKey
+ALTER TABLE "CreditTransaction" ADD CONSTRAINT "CreditTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
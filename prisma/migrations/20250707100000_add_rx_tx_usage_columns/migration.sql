@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "usageRx" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "usageTx" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "UserHistorySnapshot" ADD COLUMN     "usageRx" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "usageTx" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "WanUsage" ADD COLUMN     "rxBytes" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "txBytes" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "LanUsage" ADD COLUMN     "rxBytes" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "txBytes" BIGINT NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "linkCodeExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "linkCodeHash" TEXT,
+ADD COLUMN     "linkedAt" TIMESTAMP(3),
+ADD COLUMN     "snakeWaysLogin" TEXT;
+
+-- Backfill the Snake Ways login of synced users from their synthetic email
+UPDATE "User" SET "snakeWaysLogin" = substring("email" from '^(.*)\.[^.@]+@snakeways\.local$')
+WHERE "email" LIKE '%@snakeways.local';
+
+-- Replace the plaintext random passwords of synced users with an unusable hash
+UPDATE "User" SET "password" = '!' || md5(random()::text)
+WHERE "email" LIKE '%@snakeways.local';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_snakeWaysLogin_key" ON "User"("snakeWaysLogin");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "RoutePolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[],
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoutePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RouteOverride" (
+    "id" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "reason" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RouteOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RouteOverride_expiresAt_idx" ON "RouteOverride"("expiresAt");
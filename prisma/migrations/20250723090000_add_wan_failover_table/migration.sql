@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "FailoverReason" AS ENUM ('QUOTA_THRESHOLD', 'QUOTA_REACHED', 'WAN_ERROR');
+
+-- CreateTable
+CREATE TABLE "WanFailover" (
+    "id" TEXT NOT NULL,
+    "fromWanId" TEXT NOT NULL,
+    "toWanId" TEXT NOT NULL,
+    "restoreTarget" TEXT NOT NULL,
+    "reason" "FailoverReason" NOT NULL,
+    "usagePercent" DOUBLE PRECISION,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "restoredAt" TIMESTAMP(3),
+
+    CONSTRAINT "WanFailover_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WanFailover_restoredAt_idx" ON "WanFailover"("restoredAt");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "AlertType" AS ENUM ('WAN_STATUS', 'WAN_QUOTA', 'INTERFACE_DOWN', 'LOW_CREDIT');
+
+-- CreateEnum
+CREATE TYPE "AlertSeverity" AS ENUM ('INFO', 'WARNING', 'CRITICAL');
+
+-- CreateEnum
+CREATE TYPE "AlertStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "Alert" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" "AlertType" NOT NULL,
+    "severity" "AlertSeverity" NOT NULL,
+    "status" "AlertStatus" NOT NULL DEFAULT 'OPEN',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+
+    CONSTRAINT "Alert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Alert_key_status_idx" ON "Alert"("key", "status");
+
+-- CreateIndex
+CREATE INDEX "Alert_status_createdAt_idx" ON "Alert"("status", "createdAt");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WanStatusEvent" (
+    "id" TEXT NOT NULL,
+    "wanId" TEXT NOT NULL,
+    "fromStatus" "WanStatus",
+    "toStatus" "WanStatus" NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WanStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WanStatusEvent_wanId_changedAt_idx" ON "WanStatusEvent"("wanId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "WanStatusEvent" ADD CONSTRAINT "WanStatusEvent_wanId_fkey" FOREIGN KEY ("wanId") REFERENCES "Wan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Start the history from the status each WAN was last synced with
+INSERT INTO "WanStatusEvent" ("id", "wanId", "toStatus", "changedAt")
+SELECT md5(random()::text || "id"), "id", "wanStatus", "updatedAt" FROM "Wan";
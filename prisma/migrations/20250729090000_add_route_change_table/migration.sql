@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "SystemRouteType" AS ENUM ('AUTOMATIC', 'SWITCH_FORCED_TO_WAN', 'SWITCH_FORCED_OFF', 'LAN_FORCED_TO_WAN');
+
+-- CreateEnum
+CREATE TYPE "SystemRouteStatus" AS ENUM ('NO_DEFAULT_ROUTE', 'DEFAULT_ROUTE_SET');
+
+-- CreateEnum
+CREATE TYPE "RouteChangeSource" AS ENUM ('MANUAL', 'POLICY', 'FAILOVER', 'OBSERVED');
+
+-- CreateTable
+CREATE TABLE "RouteChange" (
+    "id" TEXT NOT NULL,
+    "wanId" TEXT NOT NULL,
+    "routeType" "SystemRouteType" NOT NULL,
+    "status" "SystemRouteStatus" NOT NULL,
+    "source" "RouteChangeSource" NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RouteChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RouteChange_changedAt_idx" ON "RouteChange"("changedAt");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "SystemRoute" (
+    "id" TEXT NOT NULL DEFAULT 'current',
+    "wanId" TEXT NOT NULL,
+    "routeType" "SystemRouteType" NOT NULL,
+    "status" "SystemRouteStatus" NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL,
+    "failedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SystemRoute_pkey" PRIMARY KEY ("id")
+);
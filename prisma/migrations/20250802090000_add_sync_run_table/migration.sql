@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "SyncTrigger" AS ENUM ('STARTUP', 'POLL', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" TEXT NOT NULL,
+    "resource" TEXT NOT NULL,
+    "trigger" "SyncTrigger" NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3) NOT NULL,
+    "fetched" INTEGER NOT NULL DEFAULT 0,
+    "created" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "errorDetails" JSONB,
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_resource_startedAt_idx" ON "SyncRun"("resource", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SyncRun_startedAt_idx" ON "SyncRun"("startedAt");
@@ -0,0 +1,36 @@
+-- Records without a client or LAN are stored with an empty one, as in
+-- ClientUsage, so they can be part of the key
+UPDATE "CreditTransaction" SET "clientMac" = '' WHERE "clientMac" IS NULL;
+UPDATE "CreditTransaction" SET "lanName" = '' WHERE "lanName" IS NULL;
+
+-- Open records used to be stored with their start time as end time, and the
+-- end time was part of the key, so closing a record inserted a second row.
+-- Keep the most recent row of each record. Usage is recorded per client and
+-- LAN, so rows of different clients are different records.
+DELETE FROM "CreditTransaction"
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (
+            PARTITION BY "userId", "startTime", "recordType", "clientMac", "lanName"
+            ORDER BY "endTime" DESC, "updatedAt" DESC
+        ) AS "rank"
+        FROM "CreditTransaction"
+    ) AS "ranked"
+    WHERE "rank" > 1
+);
+
+-- DropIndex
+DROP INDEX "CreditTransaction_userId_startTime_endTime_recordType_key";
+
+-- AlterTable
+ALTER TABLE "CreditTransaction" ALTER COLUMN "endTime" DROP NOT NULL,
+ALTER COLUMN "clientMac" SET NOT NULL,
+ALTER COLUMN "clientMac" SET DEFAULT '',
+ALTER COLUMN "lanName" SET NOT NULL,
+ALTER COLUMN "lanName" SET DEFAULT '';
+
+-- Open records have no end time
+UPDATE "CreditTransaction" SET "endTime" = NULL WHERE "endTime" = "startTime";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditTransaction_userId_startTime_recordType_clientMac_lan_key" ON "CreditTransaction"("userId", "startTime", "recordType", "clientMac", "lanName");
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "RoutePolicyState" (
+    "id" TEXT NOT NULL DEFAULT 'current',
+    "appliedTarget" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoutePolicyState_pkey" PRIMARY KEY ("id")
+);
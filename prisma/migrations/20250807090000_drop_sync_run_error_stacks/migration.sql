@@ -0,0 +1,2 @@
+-- Remove the stack traces already stored with failed sync runs
+UPDATE "SyncRun" SET "errorDetails" = "errorDetails" - 'stack' WHERE "errorDetails" ? 'stack';
@@ -0,0 +1,209 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  AlertSeverity,
+  AlertType,
+  UserAccessLevel,
+  WanStatus,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AlertService } from './alert.service';
+import { AlertCondition } from './interfaces';
+const chalk = require('chalk');
+
+// WAN statuses worth an alert, QUOTA_REACHED is covered by the quota levels
+const WAN_STATUS_SEVERITY: Partial<Record<WanStatus, AlertSeverity>> = {
+  [WanStatus.ERROR]: AlertSeverity.CRITICAL,
+  [WanStatus.NOT_READY]: AlertSeverity.WARNING,
+  [WanStatus.SUSPENDED]: AlertSeverity.WARNING,
+};
+
+/**
+ * Looks at the state the pollers leave in the database every minute and
+ * raises an alert when a condition starts to hold, then resolves it once it
+ * clears. Conditions are compared with the previous run, so an alert resolved
+ * by hand isn't raised again until its condition clears and comes back.
+ */
+@Injectable()
+export class AlertEvaluatorService {
+  private readonly logger = new Logger(AlertEvaluatorService.name);
+  private readonly wanUsageLevels: number[];
+  private readonly lowCreditBytes: number;
+
+  // Condition keys that held on the previous run, loaded from unresolved alerts on the first
+  private activeKeys: Set<string> | null = null;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private alertService: AlertService,
+    config: ConfigService,
+  ) {
+    this.wanUsageLevels = String(
+      config.get('ALERT_WAN_USAGE_LEVELS') || '80,90,100',
+    )
+      .split(',')
+      .map(Number)
+      .filter((level) => level > 0)
+      .sort((a, b) => a - b);
+    this.lowCreditBytes =
+      Number(config.get('ALERT_LOW_CREDIT_BYTES')) || 100 * 1024 * 1024;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async evaluate(): Promise<void> {
+    // Skip the tick if the previous one is still running
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const conditions = [
+        ...(await this.getWanConditions()),
+        ...(await this.getInterfaceConditions()),
+        ...(await this.getCreditConditions()),
+      ];
+      const current = new Map(
+        conditions.map((condition) => [condition.key, condition]),
+      );
+
+      if (!this.activeKeys) {
+        this.activeKeys = new Set(await this.alertService.getUnresolvedKeys());
+      }
+
+      for (const [key, condition] of current) {
+        if (!this.activeKeys.has(key)) {
+          await this.alertService.raise(condition);
+        }
+      }
+
+      for (const key of this.activeKeys) {
+        if (!current.has(key)) {
+          await this.alertService.resolveByKey(key);
+        }
+      }
+
+      this.activeKeys = new Set(current.keys());
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to evaluate alerts'), error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * WANs in a failed state and WANs above each configured quota level
+   */
+  private async getWanConditions(): Promise<AlertCondition[]> {
+    const wans = await this.prisma.wan.findMany();
+    const conditions: AlertCondition[] = [];
+
+    for (const wan of wans) {
+      const statusSeverity = WAN_STATUS_SEVERITY[wan.wanStatus];
+      if (statusSeverity) {
+        conditions.push({
+          key: `WAN_STATUS:${wan.id}:${wan.wanStatus}`,
+          type: AlertType.WAN_STATUS,
+          severity: statusSeverity,
+          title: `${wan.wanName} is ${wan.wanStatus}`,
+          message: `WAN ${wan.wanName} reported status ${wan.wanStatus}`,
+          entityType: 'wan',
+          entityId: wan.id,
+          details: { wanStatus: wan.wanStatus },
+        });
+      }
+
+      const maxUsageInBytes = Number(wan.maxUsageInBytes);
+      const usageInBytes = Number(wan.usageInBytes);
+      let usagePercent =
+        maxUsageInBytes > 0 ? (usageInBytes / maxUsageInBytes) * 100 : 0;
+      if (wan.wanStatus === WanStatus.QUOTA_REACHED) {
+        usagePercent = Math.max(usagePercent, 100);
+      }
+
+      for (const level of this.wanUsageLevels) {
+        if (usagePercent < level) break;
+
+        conditions.push({
+          key: `WAN_QUOTA:${wan.id}:${level}`,
+          type: AlertType.WAN_QUOTA,
+          severity:
+            level >= 100
+              ? AlertSeverity.CRITICAL
+              : level >= 90
+                ? AlertSeverity.WARNING
+                : AlertSeverity.INFO,
+          title: `${wan.wanName} usage above ${level}%`,
+          message: `${wan.wanName} has used ${this.formatBytes(usageInBytes)} of its ${this.formatBytes(maxUsageInBytes)} quota (${usagePercent.toFixed(1)}%)`,
+          entityType: 'wan',
+          entityId: wan.id,
+          details: {
+            level,
+            usagePercent: parseFloat(usagePercent.toFixed(2)),
+            usageInBytes,
+            maxUsageInBytes,
+          },
+        });
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Interfaces reporting status 0 (down)
+   */
+  private async getInterfaceConditions(): Promise<AlertCondition[]> {
+    const interfaces = await this.prisma.networkInterface.findMany({
+      where: { status: 0 },
+    });
+
+    return interfaces.map((networkInterface) => ({
+      key: `INTERFACE_DOWN:${networkInterface.interfaceId}`,
+      type: AlertType.INTERFACE_DOWN,
+      severity: AlertSeverity.WARNING,
+      title: `Interface ${networkInterface.name} is down`,
+      message: `Interface ${networkInterface.name} (port ${networkInterface.port}, VLAN ${networkInterface.vlanId}) reports no link`,
+      entityType: 'interface',
+      entityId: networkInterface.interfaceId,
+    }));
+  }
+
+  /**
+   * Prepaid users whose data credit dropped below ALERT_LOW_CREDIT_BYTES
+   */
+  private async getCreditConditions(): Promise<AlertCondition[]> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        accessLevel: UserAccessLevel.PREPAID_USER,
+        dataCredit: { lt: BigInt(this.lowCreditBytes) },
+      },
+      select: { id: true, displayName: true, email: true, dataCredit: true },
+    });
+
+    return users.map((user) => {
+      const name = user.displayName || user.email;
+      const dataCredit = Number(user.dataCredit);
+
+      return {
+        key: `LOW_CREDIT:${user.id}`,
+        type: AlertType.LOW_CREDIT,
+        severity: AlertSeverity.INFO,
+        title: `${name} is low on data credit`,
+        message: `${name} has ${this.formatBytes(dataCredit)} of data credit left`,
+        entityType: 'user',
+        entityId: user.id,
+        details: { dataCredit },
+      };
+    });
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes <= 0) return '0 Bytes';
+
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+
+    return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+}
@@ -0,0 +1,80 @@
+import { Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit } from 'src/audit/decorators';
+import { GetCurrentUserId, Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
+import { AlertService } from './alert.service';
+import { AlertQueryDto } from './dto';
+import { AlertEntity } from './entities';
+
+@ApiTags('Alerts')
+@Roles(...STAFF_ROLES)
+@Controller('alerts')
+export class AlertController {
+  constructor(private readonly alertService: AlertService) {}
+
+  @Get()
+  @ApiResponse({
+    status: 200,
+    description: 'Returns alerts, most recent first',
+    type: [AlertEntity],
+  })
+  @ApiOperation({
+    summary: 'Get alerts, only unresolved ones unless a status is given',
+  })
+  async getAlerts(@Query() query: AlertQueryDto): Promise<AlertEntity[]> {
+    const { status, severity, type, limit } = query;
+    return await this.alertService.findAll({
+      status,
+      severity,
+      type,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+
+  @Get(':id')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the alert',
+    type: AlertEntity,
+  })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiOperation({ summary: 'Get an alert' })
+  async getAlert(@Param('id') id: string): Promise<AlertEntity> {
+    return await this.alertService.findOne(id);
+  }
+
+  @Audit({ model: 'alert' })
+  @Post(':id/acknowledge')
+  @ApiResponse({
+    status: 201,
+    description: 'Alert acknowledged',
+    type: AlertEntity,
+  })
+  @ApiResponse({ status: 400, description: 'Alert is not open' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiOperation({ summary: 'Acknowledge an alert' })
+  async acknowledgeAlert(
+    @Param('id') id: string,
+    @GetCurrentUserId() userId: string,
+  ): Promise<AlertEntity> {
+    return await this.alertService.acknowledge(id, userId);
+  }
+
+  @Audit({ model: 'alert' })
+  @Post(':id/resolve')
+  @ApiResponse({
+    status: 201,
+    description: 'Alert resolved',
+    type: AlertEntity,
+  })
+  @ApiResponse({ status: 400, description: 'Alert is already resolved' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiOperation({ summary: 'Resolve an alert by hand' })
+  async resolveAlert(
+    @Param('id') id: string,
+    @GetCurrentUserId() userId: string,
+  ): Promise<AlertEntity> {
+    return await this.alertService.resolve(id, userId);
+  }
+}
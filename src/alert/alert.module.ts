@@ -0,0 +1,64 @@
+import { HttpModule, HttpService } from '@nestjs/axios';
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NotifierModule } from '../notifier/notifier.module';
+import { NotifierService } from '../notifier/notifier.service';
+import { AlertEvaluatorService } from './alert-evaluator.service';
+import { AlertController } from './alert.controller';
+import { AlertService } from './alert.service';
+import { EmailChannel, FileChannel, WebhookChannel } from './channels';
+import { ALERT_CHANNELS, AlertChannel } from './interfaces';
+
+@Module({
+  imports: [
+    ConfigModule,
+    HttpModule.register({ timeout: 10000 }),
+    NotifierModule,
+  ],
+  controllers: [AlertController],
+  providers: [
+    {
+      // Channels listed in ALERT_CHANNELS, e.g. "file,webhook,email"
+      provide: ALERT_CHANNELS,
+      inject: [ConfigService, HttpService, NotifierService],
+      useFactory: (
+        config: ConfigService,
+        httpService: HttpService,
+        notifierService: NotifierService,
+      ): AlertChannel[] => {
+        const names = String(config.get('ALERT_CHANNELS') || '')
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean);
+
+        return names.map((name): AlertChannel => {
+          switch (name) {
+            case 'file':
+              return new FileChannel(
+                config.get('ALERT_FILE_PATH') || 'notifications/alerts.log',
+              );
+            case 'webhook':
+              return new WebhookChannel(
+                httpService,
+                config.getOrThrow<string>('ALERT_WEBHOOK_URL'),
+              );
+            case 'email':
+              return new EmailChannel(
+                notifierService,
+                String(config.get('ALERT_EMAIL_TO') || '')
+                  .split(',')
+                  .map((to) => to.trim())
+                  .filter(Boolean),
+              );
+            default:
+              throw new Error(`Unknown alert channel: ${name}`);
+          }
+        });
+      },
+    },
+    AlertService,
+    AlertEvaluatorService,
+  ],
+  exports: [AlertService],
+})
+export class AlertModule {}
@@ -0,0 +1,207 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Alert,
+  AlertSeverity,
+  AlertStatus,
+  AlertType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AlertEntity } from './entities';
+import {
+  ALERT_CHANNELS,
+  AlertChannel,
+  AlertCondition,
+  AlertEvent,
+} from './interfaces';
+const chalk = require('chalk');
+
+const UNRESOLVED_STATUSES: AlertStatus[] = [
+  AlertStatus.OPEN,
+  AlertStatus.ACKNOWLEDGED,
+];
+
+export interface AlertFilter {
+  status?: AlertStatus;
+  severity?: AlertSeverity;
+  type?: AlertType;
+  limit?: number;
+}
+
+@Injectable()
+export class AlertService {
+  private readonly logger = new Logger(AlertService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(ALERT_CHANNELS) private readonly channels: AlertChannel[],
+  ) {}
+
+  /**
+   * Get alerts, most recent first
+   * @param filter Status, severity and type to filter on. Without a status
+   * only unresolved alerts are returned
+   */
+  async findAll(filter: AlertFilter = {}): Promise<AlertEntity[]> {
+    const { status, severity, type, limit } = filter;
+
+    const alerts = await this.prisma.alert.findMany({
+      where: {
+        status: status || { in: UNRESOLVED_STATUSES },
+        severity,
+        type,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit || 100,
+    });
+
+    return alerts.map((alert) => new AlertEntity(alert));
+  }
+
+  /**
+   * Get an alert
+   * @param alertId Alert ID
+   */
+  async findOne(alertId: string): Promise<AlertEntity> {
+    return new AlertEntity(await this.getAlert(alertId));
+  }
+
+  /**
+   * Mark an alert as seen; it stays unresolved until the condition clears or
+   * someone resolves it
+   * @param alertId Alert ID
+   * @param userId User acknowledging the alert
+   */
+  async acknowledge(alertId: string, userId: string): Promise<AlertEntity> {
+    const alert = await this.getAlert(alertId);
+    if (alert.status !== AlertStatus.OPEN) {
+      throw new BadRequestException(
+        `Alert ${alertId} is already ${alert.status.toLowerCase()}`,
+      );
+    }
+
+    const updated = await this.prisma.alert.update({
+      where: { id: alertId },
+      data: {
+        status: AlertStatus.ACKNOWLEDGED,
+        acknowledgedAt: new Date(),
+        acknowledgedById: userId,
+      },
+    });
+
+    return new AlertEntity(updated);
+  }
+
+  /**
+   * Close an alert by hand. It is not raised again until its condition clears
+   * and comes back.
+   * @param alertId Alert ID
+   * @param userId User resolving the alert
+   */
+  async resolve(alertId: string, userId: string): Promise<AlertEntity> {
+    const alert = await this.getAlert(alertId);
+    if (alert.status === AlertStatus.RESOLVED) {
+      throw new BadRequestException(`Alert ${alertId} is already resolved`);
+    }
+
+    const updated = await this.prisma.alert.update({
+      where: { id: alertId },
+      data: {
+        status: AlertStatus.RESOLVED,
+        resolvedAt: new Date(),
+        resolvedById: userId,
+      },
+    });
+
+    return new AlertEntity(updated);
+  }
+
+  /**
+   * Store an alert for a condition and deliver it to every channel
+   * @param condition The condition found by the evaluator
+   */
+  async raise(condition: AlertCondition): Promise<Alert> {
+    const alert = await this.prisma.alert.create({
+      data: {
+        ...condition,
+        details: condition.details ?? Prisma.DbNull,
+      },
+    });
+
+    this.logger.warn(
+      chalk.yellow(`Alert raised [${alert.severity}] ${alert.title}`),
+    );
+    await this.deliver(alert, 'OPENED');
+
+    return alert;
+  }
+
+  /**
+   * Resolve the unresolved alerts of a condition that cleared
+   * @param key Condition key
+   */
+  async resolveByKey(key: string): Promise<void> {
+    const alerts = await this.prisma.alert.findMany({
+      where: { key, status: { in: UNRESOLVED_STATUSES } },
+    });
+
+    for (const alert of alerts) {
+      const resolved = await this.prisma.alert.update({
+        where: { id: alert.id },
+        data: { status: AlertStatus.RESOLVED, resolvedAt: new Date() },
+      });
+
+      this.logger.log(chalk.green(`Alert resolved: ${resolved.title}`));
+      await this.deliver(resolved, 'RESOLVED');
+    }
+  }
+
+  /**
+   * Keys of the conditions with an unresolved alert
+   */
+  async getUnresolvedKeys(): Promise<string[]> {
+    const alerts = await this.prisma.alert.findMany({
+      where: { status: { in: UNRESOLVED_STATUSES } },
+      select: { key: true },
+      distinct: ['key'],
+    });
+
+    return alerts.map((alert) => alert.key);
+  }
+
+  /**
+   * Send an alert to every channel. A failing channel is logged and doesn't
+   * stop the others.
+   */
+  private async deliver(alert: Alert, event: AlertEvent): Promise<void> {
+    for (const channel of this.channels) {
+      try {
+        await channel.deliver(alert, event);
+      } catch (error) {
+        this.logger.error(
+          chalk.red(`Failed to deliver alert ${alert.id} via ${channel.name}`),
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Throw a NotFoundException if the alert does not exist
+   */
+  private async getAlert(alertId: string): Promise<Alert> {
+    const alert = await this.prisma.alert.findUnique({
+      where: { id: alertId },
+    });
+    if (!alert) {
+      throw new NotFoundException(`Alert ${alertId} not found`);
+    }
+    return alert;
+  }
+}
@@ -0,0 +1,35 @@
+import { Alert } from '@prisma/client';
+import { NotifierService } from 'src/notifier/notifier.service';
+import { AlertChannel, AlertEvent } from '../interfaces';
+
+/**
+ * Mails alerts through the notifier, over SMTP when NOTIFIER_TRANSPORT=smtp
+ */
+export class EmailChannel implements AlertChannel {
+  readonly name = 'email';
+
+  constructor(
+    private readonly notifierService: NotifierService,
+    private readonly recipients: string[],
+  ) {}
+
+  async deliver(alert: Alert, event: AlertEvent): Promise<void> {
+    const subject =
+      event === 'RESOLVED'
+        ? `[RESOLVED] ${alert.title}`
+        : `[${alert.severity}] ${alert.title}`;
+    const text = [
+      alert.message,
+      '',
+      `Raised: ${alert.createdAt.toISOString()}`,
+      ...(alert.resolvedAt
+        ? [`Resolved: ${alert.resolvedAt.toISOString()}`]
+        : []),
+      `Alert: ${alert.id}`,
+    ].join('\n');
+
+    for (const to of this.recipients) {
+      await this.notifierService.send({ to, subject, text });
+    }
+  }
+}
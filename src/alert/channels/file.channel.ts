@@ -0,0 +1,22 @@
+import { Alert } from '@prisma/client';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { AlertChannel, AlertEvent } from '../interfaces';
+
+/**
+ * Appends alerts as JSON lines to a file, for testing and for shipping logs
+ */
+export class FileChannel implements AlertChannel {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async deliver(alert: Alert, event: AlertEvent): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(
+      this.filePath,
+      JSON.stringify({ deliveredAt: new Date().toISOString(), event, alert }) +
+        '\n',
+    );
+  }
+}
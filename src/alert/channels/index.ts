@@ -0,0 +1,3 @@
+export * from './email.channel';
+export * from './file.channel';
+export * from './webhook.channel';
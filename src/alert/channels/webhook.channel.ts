@@ -0,0 +1,20 @@
+import { HttpService } from '@nestjs/axios';
+import { Alert } from '@prisma/client';
+import { firstValueFrom } from 'rxjs';
+import { AlertChannel, AlertEvent } from '../interfaces';
+
+/**
+ * Posts alerts as JSON to an HTTP endpoint (chat integrations, fleet monitoring)
+ */
+export class WebhookChannel implements AlertChannel {
+  readonly name = 'webhook';
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly url: string,
+  ) {}
+
+  async deliver(alert: Alert, event: AlertEvent): Promise<void> {
+    await firstValueFrom(this.httpService.post(this.url, { event, alert }));
+  }
+}
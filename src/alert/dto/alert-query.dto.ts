@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AlertSeverity, AlertStatus, AlertType } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class AlertQueryDto {
+  @ApiProperty({
+    enum: AlertStatus,
+    description: 'Filter by status, defaults to unresolved alerts',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlertStatus)
+  status?: AlertStatus;
+
+  @ApiProperty({
+    enum: AlertSeverity,
+    description: 'Filter by severity',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiProperty({
+    enum: AlertType,
+    description: 'Filter by type',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlertType)
+  type?: AlertType;
+
+  @ApiProperty({
+    description: 'Maximum number of alerts to return',
+    required: false,
+    example: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1 @@
+export * from './alert-query.dto';
@@ -0,0 +1,117 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Alert,
+  AlertSeverity,
+  AlertStatus,
+  AlertType,
+  Prisma,
+} from '@prisma/client';
+
+export class AlertEntity implements Alert {
+  constructor(partial: Partial<Alert>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the alert',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Condition the alert was raised for',
+    example: 'WAN_QUOTA:979FC0CE166A11EDA4F51737CD617E52:90',
+  })
+  key: string;
+
+  @ApiProperty({
+    enum: AlertType,
+    description: 'Kind of condition',
+    example: AlertType.WAN_QUOTA,
+  })
+  type: AlertType;
+
+  @ApiProperty({
+    enum: AlertSeverity,
+    description: 'How urgent the alert is',
+    example: AlertSeverity.WARNING,
+  })
+  severity: AlertSeverity;
+
+  @ApiProperty({
+    enum: AlertStatus,
+    description: 'Whether the alert is open, acknowledged or resolved',
+    example: AlertStatus.OPEN,
+  })
+  status: AlertStatus;
+
+  @ApiProperty({
+    description: 'Short summary',
+    example: 'VSAT usage above 90%',
+  })
+  title: string;
+
+  @ApiProperty({
+    description: 'What happened',
+    example: 'VSAT has used 46.2 GB of its 50 GB quota (92.4%)',
+  })
+  message: string;
+
+  @ApiProperty({
+    description: 'Type of the entity the alert is about',
+    nullable: true,
+    example: 'wan',
+  })
+  entityType: string | null;
+
+  @ApiProperty({
+    description: 'ID of the entity the alert is about',
+    nullable: true,
+    example: '979FC0CE166A11EDA4F51737CD617E52',
+  })
+  entityId: string | null;
+
+  @ApiProperty({
+    description: 'Values that raised the alert',
+    nullable: true,
+    example: { level: 90, usagePercent: 92.4 },
+  })
+  details: Prisma.JsonValue | null;
+
+  @ApiProperty({
+    description: 'When the alert was raised',
+    example: '2025-07-25T10:30:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the alert was last updated',
+    example: '2025-07-25T10:30:00Z',
+  })
+  updatedAt: Date;
+
+  @ApiProperty({
+    description: 'When the alert was acknowledged',
+    nullable: true,
+  })
+  acknowledgedAt: Date | null;
+
+  @ApiProperty({
+    description: 'User who acknowledged the alert',
+    nullable: true,
+  })
+  acknowledgedById: string | null;
+
+  @ApiProperty({
+    description: 'When the alert was resolved',
+    nullable: true,
+  })
+  resolvedAt: Date | null;
+
+  @ApiProperty({
+    description:
+      'User who resolved the alert, null when resolved automatically',
+    nullable: true,
+  })
+  resolvedById: string | null;
+}
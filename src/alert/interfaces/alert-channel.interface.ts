@@ -0,0 +1,14 @@
+import { Alert } from '@prisma/client';
+
+export type AlertEvent = 'OPENED' | 'RESOLVED';
+
+/**
+ * Delivers alerts somewhere people will see them. Implement this to add a
+ * channel and return it from the ALERT_CHANNELS factory in AlertModule.
+ */
+export interface AlertChannel {
+  readonly name: string;
+  deliver(alert: Alert, event: AlertEvent): Promise<void>;
+}
+
+export const ALERT_CHANNELS = 'ALERT_CHANNELS';
@@ -0,0 +1,16 @@
+import { AlertSeverity, AlertType, Prisma } from '@prisma/client';
+
+/**
+ * Something worth alerting about, as found by the evaluator
+ */
+export interface AlertCondition {
+  // Identifies the condition, it is alerted once while it holds
+  key: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  entityType?: string;
+  entityId?: string;
+  details?: Prisma.InputJsonObject;
+}
@@ -0,0 +1,2 @@
+export * from './alert-channel.interface';
+export * from './alert-condition.interface';
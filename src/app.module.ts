@@ -1,11 +1,22 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
 import { ScheduleModule } from '@nestjs/schedule';
+import { AlertModule } from './alert/alert.module';
+import { AuditModule } from './audit/audit.module';
 import { AuthModule } from './auth/auth.module';
+import { JwtAuthGuard, RolesGuard } from './auth/guard';
 import { DashboardModule } from './dashboard/dashboard.module';
+import { DeviceModule } from './device/device.module';
 import { LanModule } from './lan/lan.module';
+import { LiveEventsModule } from './live/live-events.module';
+import { LiveModule } from './live/live.module';
 import { PrismaModule } from './prisma/prisma.module';
+import { RoutePolicyModule } from './route-policy/route-policy.module';
+import { SimulatorModule } from './simulator/simulator.module';
 import { SnakeWaysBaseModule } from './snake-ways/snake-ways-base.module';
+import { SyncRunModule } from './sync/sync-run.module';
+import { SyncModule } from './sync/sync.module';
 import { UserModule } from './user/user.module';
 import { WanModule } from './wan/wan.module';
 
@@ -13,15 +24,28 @@ import { WanModule } from './wan/wan.module';
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
     PrismaModule,
+    LiveEventsModule,
+    SyncRunModule,
     UserModule,
     WanModule,
     LanModule,
     AuthModule,
     SnakeWaysBaseModule,
+    SyncModule,
     DashboardModule,
+    DeviceModule,
+    AuditModule,
+    RoutePolicyModule,
+    AlertModule,
+    LiveModule,
+    SimulatorModule,
     ScheduleModule.forRoot(),
   ],
-
-  // Applied the JwtAuthGuard to the all routes, no longer need to apply it to each route individually (e.g., @UseGuards(JwtAuthGuard))
+  // Applied the JwtAuthGuard and RolesGuard to all routes, no longer need to apply them to each route individually (e.g., @UseGuards(JwtAuthGuard)).
+  // Use @Public() to opt a route out and @Roles() to restrict it to access levels
+  providers: [
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,50 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ForbiddenException,
+  HttpException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { AuditOutcome } from '@prisma/client';
+import {
+  AUDITED_REQUEST,
+  AuditedRequest,
+  MUTATING_METHODS,
+} from './audit.interceptor';
+import { AuditService } from './audit.service';
+
+/**
+ * Records requests the guards deny, which never reach AuditInterceptor:
+ * forbidden requests whatever their method, and unauthenticated mutating
+ * requests. Unauthenticated reads are left out, clients with an expired
+ * token make them all the time. The usual error response is then sent.
+ */
+@Injectable()
+@Catch(UnauthorizedException, ForbiddenException)
+export class AuditDenialFilter extends BaseExceptionFilter {
+  constructor(private readonly auditService: AuditService) {
+    super();
+  }
+
+  catch(exception: HttpException, host: ArgumentsHost) {
+    if (host.getType() === 'http') {
+      const request = host.switchToHttp().getRequest<AuditedRequest>();
+      const denied =
+        exception instanceof ForbiddenException ||
+        MUTATING_METHODS.includes(request.method);
+
+      if (denied && !request[AUDITED_REQUEST]) {
+        void this.auditService.record({
+          ...this.auditService.describeRequest(request),
+          outcome: AuditOutcome.DENIED,
+          statusCode: exception.getStatus(),
+          error: exception.message,
+        });
+      }
+    }
+
+    super.catch(exception, host);
+  }
+}
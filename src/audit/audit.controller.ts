@@ -0,0 +1,46 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators';
+import { USER_ADMIN_ROLES } from 'src/auth/constants';
+import { AuditService } from './audit.service';
+import { AuditLogQueryDto } from './dto';
+import { AuditLogEntity } from './entities';
+
+@ApiTags('Audit')
+@Roles(...USER_ADMIN_ROLES)
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiResponse({
+    status: 200,
+    description: 'Returns audit log entries, most recent first',
+    type: [AuditLogEntity],
+  })
+  @ApiOperation({
+    summary: 'Get the audit log of administrative and routing actions',
+  })
+  async getAuditLogs(
+    @Query() query: AuditLogQueryDto,
+  ): Promise<AuditLogEntity[]> {
+    const {
+      actorId,
+      entityType,
+      entityId,
+      outcome,
+      startDate,
+      endDate,
+      limit,
+    } = query;
+    return await this.auditService.findAll({
+      actorId,
+      entityType,
+      entityId,
+      outcome,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuditOutcome } from '@prisma/client';
+import { Request, Response } from 'express';
+import { Observable, catchError, from, switchMap, tap, throwError } from 'rxjs';
+import { AuditService } from './audit.service';
+import { AUDIT_KEY, AuditOptions } from './decorators';
+
+export const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Set on requests that got past the guards, their outcome is recorded here
+export const AUDITED_REQUEST = Symbol('auditedRequest');
+
+export type AuditedRequest = Request & { [AUDITED_REQUEST]?: boolean };
+
+/**
+ * Records every mutating request in the audit log: who, what, on which
+ * entity, with which payload and whether it succeeded. Routes decorated with
+ * `@Audit({ model })` also record the changes made to the entity. Requests
+ * the guards deny never get here, AuditDenialFilter records those.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuditedRequest>();
+    request[AUDITED_REQUEST] = true;
+
+    const options =
+      this.reflector.getAllAndOverride<AuditOptions | undefined>(AUDIT_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? {};
+
+    if (!MUTATING_METHODS.includes(request.method) || options.skip) {
+      return next.handle();
+    }
+
+    const entry = this.auditService.describeRequest(request, options);
+
+    const loadEntity = (entityId: string | null | undefined) =>
+      options.model && entityId
+        ? this.auditService.loadEntity(options.model, entityId)
+        : Promise.resolve(null);
+
+    return from(loadEntity(entry.entityId)).pipe(
+      switchMap((before) =>
+        next.handle().pipe(
+          tap((result) => {
+            // Created entities only have an ID once the handler returns
+            const resultId = options.resultIdField
+              ? result?.[options.resultIdField]
+              : undefined;
+            const entityId =
+              entry.entityId ??
+              (resultId !== undefined && resultId !== null
+                ? String(resultId)
+                : null);
+
+            void loadEntity(entityId).then((after) =>
+              this.auditService.record({
+                ...entry,
+                entityId,
+                changes: options.model
+                  ? this.auditService.diff(before, after)
+                  : null,
+                outcome: AuditOutcome.SUCCESS,
+                statusCode: context.switchToHttp().getResponse<Response>()
+                  .statusCode,
+              }),
+            );
+          }),
+        ),
+      ),
+      catchError((error) => {
+        void this.auditService.record({
+          ...entry,
+          outcome: AuditOutcome.FAILURE,
+          statusCode: error instanceof HttpException ? error.getStatus() : 500,
+          error: error?.message,
+        });
+        return throwError(() => error);
+      }),
+    );
+  }
+}
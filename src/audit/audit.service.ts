@@ -0,0 +1,229 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditOutcome, Prisma } from '@prisma/client';
+import { endOfDay, startOfDay } from 'date-fns';
+import { Request } from 'express';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditOptions, AuditedModel } from './decorators';
+import { AuditLogEntity } from './entities';
+const chalk = require('chalk');
+
+// Body fields that are never written to the audit log
+const REDACTED_FIELDS = /password|token|secret|code/i;
+
+// Fields left out of recorded changes, they change on every write
+const IGNORED_CHANGE_FIELDS = ['updatedAt'];
+
+export interface AuditEntry {
+  actorId?: string | null;
+  actorEmail?: string | null;
+  action: string;
+  entityType?: string | null;
+  entityId?: string | null;
+  payload?: unknown;
+  changes?: Record<string, { from: unknown; to: unknown }> | null;
+  outcome: AuditOutcome;
+  statusCode?: number;
+  error?: string;
+  ipAddress?: string;
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  outcome?: AuditOutcome;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Store an audit log entry. Failures are logged and never reach the caller,
+   * so auditing can't break the audited request.
+   * @param entry What happened
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          ...entry,
+          payload: this.toJson(this.redact(entry.payload)),
+          changes: entry.changes ? this.toJson(entry.changes) : Prisma.DbNull,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to record audit log for ${entry.action}`),
+        error,
+      );
+    }
+  }
+
+  /**
+   * Describe a request for the audit log: who made it, the route and the
+   * target entity
+   * @param request HTTP request
+   * @param options Audit options of the route
+   */
+  describeRequest(
+    request: Request,
+    options: AuditOptions = {},
+  ): Omit<AuditEntry, 'outcome'> {
+    const path: string = request.route?.path ?? request.path;
+    const actor = request.user as { id?: string; email?: string } | undefined;
+
+    return {
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+      action: `${request.method} ${path}`,
+      entityType: options.entity ?? path.split('/').filter(Boolean)[0] ?? null,
+      entityId: this.getEntityId(request, options),
+      payload: request.body,
+      ipAddress: request.ip,
+    };
+  }
+
+  /**
+   * Load the current state of an entity to diff it around a request
+   * @param model Prisma model
+   * @param id Entity ID
+   */
+  async loadEntity(
+    model: AuditedModel,
+    id: string,
+  ): Promise<Record<string, unknown> | null> {
+    try {
+      const delegate = this.prisma[model] as unknown as {
+        findUnique(args: {
+          where: { id: string };
+        }): Promise<Record<string, unknown> | null>;
+      };
+      return await delegate.findUnique({ where: { id } });
+    } catch (error) {
+      this.logger.error(chalk.red(`Failed to load ${model} ${id}`), error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare two states of an entity
+   * @param before State before the request, null if it did not exist
+   * @param after State after the request, null if it was deleted
+   * @returns Changed fields with their old and new value, null if none
+   */
+  diff(
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Record<string, { from: unknown; to: unknown }> | null {
+    if (!before && !after) {
+      return null;
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    const keys = new Set([
+      ...Object.keys(before ?? {}),
+      ...Object.keys(after ?? {}),
+    ]);
+
+    for (const key of keys) {
+      if (IGNORED_CHANGE_FIELDS.includes(key) || REDACTED_FIELDS.test(key)) {
+        continue;
+      }
+
+      const from = before?.[key] ?? null;
+      const to = after?.[key] ?? null;
+
+      if (
+        JSON.stringify(this.toJson(from)) !== JSON.stringify(this.toJson(to))
+      ) {
+        changes[key] = { from, to };
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Get audit log entries, most recent first
+   * @param filter Actor, entity and date range filters
+   */
+  async findAll(filter: AuditLogFilter = {}): Promise<AuditLogEntity[]> {
+    const {
+      actorId,
+      entityType,
+      entityId,
+      outcome,
+      startDate,
+      endDate,
+      limit,
+    } = filter;
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(actorId && { actorId }),
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+      ...(outcome && { outcome }),
+    };
+
+    if (startDate || endDate) {
+      where.createdAt = {
+        ...(startDate && { gte: startOfDay(startDate) }),
+        ...(endDate && { lte: endOfDay(endDate) }),
+      };
+    }
+
+    const logs = await this.prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit ?? 100,
+    });
+
+    return logs.map((log) => new AuditLogEntity(log));
+  }
+
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          REDACTED_FIELDS.test(key) ? '[REDACTED]' : this.redact(item),
+        ]),
+      );
+    }
+
+    return value;
+  }
+
+  // Json columns can't hold BigInt, Prisma.Decimal or undefined values
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(
+      JSON.stringify(value ?? null, (_, item) =>
+        typeof item === 'bigint' ? Number(item) : item,
+      ),
+    );
+  }
+
+  private getEntityId(request: Request, options: AuditOptions): string | null {
+    if (options.idField) {
+      const value = request.body?.[options.idField];
+      return value !== undefined && value !== null ? String(value) : null;
+    }
+
+    const params = request.params ?? {};
+    const value = options.idParam
+      ? params[options.idParam]
+      : (params.id ?? params.userId ?? params.mac);
+
+    return value ?? null;
+  }
+}
@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDIT_KEY = 'audit';
+
+/**
+ * Entities whose state is captured before and after a request to record
+ * the changes. Keys are Prisma model delegates.
+ */
+export type AuditedModel = 'user' | 'wan' | 'lan' | 'routePolicy' | 'alert';
+
+export interface AuditOptions {
+  // Entity type recorded on the log, defaults to the controller path
+  entity?: string;
+  // Route param holding the entity ID, defaults to "id"
+  idParam?: string;
+  // Body field holding the entity ID, for routes without an ID param
+  idField?: string;
+  // Response field holding the entity ID, for routes creating the entity
+  resultIdField?: string;
+  // Prisma model to diff before and after the request
+  model?: AuditedModel;
+  // Skip auditing the route
+  skip?: boolean;
+}
+
+/**
+ * Customise how a mutating route is recorded in the audit log
+ */
+export const Audit = (options: AuditOptions) => SetMetadata(AUDIT_KEY, options);
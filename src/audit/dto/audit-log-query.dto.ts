@@ -0,0 +1,80 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditOutcome } from '@prisma/client';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AuditLogQueryDto {
+  @ApiProperty({
+    description: 'Filter by the user who made the request',
+    required: false,
+    example: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4',
+  })
+  @IsOptional()
+  @IsString()
+  actorId?: string;
+
+  @ApiProperty({
+    description: 'Filter by entity type',
+    required: false,
+    example: 'wans',
+  })
+  @IsOptional()
+  @IsString()
+  entityType?: string;
+
+  @ApiProperty({
+    description: 'Filter by entity ID',
+    required: false,
+    example: 'OFF',
+  })
+  @IsOptional()
+  @IsString()
+  entityId?: string;
+
+  @ApiProperty({
+    enum: AuditOutcome,
+    description: 'Filter by outcome, DENIED for requests the guards refused',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AuditOutcome)
+  outcome?: AuditOutcome;
+
+  @ApiProperty({
+    description: 'Start date for filtering records (YYYY-MM-DD)',
+    required: false,
+    example: '2025-05-18',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'End date for filtering records (YYYY-MM-DD)',
+    required: false,
+    example: '2025-05-20',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of records to return',
+    required: false,
+    example: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,95 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditLog, AuditOutcome, Prisma } from '@prisma/client';
+
+export class AuditLogEntity implements AuditLog {
+  constructor(partial: Partial<AuditLog>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the audit log entry',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User who made the request, null for anonymous requests',
+    nullable: true,
+    example: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4',
+  })
+  actorId: string | null;
+
+  @ApiProperty({
+    description: 'Email of the user at the time of the request',
+    nullable: true,
+    example: 'captain@example.com',
+  })
+  actorEmail: string | null;
+
+  @ApiProperty({
+    description: 'HTTP method and route',
+    example: 'PUT /wans/force-switch',
+  })
+  action: string;
+
+  @ApiProperty({
+    description: 'Type of the entity acted on',
+    nullable: true,
+    example: 'wans',
+  })
+  entityType: string | null;
+
+  @ApiProperty({
+    description: 'ID of the entity acted on',
+    nullable: true,
+    example: 'OFF',
+  })
+  entityId: string | null;
+
+  @ApiProperty({
+    description: 'Request body with secrets redacted',
+    nullable: true,
+    example: { wanId: 'OFF' },
+  })
+  payload: Prisma.JsonValue | null;
+
+  @ApiProperty({
+    description: 'Changed fields of the entity with their old and new value',
+    nullable: true,
+    example: { dataCredit: { from: 1073741824, to: 2147483648 } },
+  })
+  changes: Prisma.JsonValue | null;
+
+  @ApiProperty({
+    enum: AuditOutcome,
+    description: 'Whether the request succeeded',
+    example: AuditOutcome.SUCCESS,
+  })
+  outcome: AuditOutcome;
+
+  @ApiProperty({
+    description: 'HTTP status code of the response',
+    nullable: true,
+    example: 200,
+  })
+  statusCode: number | null;
+
+  @ApiProperty({
+    description: 'Error message when the request failed',
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'IP address of the request',
+    nullable: true,
+    example: '192.168.77.42',
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: 'When the request was made',
+    example: '2023-05-15T10:30:00Z',
+  })
+  createdAt: Date;
+}
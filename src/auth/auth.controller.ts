@@ -2,28 +2,45 @@ import { TokensResponseDto } from './interfaces/tokens-response.interface';
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
+  Param,
   Post,
+  Req,
   Res,
   UseGuards,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
-import { AuthResponseDto, SignInDto, SignInErrorDto, SignUpDto } from './dto';
-import { Public } from './decorators';
-import { Response } from 'express';
+import { PasswordService } from './password.service';
+import {
+  AuthResponseDto,
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  LinkWithCodeDto,
+  ResetPasswordDto,
+  SessionDto,
+  SignInDto,
+  SignInErrorDto,
+  SignUpDto,
+} from './dto';
+import { AllowPendingPasswordChange, Public } from './decorators';
+import { Request, Response } from 'express';
 import { GetCurrentUser } from './decorators';
 import { ConfigService } from '@nestjs/config';
-import { JwtAuthGuard, RefreshTokenGuard } from './guard';
-import { GetCurrentUserId } from './decorators';
+import { RefreshTokenGuard } from './guard';
+import { GetCurrentSessionId, GetCurrentUserId } from './decorators';
+import { SessionContext } from './interfaces/session-context.interface';
 import { ApiResponse } from '@nestjs/swagger';
 import { UserEntity } from 'src/user/entities';
+import { Audit } from 'src/audit/decorators';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private authService: AuthService,
+    private passwordService: PasswordService,
     private configService: ConfigService,
   ) {}
 
@@ -34,8 +51,14 @@ export class AuthController {
     type: AuthResponseDto,
   })
   @Post('signup')
-  async signUp(@Body() dto: SignUpDto): Promise<AuthResponseDto> {
-    const { tokens, user, error } = await this.authService.signUp(dto);
+  async signUp(
+    @Body() dto: SignUpDto,
+    @Req() request: Request,
+  ): Promise<AuthResponseDto> {
+    const { tokens, user, error } = await this.authService.signUp(
+      dto,
+      this.getSessionContext(request),
+    );
 
     if (error || !tokens || !user) {
       return {
@@ -57,12 +80,18 @@ export class AuthController {
   @Public()
   @ApiResponse({ status: 200, description: 'Sign in', type: AuthResponseDto })
   @HttpCode(HttpStatus.OK)
+  // Recorded as login attempts and sessions instead
+  @Audit({ skip: true })
   @Post('signin')
   async signIn(
     @Body() dto: SignInDto,
+    @Req() request: Request,
     @Res({ passthrough: true }) response: Response,
   ): Promise<AuthResponseDto> {
-    const { tokens, user, error } = await this.authService.signIn(dto);
+    const { tokens, user, error } = await this.authService.signIn(
+      dto,
+      this.getSessionContext(request),
+    );
 
     if (error || !tokens || !user) {
       return {
@@ -83,23 +112,32 @@ export class AuthController {
     };
   }
 
-  @UseGuards(JwtAuthGuard)
+  @AllowPendingPasswordChange()
   @Post('signout')
-  async signOut(@GetCurrentUser() user: UserEntity) {
-    await this.authService.signOut(user.id);
+  async signOut(@GetCurrentSessionId() sessionId?: string) {
+    await this.authService.signOut(sessionId);
     return { message: 'Signed out successfully' };
   }
 
   @Public()
   @UseGuards(RefreshTokenGuard)
+  // Recorded as login attempts and sessions instead
+  @Audit({ skip: true })
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
   async refreshTokens(
     @GetCurrentUserId() userId: string,
+    @GetCurrentSessionId() sessionId: string | undefined,
     @GetCurrentUser('refreshToken') refreshToken: string,
+    @Req() request: Request,
     @Res({ passthrough: true }) response: Response,
   ): Promise<{ accessToken: string }> {
-    const tokens = await this.authService.refreshTokens(userId, refreshToken);
+    const tokens = await this.authService.refreshTokens(
+      userId,
+      sessionId,
+      refreshToken,
+      this.getSessionContext(request),
+    );
 
     this.setRefreshTokenCookie(response, tokens.refreshToken);
 
@@ -108,11 +146,109 @@ export class AuthController {
     };
   }
 
+  @ApiResponse({
+    status: 200,
+    description:
+      'Account linked to the Snake Ways user, returns new tokens for the linked user',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired link code' })
+  @HttpCode(HttpStatus.OK)
+  @Post('link')
+  async linkWithCode(
+    @GetCurrentUserId() accountId: string,
+    @Body() dto: LinkWithCodeDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<AuthResponseDto> {
+    const { tokens, user } = await this.authService.linkWithCode(
+      accountId,
+      dto,
+      this.getSessionContext(request),
+    );
+
+    this.setRefreshTokenCookie(response, tokens.refreshToken);
+
+    return { tokens, user, error: null };
+  }
+
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the active sessions (signed-in devices) of the user',
+    type: [SessionDto],
+  })
+  @AllowPendingPasswordChange()
+  @Get('sessions')
+  async getSessions(
+    @GetCurrentUserId() userId: string,
+    @GetCurrentSessionId() sessionId?: string,
+  ): Promise<SessionDto[]> {
+    return await this.authService.getSessions(userId, sessionId);
+  }
+
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked, its tokens stop working immediately',
+  })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @Delete('sessions/:id')
+  async revokeSession(
+    @GetCurrentUserId() userId: string,
+    @Param('id') id: string,
+  ): Promise<{ revoked: boolean }> {
+    return await this.authService.revokeSession(userId, id);
+  }
+
+  @ApiResponse({ status: 200, description: 'Password changed' })
+  @ApiResponse({ status: 400, description: 'Current password is incorrect' })
+  @AllowPendingPasswordChange()
+  @HttpCode(HttpStatus.OK)
+  @Post('password/change')
+  async changePassword(
+    @GetCurrentUserId() userId: string,
+    @GetCurrentSessionId() sessionId: string | undefined,
+    @Body() dto: ChangePasswordDto,
+  ): Promise<{ message: string }> {
+    return await this.passwordService.changePassword(userId, sessionId, dto);
+  }
+
+  @Public()
+  @ApiResponse({
+    status: 200,
+    description: 'Reset token sent through the notifier if the user exists',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('password/forgot')
+  async forgotPassword(
+    @Body() dto: ForgotPasswordDto,
+  ): Promise<{ message: string }> {
+    return await this.passwordService.forgotPassword(dto);
+  }
+
+  @Public()
+  @ApiResponse({ status: 200, description: 'Password reset' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired reset token' })
+  @HttpCode(HttpStatus.OK)
+  @Post('password/reset')
+  async resetPassword(
+    @Body() dto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    return await this.passwordService.resetPassword(dto);
+  }
+
+  @AllowPendingPasswordChange()
   @Get('profile')
   getProfile(@GetCurrentUser() user: UserEntity) {
     return user;
   }
 
+  private getSessionContext(request: Request): SessionContext {
+    return {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip,
+    };
+  }
+
   private setRefreshTokenCookie(
     response: Response,
     refreshToken: string,
@@ -1,5 +1,9 @@
 import { Module } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { PasswordService } from './password.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { NotifierModule } from 'src/notifier/notifier.module';
 import { AuthController } from './auth.controller';
 import { JwtModule } from '@nestjs/jwt';
 import { JwtRefreshStrategy, JwtStrategy } from './strategy';
@@ -11,6 +15,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
   imports: [
     JwtModule.register({}),
     UserModule,
+    NotifierModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
@@ -25,11 +30,14 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
   controllers: [AuthController],
   providers: [
     AuthService,
+    SessionService,
+    PasswordService,
+    LoginThrottleService,
     JwtAuthGuard,
     JwtStrategy,
     JwtRefreshStrategy,
     RolesGuard,
   ],
-  exports: [AuthService, RolesGuard],
+  exports: [AuthService, SessionService, RolesGuard],
 })
 export class AuthModule {}
@@ -1,15 +1,32 @@
-import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import { Status, User, UserAccessLevel } from '@prisma/client';
+import {
+  LoginAttemptResult,
+  Status,
+  User,
+  UserAccessLevel,
+} from '@prisma/client';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import * as argon from 'argon2';
+import { randomUUID } from 'crypto';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { UserEntity } from 'src/user/entities/';
 import { UserService } from 'src/user/user.service';
 import { Validator } from '../common/utils/validator';
-import { AuthResponseDto, SignInDto, SignInErrorDto, SignUpDto } from './dto';
+import { Password } from '../common/utils/password';
+import {
+  AuthResponseDto,
+  LinkWithCodeDto,
+  SignInDto,
+  SignInErrorDto,
+  SessionDto,
+  SignUpDto,
+} from './dto';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { SessionContext } from './interfaces/session-context.interface';
+import { SessionService } from './session.service';
+import { LoginThrottleService } from './login-throttle.service';
 import { TokensResponseDto } from './interfaces/tokens-response.interface';
 
 @Injectable()
@@ -19,9 +36,14 @@ export class AuthService {
     private jwt: JwtService,
     private config: ConfigService,
     private user: UserService,
+    private session: SessionService,
+    private loginThrottle: LoginThrottleService,
   ) {}
 
-  async signUp(dto: SignUpDto): Promise<AuthResponseDto> {
+  async signUp(
+    dto: SignUpDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
     try {
       const validation = await Validator.validateDTOWithoutThrowing(
         SignUpDto,
@@ -75,7 +97,7 @@ export class AuthService {
         },
       });
 
-      const { tokens, user: userEntity } = await this.signToken(user);
+      const { tokens, user: userEntity } = await this.signToken(user, context);
 
       return { tokens, user: userEntity, error: null };
     } catch (error) {
@@ -103,7 +125,10 @@ export class AuthService {
     }
   }
 
-  async signIn(dto: SignInDto): Promise<{
+  async signIn(
+    dto: SignInDto,
+    context: SessionContext = {},
+  ): Promise<{
     tokens: TokensResponseDto | null;
     user: UserEntity | null;
     error: SignInErrorDto | null;
@@ -125,26 +150,101 @@ export class AuthService {
     }
 
     const validatedDto = validation.value;
+    const identifier = (validatedDto.login ?? validatedDto.email) as string;
+    const identifierField = validatedDto.login ? 'login' : 'email';
+
+    if (await this.loginThrottle.isIpBlocked(context.ipAddress)) {
+      await this.loginThrottle.recordFailure(
+        null,
+        identifier,
+        context,
+        LoginAttemptResult.IP_BLOCKED,
+      );
 
-    const user = await this.prisma.user.findUnique({
-      where: {
-        email: validatedDto.email,
-      },
-    });
+      return {
+        tokens: null,
+        user: null,
+        error: {
+          field: identifierField,
+          message:
+            'Too many failed sign-in attempts from this device. Try again later',
+        },
+      };
+    }
+
+    const user = validatedDto.login
+      ? await this.prisma.user.findUnique({
+          where: { snakeWaysLogin: validatedDto.login },
+        })
+      : await this.prisma.user.findUnique({
+          where: { email: validatedDto.email },
+        });
 
     if (!user) {
+      await this.loginThrottle.recordFailure(
+        null,
+        identifier,
+        context,
+        LoginAttemptResult.UNKNOWN_USER,
+      );
+
+      return {
+        tokens: null,
+        user: null,
+        error: validatedDto.login
+          ? { field: 'login', message: 'User not found with this login' }
+          : { field: 'email', message: 'User not found with this email' },
+      };
+    }
+
+    if (this.loginThrottle.isLocked(user)) {
+      await this.loginThrottle.recordFailure(
+        user,
+        identifier,
+        context,
+        LoginAttemptResult.ACCOUNT_LOCKED,
+      );
+
+      return {
+        tokens: null,
+        user: null,
+        error: {
+          field: identifierField,
+          message: `Account locked after too many failed sign-in attempts. Try again after ${user.lockedUntil?.toISOString()}`,
+        },
+      };
+    }
+
+    // Synced Snake Ways users can only sign in once an account is linked to them
+    if (!Password.isUsable(user.password)) {
+      await this.loginThrottle.recordFailure(
+        user,
+        identifier,
+        context,
+        LoginAttemptResult.UNCLAIMED_ACCOUNT,
+      );
+
       return {
         tokens: null,
         user: null,
         error: {
-          field: 'email',
-          message: 'User not found with this email',
+          field: identifierField,
+          message:
+            'This user has no account yet. Sign up and link it to your Snake Ways login',
         },
       };
     }
+
     const pwMatches = await argon.verify(user.password, validatedDto.password);
 
     if (!pwMatches) {
+      await this.loginThrottle.recordFailure(
+        user,
+        identifier,
+        context,
+        LoginAttemptResult.INVALID_PASSWORD,
+      );
+
       return {
         tokens: null,
         user: null,
@@ -155,22 +255,65 @@ export class AuthService {
       };
     }
 
-    const { tokens, user: userEntity } = await this.signToken(user);
+    await this.loginThrottle.recordSuccess(user, identifier, context);
+
+    const { tokens, user: userEntity } = await this.signToken(user, context);
 
     return { tokens, user: userEntity, error: null };
   }
 
-  async signOut(userId: string): Promise<void> {
-    await this.user.updateRefreshToken(userId, '');
+  /**
+   * Link the signed-in account to a Snake Ways user with a one-time code.
+   * The account is merged into the Snake Ways user, so new tokens are issued.
+   * @param accountId ID of the signed-in account
+   * @param dto Snake Ways login and link code
+   */
+  async linkWithCode(
+    accountId: string,
+    dto: LinkWithCodeDto,
+    context: SessionContext = {},
+  ): Promise<{ tokens: TokensResponseDto; user: UserEntity }> {
+    const user = await this.user.linkAccountWithCode(
+      accountId,
+      dto.login,
+      dto.code,
+    );
+
+    return await this.signToken(user, context);
+  }
+
+  /**
+   * Sign out by revoking the session of the access token
+   * @param sessionId Session ID from the access token
+   */
+  async signOut(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      await this.session.revoke(sessionId);
+    }
   }
 
-  async signToken(user: User): Promise<{
+  /**
+   * Issue tokens for a new session of the user
+   * @param user The signed-in user
+   * @param context Client details stored on the session
+   */
+  async signToken(
+    user: User,
+    context: SessionContext = {},
+  ): Promise<{
     tokens: TokensResponseDto;
     user: UserEntity;
   }> {
-    const tokens = await this.getTokens(user.id, user.email);
-
-    await this.updateRefreshTokenHash(user.id, tokens.refreshToken);
+    const sessionId = randomUUID();
+    const tokens = await this.getTokens(user.id, user.email, sessionId);
+
+    await this.session.create(
+      sessionId,
+      user.id,
+      tokens.refreshToken,
+      this.getExpiry(tokens.refreshToken),
+      context,
+    );
 
     // Create a UserEntity instance to properly handle BigInt conversion
     const userEntity = new UserEntity(user);
@@ -178,39 +321,76 @@ export class AuthService {
     return { tokens, user: userEntity };
   }
 
+  /**
+   * Rotate the refresh token of a session. Presenting a token that was already
+   * rotated revokes the session, see SessionService.verify.
+   * @param userId User ID from the refresh token
+   * @param sessionId Session ID from the refresh token
+   * @param refreshToken The presented refresh token
+   * @param context Client details stored on the session
+   */
   async refreshTokens(
     userId: string,
+    sessionId: string | undefined,
     refreshToken: string,
+    context: SessionContext = {},
   ): Promise<TokensResponseDto> {
-    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    const session = await this.session.verify(sessionId, userId, refreshToken);
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
 
-    if (!user || !user.refreshToken) {
-      throw new ForbiddenException('Access Denied');
-    }
+    const tokens = await this.getTokens(user.id, user.email, session.id);
 
-    const isRefreshTokenValid = await argon.verify(
-      user.refreshToken,
-      refreshToken,
+    await this.session.rotate(
+      session.id,
+      tokens.refreshToken,
+      this.getExpiry(tokens.refreshToken),
+      context,
     );
 
-    if (!isRefreshTokenValid) {
-      throw new ForbiddenException('Access Denied');
-    }
+    return tokens;
+  }
+
+  /**
+   * List the active sessions of a user
+   * @param userId User ID
+   * @param currentSessionId Session of the request
+   */
+  async getSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionDto[]> {
+    return await this.session.list(userId, currentSessionId);
+  }
 
-    const tokens = await this.getTokens(user.id, user.email);
+  /**
+   * Revoke one of the user's sessions, e.g. a forgotten shared tablet
+   * @param userId User ID
+   * @param sessionId Session to revoke
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<{ revoked: boolean }> {
+    const revoked = await this.session.revoke(sessionId, userId);
 
-    await this.updateRefreshTokenHash(user.id, tokens.refreshToken);
+    if (!revoked) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
 
-    return tokens;
+    return { revoked };
   }
 
   private async getTokens(
     userId: string,
     email: string,
+    sessionId: string,
   ): Promise<TokensResponseDto> {
     const jwtPayload: JwtPayload = {
       sub: userId,
       email,
+      sid: sessionId,
     };
 
     const [accessToken, refreshToken] = await Promise.all([
@@ -231,13 +411,9 @@ export class AuthService {
     };
   }
 
-  private async updateRefreshTokenHash(
-    userId: string,
-    refreshToken: string,
-  ): Promise<void> {
-    const hashedRefreshToken = await argon.hash(refreshToken);
-
-    await this.user.updateRefreshToken(userId, hashedRefreshToken);
+  private getExpiry(token: string): Date {
+    const { exp } = this.jwt.decode<JwtPayload>(token);
+    return new Date((exp as number) * 1000);
   }
 
   private isPasswordValid(password: string): boolean {
@@ -0,0 +1,46 @@
+import { UserAccessLevel } from '@prisma/client';
+
+/**
+ * Permission matrix used with the `@Roles` decorator.
+ *
+ * | Group               | Access levels                        | Allowed                                         |
+ * | ------------------- | ------------------------------------ | ----------------------------------------------- |
+ * | ROUTE_CONTROL_ROLES | ADMIN                                | Change the system route (force-switch)          |
+ * | USER_ADMIN_ROLES    | ADMIN, SITE_ADMIN                    | Create/update/delete users, credit, autocredit  |
+ * | STAFF_ROLES         | ADMIN, SITE_ADMIN, SITE_MASTER       | Read all site data, run and pause syncs         |
+ * | ALL_ROLES           | every access level                   | Own profile, and own usage/history via `@Owner` |
+ */
+export const ROUTE_CONTROL_ROLES: UserAccessLevel[] = [UserAccessLevel.ADMIN];
+
+export const USER_ADMIN_ROLES: UserAccessLevel[] = [
+  UserAccessLevel.ADMIN,
+  UserAccessLevel.SITE_ADMIN,
+];
+
+export const STAFF_ROLES: UserAccessLevel[] = [
+  UserAccessLevel.ADMIN,
+  UserAccessLevel.SITE_ADMIN,
+  UserAccessLevel.SITE_MASTER,
+];
+
+export const ALL_ROLES: UserAccessLevel[] = Object.values(UserAccessLevel);
+
+/**
+ * Rank of each access level, a user can only grant or manage access levels up
+ * to their own. Prepaid users rank with users.
+ */
+export const ACCESS_LEVEL_RANKS: Record<UserAccessLevel, number> = {
+  [UserAccessLevel.ADMIN]: 3,
+  [UserAccessLevel.SITE_ADMIN]: 2,
+  [UserAccessLevel.SITE_MASTER]: 1,
+  [UserAccessLevel.USER]: 0,
+  [UserAccessLevel.PREPAID_USER]: 0,
+};
+
+/**
+ * Whether an access level ranks above another
+ */
+export const outranks = (
+  accessLevel: UserAccessLevel,
+  other: UserAccessLevel,
+): boolean => ACCESS_LEVEL_RANKS[accessLevel] > ACCESS_LEVEL_RANKS[other];
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_PENDING_PASSWORD_CHANGE_KEY = 'allowPendingPasswordChange';
+
+/**
+ * Keeps a route available to users who must change their password first
+ */
+export const AllowPendingPasswordChange = () =>
+  SetMetadata(ALLOW_PENDING_PASSWORD_CHANGE_KEY, true);
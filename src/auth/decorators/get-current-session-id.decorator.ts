@@ -0,0 +1,10 @@
+import { createParamDecorator, type ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+export const GetCurrentSessionId = createParamDecorator(
+  (data: unknown, context: ExecutionContext): string | undefined => {
+    const request: Request = context.switchToHttp().getRequest();
+    const user = request.user as { sessionId?: string } | undefined;
+    return user?.sessionId;
+  },
+);
@@ -4,13 +4,14 @@ import { UserEntity } from 'src/user/entities';
 
 export const GetCurrentUser = createParamDecorator(
   (
-    data: keyof UserEntity | undefined,
+    // refreshToken is only set on the user by the refresh token strategy
+    data: keyof UserEntity | 'refreshToken' | undefined,
     context: ExecutionContext,
   ): UserEntity | UserEntity[keyof UserEntity] => {
     const request: Request = context.switchToHttp().getRequest();
     if (!data) {
       return request.user as UserEntity;
     }
-    return request.user![data] as keyof UserEntity;
+    return request.user![data];
   },
 );
@@ -1,5 +1,8 @@
 export * from './roles.decorator';
 export * from './get-current-user.decorator';
 export * from './get-current-user-id.decorator';
+export * from './get-current-session-id.decorator';
 export * from './public.decorator';
 export * from './password-validator.decorator';
+export * from './owner.decorator';
+export * from './allow-pending-password-change.decorator';
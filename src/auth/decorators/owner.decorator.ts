@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const OWNER_PARAM_KEY = 'ownerParam';
+
+/**
+ * Lets a user without the required role through when the given route param
+ * is their own user id, e.g. `@Owner('userId')` on `/users/history/:userId`.
+ */
+export const Owner = (param: string) => SetMetadata(OWNER_PARAM_KEY, param);
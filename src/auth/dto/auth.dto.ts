@@ -1,3 +1,4 @@
+import { ApiProperty } from '@nestjs/swagger';
 import {
   Contains,
   IsEmail,
@@ -5,6 +6,7 @@ import {
   IsOptional,
   IsString,
   Length,
+  ValidateIf,
   ValidateNested,
 } from 'class-validator';
 import { IsPasswordValid } from '../decorators';
@@ -40,9 +42,16 @@ export class SignInErrorDto {
 }
 
 export class SignInDto {
+  @ValidateIf((o) => !o.login)
   @IsEmail()
   @IsNotEmpty()
-  email: string;
+  email?: string;
+
+  // Snake Ways login, accepted instead of the email for linked accounts
+  @ValidateIf((o) => !o.email)
+  @IsString()
+  @IsNotEmpty()
+  login?: string;
 
   @IsString()
   @IsNotEmpty()
@@ -57,3 +66,21 @@ export class SignInDto {
   @Type(() => SignInErrorDto)
   error?: SignInErrorDto;
 }
+
+export class LinkWithCodeDto {
+  @ApiProperty({
+    description: 'Snake Ways login of the user to link to',
+    example: 'john.doe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  login: string;
+
+  @ApiProperty({
+    description: 'One-time link code handed out by an administrator',
+    example: 'K7QX2MPA',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -1,2 +1,4 @@
 export * from './auth.dto';
 export * from './auth-response.dto';
+export * from './session.dto';
+export * from './password.dto';
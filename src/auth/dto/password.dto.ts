@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString, ValidateIf } from 'class-validator';
+import { IsPasswordValid } from '../decorators';
+
+export class ChangePasswordDto {
+  @ApiProperty({ description: 'Current password' })
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  @ApiProperty({ description: 'New password' })
+  @IsString()
+  @IsNotEmpty()
+  @IsPasswordValid({
+    message:
+      'Password must be at least 8 characters long, contain a letter, a number, and a special character',
+  })
+  newPassword: string;
+}
+
+export class ForgotPasswordDto {
+  @ApiProperty({ required: false, example: 'john@example.com' })
+  @ValidateIf((o) => !o.login)
+  @IsEmail()
+  @IsNotEmpty()
+  email?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Snake Ways login, accepted instead of the email',
+    example: 'john.doe',
+  })
+  @ValidateIf((o) => !o.email)
+  @IsString()
+  @IsNotEmpty()
+  login?: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Reset token from the notification' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ description: 'New password' })
+  @IsString()
+  @IsNotEmpty()
+  @IsPasswordValid({
+    message:
+      'Password must be at least 8 characters long, contain a letter, a number, and a special character',
+  })
+  newPassword: string;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionDto {
+  @ApiProperty({ description: 'Session ID', example: 'clj5abcde12345' })
+  id: string;
+
+  @ApiProperty({
+    description: 'User agent of the device that signed in',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({ description: 'Last known IP address', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'When the session was created (signed in)' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'When the session was last refreshed' })
+  lastUsedAt: Date;
+
+  @ApiProperty({ description: 'When the session expires if not refreshed' })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Whether this is the session of the request' })
+  current: boolean;
+}
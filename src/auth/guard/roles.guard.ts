@@ -1,6 +1,8 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { OWNER_PARAM_KEY } from '../decorators/owner.decorator';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 import { UserAccessLevel } from '@prisma/client';
 
 @Injectable()
@@ -8,6 +10,15 @@ export class RolesGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (isPublic) {
+      return true;
+    }
+
     const requiredRoles = this.reflector.getAllAndOverride<UserAccessLevel[]>(
       ROLES_KEY,
       [context.getHandler(), context.getClass()],
@@ -17,11 +28,18 @@ export class RolesGuard implements CanActivate {
       return true;
     }
 
-    const { user } = context.switchToHttp().getRequest();
+    const { user, params } = context.switchToHttp().getRequest();
+
+    if (requiredRoles.some((role) => user?.accessLevel === role)) {
+      return true;
+    }
+
+    // Users without the required role may still access their own resources
+    const ownerParam = this.reflector.get<string | undefined>(
+      OWNER_PARAM_KEY,
+      context.getHandler(),
+    );
 
-    // Check if the user has the required role
-    // This implementation depends on how your user object is structured
-    // Assuming user has a 'role' property that matches one of the Role enum values
-    return requiredRoles.some((role) => user?.accessLevel === role);
+    return !!ownerParam && !!user?.id && params?.[ownerParam] === user.id;
   }
 }
@@ -1,6 +1,8 @@
 export interface JwtPayload {
   sub: string;
   email: string;
+  // Session the token belongs to
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -0,0 +1,7 @@
+/**
+ * Client details recorded on a session when signing in or refreshing
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
@@ -0,0 +1,125 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoginAttemptResult, User } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LoginThrottleService } from './login-throttle.service';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let prisma: {
+    user: { update: jest.Mock; updateMany: jest.Mock };
+    loginAttempt: { create: jest.Mock; count: jest.Mock };
+  };
+
+  const user = { id: 'user-1', lockedUntil: null } as User;
+
+  beforeEach(async () => {
+    prisma = {
+      user: { update: jest.fn(), updateMany: jest.fn() },
+      loginAttempt: { create: jest.fn(), count: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              ({ LOGIN_MAX_FAILED_ATTEMPTS: '3', LOGIN_LOCKOUT_MINUTES: '15' })[
+                key
+              ],
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LoginThrottleService);
+    // Failed attempts are answered late, not worth waiting for here
+    jest.spyOn(service as any, 'delay').mockResolvedValue(undefined);
+  });
+
+  describe('isLocked', () => {
+    it('is locked until lockedUntil passes', () => {
+      expect(
+        service.isLocked({ lockedUntil: new Date(Date.now() + 1000) }),
+      ).toBe(true);
+      expect(
+        service.isLocked({ lockedUntil: new Date(Date.now() - 1000) }),
+      ).toBe(false);
+      expect(service.isLocked({ lockedUntil: null })).toBe(false);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('increments the counter in the database', async () => {
+      prisma.user.update.mockResolvedValueOnce({ failedLoginAttempts: 1 });
+
+      await service.recordFailure(
+        user,
+        'captain',
+        {},
+        LoginAttemptResult.INVALID_PASSWORD,
+      );
+
+      expect(prisma.user.update).toHaveBeenCalledTimes(1);
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { failedLoginAttempts: { increment: 1 } },
+        }),
+      );
+    });
+
+    it('locks the account once the returned count reaches the maximum', async () => {
+      prisma.user.update.mockResolvedValueOnce({ failedLoginAttempts: 3 });
+
+      await service.recordFailure(
+        user,
+        'captain',
+        {},
+        LoginAttemptResult.INVALID_PASSWORD,
+      );
+
+      expect(prisma.user.update).toHaveBeenCalledTimes(2);
+      const { data } = prisma.user.update.mock.calls[1][0];
+      const minutes = (data.lockedUntil.getTime() - Date.now()) / 60_000;
+      expect(minutes).toBeGreaterThan(14);
+      expect(minutes).toBeLessThanOrEqual(15);
+    });
+
+    it('starts the count over once a lockout has passed', async () => {
+      prisma.user.update.mockResolvedValueOnce({ failedLoginAttempts: 1 });
+
+      await service.recordFailure(
+        { ...user, failedLoginAttempts: 3, lockedUntil: new Date(0) },
+        'captain',
+        {},
+        LoginAttemptResult.INVALID_PASSWORD,
+      );
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: user.id, lockedUntil: { lte: expect.any(Date) } },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+      expect(prisma.user.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.user.update.mock.invocationCallOrder[0],
+      );
+      expect(prisma.user.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('only counts wrong passwords towards the lockout', async () => {
+      prisma.loginAttempt.count.mockResolvedValueOnce(4);
+
+      await service.recordFailure(
+        null,
+        'nobody',
+        { ipAddress: '10.0.0.1' },
+        LoginAttemptResult.UNKNOWN_USER,
+      );
+
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect((service as any).delay).toHaveBeenCalledWith(4);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoginAttemptResult, User } from '@prisma/client';
+import { addMinutes, subMinutes } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SessionContext } from './interfaces/session-context.interface';
+const chalk = require('chalk');
+
+// Delay before answering a failed attempt, doubling with each failure
+const BASE_FAILURE_DELAY_MS = 250;
+const MAX_FAILURE_DELAY_MS = 5000;
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutMinutes: number;
+  private readonly ipMaxFailedAttempts: number;
+  private readonly ipWindowMinutes: number;
+
+  constructor(
+    private prisma: PrismaService,
+    config: ConfigService,
+  ) {
+    this.maxFailedAttempts =
+      Number(config.get('LOGIN_MAX_FAILED_ATTEMPTS')) || 5;
+    this.lockoutMinutes = Number(config.get('LOGIN_LOCKOUT_MINUTES')) || 15;
+    this.ipMaxFailedAttempts =
+      Number(config.get('LOGIN_IP_MAX_FAILED_ATTEMPTS')) || 20;
+    this.ipWindowMinutes = Number(config.get('LOGIN_IP_WINDOW_MINUTES')) || 15;
+  }
+
+  /**
+   * Check if an IP address has too many recent failed attempts, across accounts
+   * @param ipAddress IP address of the request
+   */
+  async isIpBlocked(ipAddress?: string): Promise<boolean> {
+    if (!ipAddress) {
+      return false;
+    }
+
+    return (
+      (await this.countRecentIpFailures(ipAddress)) >= this.ipMaxFailedAttempts
+    );
+  }
+
+  /**
+   * Check if an account is temporarily locked
+   * @param user The user signing in
+   */
+  isLocked(user: Pick<User, 'lockedUntil'>): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  /**
+   * Record a successful sign-in and clear the failed-attempt counter
+   */
+  async recordSuccess(
+    user: User,
+    identifier: string,
+    context: SessionContext,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      }),
+      this.createAttempt(user.id, identifier, context, 'SUCCESS'),
+    ]);
+  }
+
+  /**
+   * Record a failed sign-in. Wrong passwords count towards the account lockout,
+   * then the response is delayed progressively to slow down guessing.
+   * @param user The user signing in, null if no user matched the identifier
+   * @param identifier Email or login as entered
+   * @param context Client details
+   * @param result Why the attempt failed
+   */
+  async recordFailure(
+    user: User | null,
+    identifier: string,
+    context: SessionContext,
+    result: Exclude<LoginAttemptResult, 'SUCCESS'>,
+  ): Promise<void> {
+    await this.createAttempt(user?.id ?? null, identifier, context, result);
+
+    let failures = 0;
+
+    if (user && result === LoginAttemptResult.INVALID_PASSWORD) {
+      const now = new Date();
+
+      // A lockout that has passed starts the count over
+      await this.prisma.user.updateMany({
+        where: { id: user.id, lockedUntil: { lte: now } },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+
+      // Incremented in the database so parallel guesses all count
+      ({ failedLoginAttempts: failures } = await this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true },
+      }));
+
+      if (failures >= this.maxFailedAttempts) {
+        await this.prisma.user.update({
+          where: { id: user.id },
+          data: { lockedUntil: addMinutes(now, this.lockoutMinutes) },
+        });
+
+        this.logger.warn(
+          chalk.yellow(
+            `Account ${user.id} locked for ${this.lockoutMinutes} minutes after ${failures} failed sign-in attempts`,
+          ),
+        );
+      }
+    } else if (context.ipAddress) {
+      failures = await this.countRecentIpFailures(context.ipAddress);
+    }
+
+    await this.delay(failures);
+  }
+
+  private createAttempt(
+    userId: string | null,
+    identifier: string,
+    context: SessionContext,
+    result: LoginAttemptResult,
+  ) {
+    return this.prisma.loginAttempt.create({
+      data: {
+        userId,
+        identifier,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        result,
+      },
+    });
+  }
+
+  private async countRecentIpFailures(ipAddress: string): Promise<number> {
+    return await this.prisma.loginAttempt.count({
+      where: {
+        ipAddress,
+        result: { not: LoginAttemptResult.SUCCESS },
+        createdAt: { gte: subMinutes(new Date(), this.ipWindowMinutes) },
+      },
+    });
+  }
+
+  private async delay(failures: number): Promise<void> {
+    if (failures <= 0) {
+      return;
+    }
+
+    const ms = Math.min(
+      BASE_FAILURE_DELAY_MS * 2 ** (failures - 1),
+      MAX_FAILURE_DELAY_MS,
+    );
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,154 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as argon from 'argon2';
+import { randomBytes } from 'crypto';
+import { addMinutes } from 'date-fns';
+import { Password } from 'src/common/utils/password';
+import { NotifierService } from 'src/notifier/notifier.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ChangePasswordDto, ForgotPasswordDto, ResetPasswordDto } from './dto';
+import { SessionService } from './session.service';
+const chalk = require('chalk');
+
+@Injectable()
+export class PasswordService {
+  private readonly logger = new Logger(PasswordService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private session: SessionService,
+    private notifier: NotifierService,
+  ) {}
+
+  /**
+   * Change the password of the signed-in user.
+   * Every other session is signed out.
+   * @param userId User ID
+   * @param sessionId Session of the request, kept signed in
+   * @param dto Current and new password
+   */
+  async changePassword(
+    userId: string,
+    sessionId: string | undefined,
+    dto: ChangePasswordDto,
+  ): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+
+    const currentMatches =
+      Password.isUsable(user.password) &&
+      (await argon.verify(user.password, dto.currentPassword));
+
+    if (!currentMatches) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: await argon.hash(dto.newPassword),
+        mustChangePassword: false,
+      },
+    });
+    await this.session.revokeAll(userId, sessionId);
+
+    return { message: 'Password changed successfully' };
+  }
+
+  /**
+   * Send a single-use password reset token to the user through the notifier.
+   * The response is the same whether or not the user exists.
+   * @param dto Email or Snake Ways login
+   */
+  async forgotPassword(dto: ForgotPasswordDto): Promise<{ message: string }> {
+    const message =
+      'If an account exists, password reset instructions have been sent';
+
+    const user = dto.login
+      ? await this.prisma.user.findUnique({
+          where: { snakeWaysLogin: dto.login },
+        })
+      : await this.prisma.user.findUnique({ where: { email: dto.email } });
+
+    // Unclaimed Snake Ways users have to link an account first
+    if (!user || !Password.isUsable(user.password)) {
+      return { message };
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = addMinutes(
+      new Date(),
+      Number(this.config.get('PASSWORD_RESET_TTL_MINUTES')) || 60,
+    );
+
+    // A new token replaces any previous one that was not used
+    await this.prisma.$transaction([
+      this.prisma.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      }),
+      this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: Password.hashToken(token),
+          expiresAt,
+        },
+      }),
+    ]);
+
+    this.logger.log(chalk.blue(`Password reset requested for ${user.id}`));
+
+    // A failure must not tell the caller that the account exists
+    try {
+      await this.notifier.send({
+        to: user.email,
+        subject: 'Canopus password reset',
+        text: `Use this token to reset your password: ${token}\nIt expires at ${expiresAt.toISOString()}. If you did not ask for a reset, ignore this message.`,
+      });
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to send the password reset token to ${user.id}`),
+        error,
+      );
+    }
+
+    return { message };
+  }
+
+  /**
+   * Set a new password with a reset token. The token can only be used once
+   * and every session of the user is signed out.
+   * @param dto Reset token and new password
+   */
+  async resetPassword(dto: ResetPasswordDto): Promise<{ message: string }> {
+    const resetToken = await this.prisma.passwordResetToken.findUnique({
+      where: { tokenHash: Password.hashToken(dto.token.trim()) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // Only one concurrent request can claim the token
+    const { count } = await this.prisma.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.prisma.user.update({
+      where: { id: resetToken.userId },
+      data: {
+        password: await argon.hash(dto.newPassword),
+        mustChangePassword: false,
+      },
+    });
+    await this.session.revokeAll(resetToken.userId);
+
+    return { message: 'Password reset successfully' };
+  }
+}
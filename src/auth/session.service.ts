@@ -0,0 +1,184 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import * as argon from 'argon2';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SessionDto } from './dto';
+import { SessionContext } from './interfaces/session-context.interface';
+const chalk = require('chalk');
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a session for a newly issued refresh token.
+   * Expired and revoked sessions of the user are cleaned up at the same time.
+   * @param sessionId ID embedded in the tokens
+   * @param userId User ID
+   * @param refreshToken The issued refresh token
+   * @param expiresAt Expiry of the refresh token
+   * @param context Client details
+   */
+  async create(
+    sessionId: string,
+    userId: string,
+    refreshToken: string,
+    expiresAt: Date,
+    context: SessionContext = {},
+  ): Promise<Session> {
+    await this.prisma.session.deleteMany({
+      where: {
+        userId,
+        OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }],
+      },
+    });
+
+    return await this.prisma.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        tokenHash: await argon.hash(refreshToken),
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt,
+      },
+    });
+  }
+
+  /**
+   * Check a presented refresh token against its session.
+   * A token that verifies but is not the latest of its session has already been
+   * rotated, meaning it was stolen or replayed, so the whole session is revoked.
+   * @throws ForbiddenException if the token can't be used to refresh
+   */
+  async verify(
+    sessionId: string | undefined,
+    userId: string,
+    refreshToken: string,
+  ): Promise<Session> {
+    const session = sessionId
+      ? await this.prisma.session.findUnique({ where: { id: sessionId } })
+      : null;
+
+    if (
+      !session ||
+      session.userId !== userId ||
+      session.revokedAt ||
+      session.expiresAt < new Date()
+    ) {
+      throw new ForbiddenException('Access Denied');
+    }
+
+    const isLatestToken = await argon.verify(session.tokenHash, refreshToken);
+
+    if (!isLatestToken) {
+      this.logger.warn(
+        chalk.yellow(
+          `Refresh token reuse detected for session ${session.id} of user ${userId}, revoking the session`,
+        ),
+      );
+      await this.revoke(session.id);
+      throw new ForbiddenException('Access Denied');
+    }
+
+    return session;
+  }
+
+  /**
+   * Store the rotated refresh token of a session
+   * @param sessionId Session ID
+   * @param refreshToken The new refresh token
+   * @param expiresAt Expiry of the new refresh token
+   * @param context Client details
+   */
+  async rotate(
+    sessionId: string,
+    refreshToken: string,
+    expiresAt: Date,
+    context: SessionContext = {},
+  ): Promise<void> {
+    await this.prisma.session.update({
+      where: { id: sessionId },
+      data: {
+        tokenHash: await argon.hash(refreshToken),
+        lastUsedAt: new Date(),
+        expiresAt,
+        ...(context.userAgent && { userAgent: context.userAgent }),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      },
+    });
+  }
+
+  /**
+   * Check if a session can still be used, for access tokens issued to it
+   * @param sessionId Session ID
+   * @returns True if the session exists, is not revoked and has not expired
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   * @param userId User ID
+   * @param currentSessionId Session of the request, flagged as current
+   */
+  async list(userId: string, currentSessionId?: string): Promise<SessionDto[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke a session, its refresh and access tokens stop working immediately
+   * @param sessionId Session ID
+   * @param userId Only revoke the session if it belongs to this user
+   * @returns True if a session was revoked
+   */
+  async revoke(sessionId: string, userId?: string): Promise<boolean> {
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        ...(userId && { userId }),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, e.g. after a password change
+   * @param userId User ID
+   * @param exceptSessionId Session to keep, usually the one of the request
+   */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
@@ -30,7 +30,13 @@ export class JwtRefreshStrategy extends PassportStrategy(
   async validate(
     request: Request,
     payload: JwtPayload,
-  ): Promise<(Omit<UserEntity, 'password'> & { refreshToken: string }) | null> {
+  ): Promise<
+    | (Omit<UserEntity, 'password' | 'linkCodeHash'> & {
+        refreshToken: string;
+        sessionId?: string;
+      })
+    | null
+  > {
     const refreshToken = request.cookies?.refreshToken;
 
     const user = await this.prisma.user.findUnique({
@@ -42,8 +48,8 @@ export class JwtRefreshStrategy extends PassportStrategy(
     }
 
     const userEntity = new UserEntity(user);
-    const { password, ...result } = userEntity;
+    const { password, linkCodeHash, ...result } = userEntity;
 
-    return { ...result, refreshToken };
+    return { ...result, refreshToken, sessionId: payload.sid };
   }
 }
@@ -5,23 +5,46 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { JwtPayload } from '../interfaces/jwt-payload.interface';
 import { UserEntity } from 'src/user/entities/user.entity';
+import { SessionService } from '../session.service';
+import { Request } from 'express';
+
+// EventSource can't send headers, so the live stream also accepts the access
+// token as ?access_token=
+const fromLiveStreamQuery = (request: Request): string | null =>
+  request.path === '/live/stream' &&
+  typeof request.query.access_token === 'string'
+    ? request.query.access_token
+    : null;
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
     config: ConfigService,
     private prisma: PrismaService,
+    private session: SessionService,
   ) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromLiveStreamQuery,
+      ]),
       ignoreExpiration: false,
       secretOrKey: config.get('JWT_SECRET') as string,
     });
   }
 
-  async validate(
-    payload: JwtPayload,
-  ): Promise<Omit<UserEntity, 'password'> | null> {
+  async validate(payload: JwtPayload): Promise<
+    | (Omit<UserEntity, 'password' | 'linkCodeHash'> & {
+        sessionId?: string;
+        tokenExpiresAt?: Date;
+      })
+    | null
+  > {
+    // Access tokens of a revoked session stop working before they expire
+    if (payload.sid && !(await this.session.isActive(payload.sid))) {
+      return null;
+    }
+
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
     });
@@ -32,8 +55,12 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
 
     const userEntity = new UserEntity(user);
 
-    const { password, ...result } = userEntity;
+    const { password, linkCodeHash, ...result } = userEntity;
 
-    return result;
+    return {
+      ...result,
+      sessionId: payload.sid,
+      tokenExpiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
+    };
   }
 }
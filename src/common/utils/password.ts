@@ -0,0 +1,37 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Prefix marking a password hash that can never be used to sign in.
+ * Argon2 hashes always start with "$argon2", so they never collide with it.
+ */
+const UNUSABLE_PASSWORD_PREFIX = '!';
+
+export class Password {
+  /**
+   * Create a password value that no password will ever verify against,
+   * used for users synced from Snake Ways that have not claimed an account
+   * @returns Unusable password hash
+   */
+  static unusable(): string {
+    return UNUSABLE_PASSWORD_PREFIX + randomBytes(20).toString('hex');
+  }
+
+  /**
+   * Check if a stored password hash can be used to sign in
+   * @param hash Stored password hash
+   * @returns True if the hash is a real password hash
+   */
+  static isUsable(hash: string | null | undefined): boolean {
+    return !!hash && !hash.startsWith(UNUSABLE_PASSWORD_PREFIX);
+  }
+
+  /**
+   * Hash a random single-use token for storage. Tokens have enough entropy
+   * that a fast, unsalted hash is safe and keeps them searchable.
+   * @param token Token in plain text
+   * @returns SHA-256 hex digest
+   */
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
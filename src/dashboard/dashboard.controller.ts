@@ -1,4 +1,32 @@
-import { Controller } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DashboardService } from './dashboard.service';
+import { DashboardOverviewDto, DashboardOverviewQueryDto } from './dto';
+import { Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
 
+@ApiTags('Dashboard')
+@Roles(...STAFF_ROLES)
 @Controller('dashboard')
-export class DashboardController {}
+export class DashboardController {
+  constructor(private readonly dashboardService: DashboardService) {}
+
+  @Get('overview')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the current route, WAN usage, top LANs, user and interface counts',
+    type: DashboardOverviewDto,
+  })
+  @ApiOperation({ summary: 'Get the site overview for the dashboard' })
+  async getOverview(
+    @Query() query: DashboardOverviewQueryDto,
+  ): Promise<DashboardOverviewDto> {
+    const { creditThreshold, topLans } = query;
+    return await this.dashboardService.getOverview({
+      creditThreshold:
+        creditThreshold !== undefined ? Number(creditThreshold) : undefined,
+      topLans: topLans !== undefined ? Number(topLans) : undefined,
+    });
+  }
+}
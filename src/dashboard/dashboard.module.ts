@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
+import { SnakeWaysBaseModule } from 'src/snake-ways/snake-ways-base.module';
 import { DashboardController } from './dashboard.controller';
 import { DashboardService } from './dashboard.service';
 
 @Module({
+  imports: [SnakeWaysBaseModule],
   controllers: [DashboardController],
-  providers: [DashboardService]
+  providers: [DashboardService],
 })
 export class DashboardModule {}
@@ -1,4 +1,274 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { Status, UserAccessLevel } from '@prisma/client';
+import { startOfMonth } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SystemRouteResponse } from 'src/snake-ways/wan/dto';
+import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
+import {
+  DashboardInterfaceCountsDto,
+  DashboardLanDto,
+  DashboardLowCreditUserDto,
+  DashboardOverviewDto,
+  DashboardUserCountsDto,
+  DashboardWanDto,
+} from './dto';
+const chalk = require('chalk');
+
+/** Default low credit threshold: 1 GB of data credit */
+const DEFAULT_CREDIT_THRESHOLD = 1024 * 1024 * 1024;
+const DEFAULT_TOP_LANS = 5;
+const MAX_LOW_CREDIT_USERS = 20;
 
 @Injectable()
-export class DashboardService {}
+export class DashboardService {
+  private readonly logger = new Logger(DashboardService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly swWanService: SnakeWaysWanService,
+  ) {}
+
+  /**
+   * Build the site overview shown on the dashboard
+   * @param options Credit threshold (bytes) and number of top LANs to return
+   * @returns DashboardOverviewDto
+   */
+  async getOverview(options?: {
+    creditThreshold?: number;
+    topLans?: number;
+  }): Promise<DashboardOverviewDto> {
+    const creditThreshold =
+      options?.creditThreshold ?? DEFAULT_CREDIT_THRESHOLD;
+    const topLans = options?.topLans ?? DEFAULT_TOP_LANS;
+    const monthStart = startOfMonth(new Date());
+
+    try {
+      const [route, users, lowCreditUsers, interfaces, topLanList] =
+        await Promise.all([
+          this.getCurrentRoute(),
+          this.getUserCounts(),
+          this.getLowCreditUsers(creditThreshold),
+          this.getInterfaceCounts(),
+          this.getTopLans(monthStart, topLans),
+        ]);
+
+      const wans = await this.getWans(monthStart, route);
+
+      return {
+        route,
+        wans,
+        topLans: topLanList,
+        users,
+        creditThreshold,
+        lowCreditUsers,
+        interfaces,
+        generatedAt: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to build dashboard overview'), error);
+      throw new Error(`Failed to build dashboard overview: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the current system route, or null if Snake Ways is unavailable
+   */
+  private async getCurrentRoute(): Promise<SystemRouteResponse | null> {
+    try {
+      return await this.swWanService.getCurrentSystemRoute();
+    } catch (error) {
+      this.logger.warn(
+        chalk.yellow(
+          `Current system route unavailable for dashboard: ${error.message}`,
+        ),
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Get every WAN with its status and month-to-date usage
+   */
+  private async getWans(
+    monthStart: Date,
+    route: SystemRouteResponse | null,
+  ): Promise<DashboardWanDto[]> {
+    const wans = await this.prisma.wan.findMany({
+      orderBy: { wanName: 'asc' },
+      include: {
+        usageRecords: {
+          where: { snapshotDate: { gte: monthStart } },
+          orderBy: { snapshotDate: 'asc' },
+          select: { bytes: true },
+        },
+      },
+    });
+
+    return wans.map((wan) => {
+      const monthToDateBytes = this.calculateUsage(
+        wan.usageRecords.map((record) => record.bytes),
+      );
+      const maxUsageInBytes = Number(wan.maxUsageInBytes);
+
+      return {
+        id: wan.id,
+        wanName: wan.wanName,
+        wanStatus: wan.wanStatus,
+        usageLimitStatus: wan.usageLimitStatus,
+        monthToDateBytes,
+        formattedMonthToDateBytes: this.formatBytes(monthToDateBytes),
+        maxUsageInBytes,
+        usagePercent:
+          maxUsageInBytes > 0
+            ? parseFloat(
+                ((monthToDateBytes / maxUsageInBytes) * 100).toFixed(2),
+              )
+            : null,
+        isCurrentRoute: route?.wanId === wan.id,
+      };
+    });
+  }
+
+  /**
+   * Get the LANs with the highest month-to-date usage across all WANs
+   */
+  private async getTopLans(
+    monthStart: Date,
+    take: number,
+  ): Promise<DashboardLanDto[]> {
+    const lans = await this.prisma.lan.findMany({
+      include: {
+        usageRecords: {
+          where: { snapshotDate: { gte: monthStart } },
+          orderBy: { snapshotDate: 'asc' },
+          select: { wanId: true, bytes: true },
+        },
+      },
+    });
+
+    return lans
+      .map((lan) => {
+        // Usage records are cumulative per LAN+WAN pair, so diff each pair separately
+        const bytesByWan = new Map<string, bigint[]>();
+        for (const record of lan.usageRecords) {
+          const bytes = bytesByWan.get(record.wanId) ?? [];
+          bytes.push(record.bytes);
+          bytesByWan.set(record.wanId, bytes);
+        }
+
+        let totalBytes = 0;
+        for (const bytes of bytesByWan.values()) {
+          totalBytes += this.calculateUsage(bytes);
+        }
+
+        return {
+          id: lan.id,
+          lanName: lan.lanName,
+          totalBytes,
+          formattedTotalBytes: this.formatBytes(totalBytes),
+        };
+      })
+      .sort((a, b) => b.totalBytes - a.totalBytes)
+      .slice(0, take);
+  }
+
+  /**
+   * Count users by status and access level
+   */
+  private async getUserCounts(): Promise<DashboardUserCountsDto> {
+    const [byStatus, byAccessLevel] = await Promise.all([
+      this.prisma.user.groupBy({ by: ['status'], _count: { _all: true } }),
+      this.prisma.user.groupBy({
+        by: ['accessLevel'],
+        _count: { _all: true },
+      }),
+    ]);
+
+    // Start every enum value at zero so the frontend always gets the same keys
+    const statusCounts = Object.fromEntries(
+      Object.values(Status).map((status) => [status, 0]),
+    ) as Record<Status, number>;
+    const accessLevelCounts = Object.fromEntries(
+      Object.values(UserAccessLevel).map((level) => [level, 0]),
+    ) as Record<UserAccessLevel, number>;
+
+    let total = 0;
+    for (const group of byStatus) {
+      statusCounts[group.status] = group._count._all;
+      total += group._count._all;
+    }
+    for (const group of byAccessLevel) {
+      accessLevelCounts[group.accessLevel] = group._count._all;
+    }
+
+    return {
+      total,
+      byStatus: statusCounts,
+      byAccessLevel: accessLevelCounts,
+    };
+  }
+
+  /**
+   * Get registered users whose data credit is below the threshold
+   */
+  private async getLowCreditUsers(
+    threshold: number,
+  ): Promise<DashboardLowCreditUserDto[]> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        status: Status.REGISTERED,
+        dataCredit: { lt: BigInt(threshold) },
+      },
+      orderBy: { dataCredit: 'asc' },
+      take: MAX_LOW_CREDIT_USERS,
+      select: {
+        id: true,
+        name: true,
+        displayName: true,
+        accessLevel: true,
+        dataCredit: true,
+      },
+    });
+
+    return users.map((user) => ({
+      ...user,
+      dataCredit: Number(user.dataCredit),
+      formattedDataCredit: this.formatBytes(Number(user.dataCredit)),
+    }));
+  }
+
+  /**
+   * Count network interfaces that are up (status > 0) and down (status = 0)
+   */
+  private async getInterfaceCounts(): Promise<DashboardInterfaceCountsDto> {
+    const [total, down] = await Promise.all([
+      this.prisma.networkInterface.count(),
+      this.prisma.networkInterface.count({ where: { status: 0 } }),
+    ]);
+
+    return { total, up: total - down, down };
+  }
+
+  /**
+   * Sum the positive differences between consecutive cumulative byte counters
+   */
+  private calculateUsage(bytes: bigint[]): number {
+    let usage = 0;
+    for (let i = 1; i < bytes.length; i++) {
+      const periodUsage = Number(bytes[i] - bytes[i - 1]);
+      if (periodUsage > 0) {
+        usage += periodUsage;
+      }
+    }
+    return usage;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes <= 0) return '0 Bytes';
+
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+
+    return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+}
@@ -0,0 +1,206 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Status,
+  UsageLimitStatus,
+  UserAccessLevel,
+  WanStatus,
+} from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { SystemRouteResponse } from 'src/snake-ways/wan/dto';
+
+/**
+ * Query params DTO for the dashboard overview
+ */
+export class DashboardOverviewQueryDto {
+  @ApiProperty({
+    description:
+      'Users whose data credit (in bytes) is below this value are reported as low on credit',
+    required: false,
+    example: 1073741824,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  creditThreshold?: number;
+
+  @ApiProperty({
+    description: 'Number of LANs to include in the top LANs list',
+    required: false,
+    example: 5,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  topLans?: number;
+}
+
+/**
+ * DTO for the status and month-to-date usage of a single WAN
+ */
+export class DashboardWanDto {
+  @ApiProperty({
+    description: 'WAN ID',
+    example: '97A0AC67166A11EDA4F51737CD617E52',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'WAN name', example: 'STARLINK' })
+  wanName: string;
+
+  @ApiProperty({ description: 'Current WAN status', enum: WanStatus })
+  wanStatus: WanStatus;
+
+  @ApiProperty({ description: 'Usage limit status', enum: UsageLimitStatus })
+  usageLimitStatus: UsageLimitStatus;
+
+  @ApiProperty({ description: 'Bytes used since the start of the month' })
+  monthToDateBytes: number;
+
+  @ApiProperty({ description: 'Human-readable month-to-date usage' })
+  formattedMonthToDateBytes: string;
+
+  @ApiProperty({ description: 'Maximum usage allowed in bytes (0 = no limit)' })
+  maxUsageInBytes: number;
+
+  @ApiProperty({
+    description: 'Month-to-date usage as a percentage of the maximum usage',
+    nullable: true,
+    example: 42.5,
+  })
+  usagePercent: number | null;
+
+  @ApiProperty({ description: 'Whether this WAN is the current system route' })
+  isCurrentRoute: boolean;
+}
+
+/**
+ * DTO for a LAN in the top LANs list
+ */
+export class DashboardLanDto {
+  @ApiProperty({
+    description: 'LAN ID',
+    example: '979F48BB166A11EDA4F51737CD617E52',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'LAN name', example: 'BUSINESS' })
+  lanName: string;
+
+  @ApiProperty({ description: 'Bytes used since the start of the month' })
+  totalBytes: number;
+
+  @ApiProperty({ description: 'Human-readable total bytes' })
+  formattedTotalBytes: string;
+}
+
+/**
+ * DTO for user counts grouped by status and access level
+ */
+export class DashboardUserCountsDto {
+  @ApiProperty({ description: 'Total number of users' })
+  total: number;
+
+  @ApiProperty({
+    description: 'Number of users per status',
+    example: { PENDING: 0, ERROR: 0, REGISTERED: 12 },
+  })
+  byStatus: Record<Status, number>;
+
+  @ApiProperty({
+    description: 'Number of users per access level',
+    example: {
+      ADMIN: 1,
+      SITE_ADMIN: 0,
+      SITE_MASTER: 0,
+      USER: 3,
+      PREPAID_USER: 8,
+    },
+  })
+  byAccessLevel: Record<UserAccessLevel, number>;
+}
+
+/**
+ * DTO for a user whose data credit is below the threshold
+ */
+export class DashboardLowCreditUserDto {
+  @ApiProperty({ description: 'User ID', example: 'clj5abcde12345' })
+  id: string;
+
+  @ApiProperty({ description: 'User name', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ description: 'Display name', nullable: true })
+  displayName: string | null;
+
+  @ApiProperty({ description: 'Access level', enum: UserAccessLevel })
+  accessLevel: UserAccessLevel;
+
+  @ApiProperty({ description: 'Remaining data credit in bytes' })
+  dataCredit: number;
+
+  @ApiProperty({ description: 'Human-readable remaining data credit' })
+  formattedDataCredit: string;
+}
+
+/**
+ * DTO for network interface up/down counts
+ */
+export class DashboardInterfaceCountsDto {
+  @ApiProperty({ description: 'Total number of interfaces' })
+  total: number;
+
+  @ApiProperty({ description: 'Number of interfaces that are up' })
+  up: number;
+
+  @ApiProperty({ description: 'Number of interfaces that are down' })
+  down: number;
+}
+
+/**
+ * Response DTO for the dashboard overview
+ */
+export class DashboardOverviewDto {
+  @ApiProperty({
+    description:
+      'Current system route, or null if Snake Ways could not be reached',
+    type: SystemRouteResponse,
+    nullable: true,
+  })
+  route: SystemRouteResponse | null;
+
+  @ApiProperty({ description: 'WAN status and usage', type: [DashboardWanDto] })
+  wans: DashboardWanDto[];
+
+  @ApiProperty({
+    description: 'LANs with the highest month-to-date usage',
+    type: [DashboardLanDto],
+  })
+  topLans: DashboardLanDto[];
+
+  @ApiProperty({ description: 'User counts', type: DashboardUserCountsDto })
+  users: DashboardUserCountsDto;
+
+  @ApiProperty({
+    description: 'Credit threshold (in bytes) used for the low credit list',
+  })
+  creditThreshold: number;
+
+  @ApiProperty({
+    description: 'Users whose data credit is below the threshold',
+    type: [DashboardLowCreditUserDto],
+  })
+  lowCreditUsers: DashboardLowCreditUserDto[];
+
+  @ApiProperty({
+    description: 'Network interface counts',
+    type: DashboardInterfaceCountsDto,
+  })
+  interfaces: DashboardInterfaceCountsDto;
+
+  @ApiProperty({ description: 'When this overview was generated' })
+  generatedAt: Date;
+}
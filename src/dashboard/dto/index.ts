@@ -0,0 +1 @@
+export * from './dashboard-overview.dto';
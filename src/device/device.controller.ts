@@ -0,0 +1,33 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DeviceService } from './device.service';
+import { DeviceUsageQueryDto } from './dto';
+import { ClientUsageEntity } from './entities';
+import { Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
+
+@ApiTags('Devices')
+@Roles(...STAFF_ROLES)
+@Controller('devices')
+export class DeviceController {
+  constructor(private readonly deviceService: DeviceService) {}
+
+  @Get(':mac/usage')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns usage records of a client device',
+    type: [ClientUsageEntity],
+  })
+  @ApiOperation({ summary: 'Get usage of a client device by MAC address' })
+  async getDeviceUsage(
+    @Param('mac') mac: string,
+    @Query() query: DeviceUsageQueryDto,
+  ): Promise<ClientUsageEntity[]> {
+    const { startDate, endDate, limit } = query;
+    return await this.deviceService.getDeviceUsage(mac, {
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+}
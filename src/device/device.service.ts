@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { endOfDay, startOfDay, startOfMonth } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DeviceSummaryDto } from './dto';
+import { ClientUsageEntity } from './entities';
+const chalk = require('chalk');
+
+@Injectable()
+export class DeviceService {
+  private readonly logger = new Logger(DeviceService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Get the devices (MAC addresses) of a user with their usage in a period
+   * @param userId User ID
+   * @param options Date range, defaults to the current month
+   * @returns Devices sorted by total usage, highest first
+   */
+  async getUserDevices(
+    userId: string,
+    options?: { startDate?: Date; endDate?: Date },
+  ): Promise<DeviceSummaryDto[]> {
+    try {
+      const records = await this.prismaService.clientUsage.findMany({
+        where: {
+          userId,
+          startTime: this.buildDateFilter(options),
+        },
+      });
+
+      const devices = new Map<
+        string,
+        { lanNames: Set<string>; rx: number; tx: number; lastSeen: Date | null }
+      >();
+
+      for (const record of records) {
+        const device = devices.get(record.clientMac) ?? {
+          lanNames: new Set<string>(),
+          rx: 0,
+          tx: 0,
+          lastSeen: null,
+        };
+
+        if (record.lanName) {
+          device.lanNames.add(record.lanName);
+        }
+        device.rx += Number(record.rx);
+        device.tx += Number(record.tx);
+
+        const seenAt = record.endTime ?? record.startTime;
+        if (!device.lastSeen || seenAt > device.lastSeen) {
+          device.lastSeen = seenAt;
+        }
+
+        devices.set(record.clientMac, device);
+      }
+
+      const userTotal = Array.from(devices.values()).reduce(
+        (sum, device) => sum + device.rx + device.tx,
+        0,
+      );
+
+      return Array.from(devices.entries())
+        .map(([clientMac, device]) => {
+          const totalBytes = device.rx + device.tx;
+          return {
+            clientMac,
+            lanNames: Array.from(device.lanNames).sort(),
+            rx: device.rx,
+            tx: device.tx,
+            totalBytes,
+            formattedTotalBytes: this.formatBytes(totalBytes),
+            usagePercentage:
+              userTotal > 0
+                ? parseFloat(((totalBytes / userTotal) * 100).toFixed(2))
+                : 0,
+            lastSeen: device.lastSeen,
+          };
+        })
+        .sort((a, b) => b.totalBytes - a.totalBytes);
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to get devices for user ${userId}`),
+        error,
+      );
+      throw new Error(
+        `Failed to get devices for user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Get the usage records of a single device
+   * @param clientMac Client MAC address (case insensitive)
+   * @param options Date range (defaults to the current month) and record limit
+   * @returns Usage records, most recent first
+   */
+  async getDeviceUsage(
+    clientMac: string,
+    options?: { startDate?: Date; endDate?: Date; limit?: number },
+  ): Promise<ClientUsageEntity[]> {
+    try {
+      const records = await this.prismaService.clientUsage.findMany({
+        where: {
+          clientMac: clientMac.toUpperCase(),
+          startTime: this.buildDateFilter(options),
+        },
+        orderBy: { startTime: 'desc' },
+        take: options?.limit ?? 100,
+      });
+
+      return records.map((record) => new ClientUsageEntity(record));
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to get usage for device ${clientMac}`),
+        error,
+      );
+      throw new Error(
+        `Failed to get usage for device ${clientMac}: ${error.message}`,
+      );
+    }
+  }
+
+  private buildDateFilter(options?: {
+    startDate?: Date;
+    endDate?: Date;
+  }): Prisma.DateTimeFilter {
+    const filter: Prisma.DateTimeFilter = {
+      gte: startOfDay(options?.startDate ?? startOfMonth(new Date())),
+    };
+
+    if (options?.endDate) {
+      filter.lte = endOfDay(options.endDate);
+    }
+
+    return filter;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes === 0) return '0 Bytes';
+
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+
+    return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+}
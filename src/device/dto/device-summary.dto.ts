@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Usage of a single client device (MAC address) over a period
+ */
+export class DeviceSummaryDto {
+  @ApiProperty({
+    description: 'Client MAC address',
+    example: 'A4:83:E7:12:34:56',
+  })
+  clientMac: string;
+
+  @ApiProperty({
+    description: 'LANs the device used during the period',
+    example: ['CREW'],
+    type: [String],
+  })
+  lanNames: string[];
+
+  @ApiProperty({ description: 'Bytes received (downloaded)' })
+  rx: number;
+
+  @ApiProperty({ description: 'Bytes transmitted (uploaded)' })
+  tx: number;
+
+  @ApiProperty({ description: 'Total bytes (rx + tx)' })
+  totalBytes: number;
+
+  @ApiProperty({ description: 'Human-readable formatted total bytes' })
+  formattedTotalBytes: string;
+
+  @ApiProperty({
+    description: 'Share of the user total usage for the period in percent',
+    example: 62.5,
+  })
+  usagePercentage: number;
+
+  @ApiProperty({
+    description: 'End of the most recent usage period of the device',
+    nullable: true,
+  })
+  lastSeen: Date | null;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class DeviceUsageQueryDto {
+  @ApiProperty({
+    description:
+      'Start date for filtering records (YYYY-MM-DD), defaults to the start of the month',
+    required: false,
+    example: '2025-05-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'End date for filtering records (YYYY-MM-DD)',
+    required: false,
+    example: '2025-05-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of records to return',
+    required: false,
+    example: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
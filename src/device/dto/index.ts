@@ -0,0 +1,2 @@
+export * from './device-summary.dto';
+export * from './device-usage-query.dto';
@@ -0,0 +1,107 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ClientUsage } from '@prisma/client';
+
+export class ClientUsageEntity implements Omit<ClientUsage, 'rx' | 'tx'> {
+  constructor(partial: Partial<any>) {
+    Object.assign(this, partial);
+
+    // Handle bigint conversion for serialization
+    if (partial.rx !== undefined) {
+      this.rx = Number(partial.rx);
+    }
+
+    if (partial.tx !== undefined) {
+      this.tx = Number(partial.tx);
+    }
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the client usage record',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User ID the client belongs to',
+    example: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Client MAC address',
+    example: 'A4:83:E7:12:34:56',
+  })
+  clientMac: string;
+
+  @ApiProperty({
+    description: 'LAN the client was connected to',
+    example: 'CREW',
+  })
+  lanName: string;
+
+  @ApiProperty({
+    description: 'Bytes received (downloaded)',
+    example: 104857600,
+  })
+  rx: number;
+
+  @ApiProperty({
+    description: 'Bytes transmitted (uploaded)',
+    example: 10485760,
+  })
+  tx: number;
+
+  @ApiProperty({
+    description: 'Start time of the usage period',
+    example: '2023-05-15T10:30:00Z',
+  })
+  startTime: Date;
+
+  @ApiProperty({
+    description: 'End time of the usage period (null if still active)',
+    example: '2023-05-15T11:30:00Z',
+    required: false,
+    nullable: true,
+  })
+  endTime: Date | null;
+
+  @ApiProperty({
+    description: 'When the record was created',
+    example: '2023-05-15T10:30:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the record was last updated',
+    example: '2023-05-15T10:30:00Z',
+  })
+  updatedAt: Date;
+
+  @ApiProperty({
+    description: 'Total bytes (rx + tx)',
+    example: 115343360,
+  })
+  get totalBytes(): number {
+    return this.rx + this.tx;
+  }
+
+  @ApiProperty({
+    description: 'Human-readable formatted total bytes',
+    example: '110 MB',
+  })
+  get formattedTotalBytes(): string {
+    return this.formatBytes(this.totalBytes);
+  }
+
+  /**
+   * Format bytes to human-readable string
+   */
+  private formatBytes(bytes: number): string {
+    if (bytes === 0) return '0 Bytes';
+
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+
+    return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+}
@@ -2,8 +2,11 @@ import { Controller, Get, Param, Post } from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { InterfaceService } from './interface.service';
 import { NetworkInterfaceEntity } from './entities';
+import { Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
 
 @ApiTags('INTERFACES')
+@Roles(...STAFF_ROLES)
 @Controller('interfaces')
 export class InterfaceController {
   constructor(private readonly interfaceService: InterfaceService) {}
@@ -91,23 +94,4 @@ export class InterfaceController {
       throw error;
     }
   }
-
-  @Post('restart-polling')
-  @ApiResponse({
-    status: 200,
-    description: 'Restart Snake Ways polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
-  })
-  @ApiOperation({
-    summary: 'Restart Snake Ways polling if it has stopped due to failures',
-  })
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return await this.interfaceService.restartPolling();
-  }
 }
@@ -123,4 +123,28 @@ export class LanWithUsageDto {
     example: '204.75 MB',
   })
   formattedTotalBytes: string;
+
+  @ApiProperty({
+    description: 'Total bytes received (downloaded) across all usage records',
+    example: 193227439,
+  })
+  totalRxBytes: number;
+
+  @ApiProperty({
+    description: 'Human-readable formatted total bytes received',
+    example: '184.28 MB',
+  })
+  formattedTotalRxBytes: string;
+
+  @ApiProperty({
+    description: 'Total bytes transmitted (uploaded) across all usage records',
+    example: 21469716,
+  })
+  totalTxBytes: number;
+
+  @ApiProperty({
+    description: 'Human-readable formatted total bytes transmitted',
+    example: '20.48 MB',
+  })
+  formattedTotalTxBytes: string;
 }
@@ -18,7 +18,9 @@ export class WanInfo {
   wanName: string;
 }
 
-export class LanUsageEntity implements Omit<LanUsage, 'bytes'> {
+export class LanUsageEntity
+  implements Omit<LanUsage, 'bytes' | 'rxBytes' | 'txBytes'>
+{
   constructor(partial: Partial<any>) {
     Object.assign(this, partial);
 
@@ -31,6 +33,14 @@ export class LanUsageEntity implements Omit<LanUsage, 'bytes'> {
       }
     }
 
+    if (partial.rxBytes !== undefined) {
+      this.rxBytes = Number(partial.rxBytes);
+    }
+
+    if (partial.txBytes !== undefined) {
+      this.txBytes = Number(partial.txBytes);
+    }
+
     // Create nested lan and wan objects for proper typegen
     if (partial.lan || partial.lanName) {
       this.lan = {
@@ -105,6 +115,18 @@ export class LanUsageEntity implements Omit<LanUsage, 'bytes'> {
   })
   bytes: number;
 
+  @ApiProperty({
+    description: 'Bytes received (downloaded) during this period',
+    example: 193227439,
+  })
+  rxBytes: number;
+
+  @ApiProperty({
+    description: 'Bytes transmitted (uploaded) during this period',
+    example: 21469716,
+  })
+  txBytes: number;
+
   @ApiProperty({
     description: 'LAN name for display purposes',
     example: 'BUSINESS',
@@ -149,6 +171,24 @@ export class LanUsageEntity implements Omit<LanUsage, 'bytes'> {
   })
   usagePercentage?: number;
 
+  @ApiProperty({
+    description: 'Calculated usage between snapshots in bytes',
+    required: false,
+  })
+  calculatedUsage?: number;
+
+  @ApiProperty({
+    description: 'Calculated download (RX) usage between snapshots in bytes',
+    required: false,
+  })
+  calculatedRxUsage?: number;
+
+  @ApiProperty({
+    description: 'Calculated upload (TX) usage between snapshots in bytes',
+    required: false,
+  })
+  calculatedTxUsage?: number;
+
   /**
    * Format bytes to human-readable string
    */
@@ -6,14 +6,16 @@ import {
   ParseDatePipe,
   UsePipes,
   ValidationPipe,
-  Post,
 } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags, ApiQuery } from '@nestjs/swagger';
 import { LanUsageEntity } from './entities/lan-usage.entity';
 import { LanUsageService, LanWithUsage } from './lan-usage.service';
 import { LanUsageQueryDto, LanWithUsageDto, LanWithUsageQueryDto } from './dto';
+import { Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
 
 @ApiTags('lan-usage')
+@Roles(...STAFF_ROLES)
 @Controller('lan-usage')
 export class LanUsageController {
   private readonly logger = new Logger(LanUsageController.name);
@@ -68,23 +70,4 @@ export class LanUsageController {
       endDate: endDate ? new Date(endDate) : undefined,
     }) as Promise<LanWithUsageDto[]>;
   }
-
-  @Post('restart-polling')
-  @ApiResponse({
-    status: 200,
-    description: 'Restart Snake Ways polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
-  })
-  @ApiOperation({
-    summary: 'Restart Snake Ways polling if it has stopped',
-  })
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return await this.lanUsageService.restartPolling();
-  }
 }
@@ -21,6 +21,10 @@ export interface LanWithUsage {
   usageData: LanUsageEntity[];
   totalBytes: number;
   formattedTotalBytes: string;
+  totalRxBytes: number;
+  formattedTotalRxBytes: string;
+  totalTxBytes: number;
+  formattedTotalTxBytes: string;
 }
 
 @Injectable()
@@ -115,37 +119,23 @@ export class LanUsageService {
           const lastRecord = lanRecords[lanRecords.length - 1];
 
           // Calculate total usage by processing all records chronologically
-          let accumulatedUsage = 0;
-
-          // Process records in chronological order to track changes
-          for (let i = 1; i < lanRecords.length; i++) {
-            const prevRecord = lanRecords[i - 1];
-            const currentRecord = lanRecords[i];
-
-            // Calculate period usage (what happened between prev and current record)
-            const prevBytes =
-              typeof prevRecord.bytes === 'bigint'
-                ? prevRecord.bytes
-                : BigInt(prevRecord.bytes || 0);
-            const currentBytes =
-              typeof currentRecord.bytes === 'bigint'
-                ? currentRecord.bytes
-                : BigInt(currentRecord.bytes || 0);
-
-            // Usage = current - prev (since bytes accumulate over time)
-            const periodUsageBigInt = currentBytes - prevBytes;
-            const periodUsage = Number(periodUsageBigInt);
-
-            // Only accumulate positive values (actual usage)
-            if (periodUsage > 0) {
-              accumulatedUsage += periodUsage;
-            }
-          }
+          const accumulatedUsage = this.calculateAccumulatedUsage(
+            lanRecords,
+            'bytes',
+          );
 
           // Add the last record with calculated usage info
           enhancedRecords.push({
             ...lastRecord,
             calculatedUsage: accumulatedUsage,
+            calculatedRxUsage: this.calculateAccumulatedUsage(
+              lanRecords,
+              'rxBytes',
+            ),
+            calculatedTxUsage: this.calculateAccumulatedUsage(
+              lanRecords,
+              'txBytes',
+            ),
             formattedUsage: this.formatBytes(accumulatedUsage),
           });
         } else if (lanRecords.length === 1) {
@@ -154,12 +144,16 @@ export class LanUsageService {
           enhancedRecords.push({
             ...record,
             calculatedUsage: 0,
+            calculatedRxUsage: 0,
+            calculatedTxUsage: 0,
             formattedUsage: '0 Bytes',
           });
         } else {
           enhancedRecords.push({
             ...lanRecords[0],
             calculatedUsage: 0,
+            calculatedRxUsage: 0,
+            calculatedTxUsage: 0,
             formattedUsage: '0 Bytes',
           });
         }
@@ -266,9 +260,11 @@ export class LanUsageService {
           },
         });
 
-        // Calculate usage bytes: last record - first record
+        // Calculate usage bytes by accumulating the differences between snapshots
         let totalBytes = 0;
-        let enhancedUsageRecords: any[] = [];
+        let totalRxBytes = 0;
+        let totalTxBytes = 0;
+        const enhancedUsageRecords: any[] = [];
 
         if (usageRecords.length >= 2) {
           // Sort records chronologically to ensure proper order
@@ -280,40 +276,22 @@ export class LanUsageService {
 
           const lastRecord = usageRecords[usageRecords.length - 1];
 
-          // Calculate total usage by processing all records chronologically
-          let accumulatedUsage = 0;
-
-          // Process records in chronological order to track changes
-          for (let i = 1; i < usageRecords.length; i++) {
-            const prevRecord = usageRecords[i - 1];
-            const currentRecord = usageRecords[i];
-
-            // Calculate period usage (what happened between prev and current record)
-            const prevBytes =
-              typeof prevRecord.bytes === 'bigint'
-                ? prevRecord.bytes
-                : BigInt(prevRecord.bytes || 0);
-            const currentBytes =
-              typeof currentRecord.bytes === 'bigint'
-                ? currentRecord.bytes
-                : BigInt(currentRecord.bytes || 0);
-
-            // Usage = current - prev (since bytes accumulate over time)
-            const periodUsageBigInt = currentBytes - prevBytes;
-            const periodUsage = Number(periodUsageBigInt);
-
-            // Only accumulate positive values (actual usage)
-            if (periodUsage > 0) {
-              accumulatedUsage += periodUsage;
-            }
-          }
-
-          totalBytes = accumulatedUsage;
+          totalBytes = this.calculateAccumulatedUsage(usageRecords, 'bytes');
+          totalRxBytes = this.calculateAccumulatedUsage(
+            usageRecords,
+            'rxBytes',
+          );
+          totalTxBytes = this.calculateAccumulatedUsage(
+            usageRecords,
+            'txBytes',
+          );
 
           // Add enhanced record with calculated total usage
           enhancedUsageRecords.push({
             ...lastRecord,
             calculatedUsage: totalBytes,
+            calculatedRxUsage: totalRxBytes,
+            calculatedTxUsage: totalTxBytes,
             formattedUsage: this.formatBytes(totalBytes),
           });
         } else if (usageRecords.length === 1) {
@@ -322,11 +300,10 @@ export class LanUsageService {
           enhancedUsageRecords.push({
             ...record,
             calculatedUsage: 0,
+            calculatedRxUsage: 0,
+            calculatedTxUsage: 0,
             formattedUsage: '0 Bytes',
           });
-          totalBytes = 0;
-        } else {
-          totalBytes = 0;
         }
 
         // Transform to LanUsageEntity objects
@@ -376,6 +353,10 @@ export class LanUsageService {
           usageData: usageEntities,
           totalBytes: totalBytes,
           formattedTotalBytes: this.formatBytes(totalBytes),
+          totalRxBytes,
+          formattedTotalRxBytes: this.formatBytes(totalRxBytes),
+          totalTxBytes,
+          formattedTotalTxBytes: this.formatBytes(totalTxBytes),
         });
       }
 
@@ -388,54 +369,31 @@ export class LanUsageService {
   }
 
   /**
-   * Attempt to restart Snake Ways polling if it has stopped
-   * @returns Object indicating if polling was restarted and a status message
+   * Accumulate the positive differences of a cumulative byte counter over
+   * chronologically sorted snapshots
+   * @param records Snapshots sorted by snapshotDate
+   * @param field Counter to accumulate
+   * @returns Total bytes used across the snapshots
    */
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    try {
-      this.logger.log(
-        chalk.cyan(
-          'Attempting to restart Snake Ways LAN Usage service polling',
-        ),
+  private calculateAccumulatedUsage(
+    records: { bytes: bigint; rxBytes: bigint; txBytes: bigint }[],
+    field: 'bytes' | 'rxBytes' | 'txBytes',
+  ): number {
+    let accumulatedUsage = 0;
+
+    for (let i = 1; i < records.length; i++) {
+      // Usage = current - prev (since bytes accumulate over time)
+      const periodUsage = Number(
+        BigInt(records[i][field] || 0) - BigInt(records[i - 1][field] || 0),
       );
 
-      const wasRestarted =
-        await this.snakeWaysLanUsageService.restartPollingIfStopped();
-
-      if (wasRestarted) {
-        this.logger.log(
-          chalk.green.bold(
-            'Snake Ways LAN Usage service polling restarted successfully',
-          ),
-        );
-        return {
-          restarted: true,
-          message: 'Polling restarted successfully',
-        };
-      } else {
-        this.logger.log(
-          chalk.yellow(
-            'Snake Ways LAN Usage service polling was already active, no restart needed',
-          ),
-        );
-        return {
-          restarted: false,
-          message:
-            'LAN Usage service polling was already active, no restart needed',
-        };
+      // Only accumulate positive values (actual usage)
+      if (periodUsage > 0) {
+        accumulatedUsage += periodUsage;
       }
-    } catch (error) {
-      this.logger.error(
-        chalk.red.bold(
-          'Failed to restart Snake Ways LAN Usage service polling',
-        ),
-        error,
-      );
-      return {
-        restarted: false,
-        message: `Failed to restart LAN Usage service polling: ${error.message}`,
-      };
     }
+
+    return accumulatedUsage;
   }
 
   /**
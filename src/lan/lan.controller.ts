@@ -2,8 +2,11 @@ import { Controller, Get, Param, Post } from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { LanService } from './lan.service';
 import { LanEntity } from './entities';
+import { Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
 
 @ApiTags('LANS')
+@Roles(...STAFF_ROLES)
 @Controller('lans')
 export class LanController {
   constructor(private readonly lanService: LanService) {}
@@ -89,23 +92,4 @@ export class LanController {
       throw error;
     }
   }
-
-  @Post('restart-polling')
-  @ApiResponse({
-    status: 200,
-    description: 'Restart Snake Ways polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
-  })
-  @ApiOperation({
-    summary: 'Restart Snake Ways polling if it has stopped due to failures',
-  })
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return await this.lanService.restartPolling();
-  }
 }
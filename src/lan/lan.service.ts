@@ -123,49 +123,4 @@ export class LanService implements OnModuleInit, OnModuleDestroy {
       throw error;
     }
   }
-
-  /**
-   * Attempt to restart Snake Ways polling if it has stopped
-   * @returns Object indicating if polling was restarted and a status message
-   */
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    try {
-      this.logger.log(
-        chalk.cyan('Attempting to restart Snake Ways LAN service polling'),
-      );
-
-      const wasRestarted = await this.swLanService.restartPollingIfStopped();
-
-      if (wasRestarted) {
-        this.logger.log(
-          chalk.green.bold(
-            'Snake Ways LAN service polling restarted successfully',
-          ),
-        );
-        return {
-          restarted: true,
-          message: 'Polling restarted successfully',
-        };
-      } else {
-        this.logger.log(
-          chalk.yellow(
-            'Snake Ways LAN service polling was already active, no restart needed',
-          ),
-        );
-        return {
-          restarted: false,
-          message: 'LAN service polling was already active, no restart needed',
-        };
-      }
-    } catch (error) {
-      this.logger.error(
-        chalk.red.bold('Failed to restart Snake Ways LAN service polling'),
-        error,
-      );
-      return {
-        restarted: false,
-        message: `Failed to restart LAN service polling: ${error.message}`,
-      };
-    }
-  }
 }
@@ -0,0 +1 @@
+export * from './live-stream-query.dto';
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsEnum, IsOptional } from 'class-validator';
+import { LiveChannel } from '../interfaces';
+
+export class LiveStreamQueryDto {
+  @ApiProperty({
+    description:
+      'Comma-separated channels to follow, defaults to every channel allowed for the user',
+    required: false,
+    example: 'route,wan',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  @IsEnum(LiveChannel, { each: true })
+  channels?: LiveChannel[];
+}
@@ -0,0 +1,2 @@
+export * from './live-event.interface';
+export * from './live-state.interface';
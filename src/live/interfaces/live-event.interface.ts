@@ -0,0 +1,14 @@
+export enum LiveChannel {
+  ROUTE = 'route',
+  WAN = 'wan',
+  INTERFACE = 'interface',
+  CREDIT = 'credit',
+}
+
+export interface LiveEvent<T = unknown> {
+  channel: LiveChannel;
+  data: T;
+  // Set on per-user events, only staff and that user receive them
+  userId?: string;
+  at: Date;
+}
@@ -0,0 +1,31 @@
+import { InterfaceType, UsageLimitStatus, WanStatus } from '@prisma/client';
+
+// Payloads pushed on the live channels. Byte counts are plain numbers since
+// BigInt doesn't serialise to JSON.
+
+export interface WanLiveState {
+  id: string;
+  wanName: string;
+  wanStatus: WanStatus;
+  switchPriority: number | null;
+  usageInBytes: number;
+  maxUsageInBytes: number;
+  usageLimitStatus: UsageLimitStatus;
+}
+
+export interface InterfaceLiveState {
+  interfaceId: string;
+  name: string;
+  // 0 when the interface is down, its speed otherwise
+  status: number;
+  type: InterfaceType;
+  port: number;
+  vlanId: number;
+}
+
+export interface CreditLiveState {
+  userId: string;
+  dataCredit: number;
+  timeCredit: number;
+  usageQuota: number;
+}
@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { LiveEventsService } from './live-events.service';
+
+// Global so the Snake Ways pollers can publish without importing the live stream
+@Global()
+@Module({
+  providers: [LiveEventsService],
+  exports: [LiveEventsService],
+})
+export class LiveEventsModule {}
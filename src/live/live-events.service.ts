@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { LiveChannel, LiveEvent } from './interfaces';
+
+/**
+ * In-process bus for live network state. Pollers publish what they synced and
+ * the live stream pushes it to connected clients.
+ */
+@Injectable()
+export class LiveEventsService {
+  private readonly events$ = new Subject<LiveEvent>();
+
+  // Last payload per key, to skip publishing state that didn't change
+  private readonly lastPublished = new Map<string, string>();
+
+  /**
+   * Publish fresh state
+   * @param channel Channel the state belongs to
+   * @param data JSON-serialisable payload
+   * @param options userId for per-user events, key to only publish when the
+   * payload differs from the last one published under that key
+   */
+  publish<T>(
+    channel: LiveChannel,
+    data: T,
+    options: { userId?: string; key?: string } = {},
+  ): void {
+    if (options.key) {
+      const serialized = JSON.stringify(data);
+      if (this.lastPublished.get(options.key) === serialized) return;
+      this.lastPublished.set(options.key, serialized);
+    }
+
+    this.events$.next({
+      channel,
+      data,
+      userId: options.userId,
+      at: new Date(),
+    });
+  }
+
+  /**
+   * Events published from now on
+   */
+  stream(): Observable<LiveEvent> {
+    return this.events$.asObservable();
+  }
+}
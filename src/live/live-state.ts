@@ -0,0 +1,36 @@
+import { NetworkInterface, User, Wan } from '@prisma/client';
+import {
+  CreditLiveState,
+  InterfaceLiveState,
+  WanLiveState,
+} from './interfaces';
+
+export const toWanLiveState = (wan: Wan): WanLiveState => ({
+  id: wan.id,
+  wanName: wan.wanName,
+  wanStatus: wan.wanStatus,
+  switchPriority: wan.switchPriority,
+  usageInBytes: Number(wan.usageInBytes),
+  maxUsageInBytes: Number(wan.maxUsageInBytes || 0),
+  usageLimitStatus: wan.usageLimitStatus,
+});
+
+export const toInterfaceLiveState = (
+  networkInterface: NetworkInterface,
+): InterfaceLiveState => ({
+  interfaceId: networkInterface.interfaceId,
+  name: networkInterface.name,
+  status: networkInterface.status,
+  type: networkInterface.type,
+  port: networkInterface.port,
+  vlanId: networkInterface.vlanId,
+});
+
+export const toCreditLiveState = (
+  user: Pick<User, 'id' | 'dataCredit' | 'timeCredit' | 'usageQuota'>,
+): CreditLiveState => ({
+  userId: user.id,
+  dataCredit: Number(user.dataCredit),
+  timeCredit: Number(user.timeCredit),
+  usageQuota: Number(user.usageQuota),
+});
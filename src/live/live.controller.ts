@@ -0,0 +1,43 @@
+import { Controller, MessageEvent, Query, Sse } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { GetCurrentUser, Roles } from 'src/auth/decorators';
+import { ALL_ROLES } from 'src/auth/constants';
+import { UserEntity } from 'src/user/entities';
+import { LiveStreamQueryDto } from './dto';
+import { LiveChannel } from './interfaces';
+import { LiveService, LiveSubscriber } from './live.service';
+
+@ApiTags('Live')
+@Roles(...ALL_ROLES)
+@Controller('live')
+export class LiveController {
+  constructor(private readonly liveService: LiveService) {}
+
+  @Sse('stream')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Server-Sent Events stream. Each event type is a channel (route, wan, interface, credit) with { data, at }, plus a periodic ping',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'A requested channel is not allowed for the user',
+  })
+  @ApiOperation({
+    summary: 'Stream live route, WAN, interface and credit state',
+    description:
+      'Sends the current state of each channel on connect, then every change. EventSource clients can pass the access token as ?access_token=. The stream ends when the token expires or its session is revoked.',
+  })
+  streamLiveState(
+    @GetCurrentUser() user: UserEntity & LiveSubscriber,
+    @Query() query: LiveStreamQueryDto,
+  ): Observable<MessageEvent> {
+    // The validation pipe hands back the raw comma-separated string
+    const channels = query.channels
+      ? (String(query.channels).split(',').filter(Boolean) as LiveChannel[])
+      : undefined;
+
+    return this.liveService.stream(user, channels);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from 'src/auth/auth.module';
+import { SnakeWaysBaseModule } from '../snake-ways/snake-ways-base.module';
+import { LiveController } from './live.controller';
+import { LiveService } from './live.service';
+
+@Module({
+  imports: [AuthModule, SnakeWaysBaseModule],
+  controllers: [LiveController],
+  providers: [LiveService],
+})
+export class LiveModule {}
@@ -0,0 +1,216 @@
+import { ForbiddenException, Injectable, MessageEvent } from '@nestjs/common';
+import { UserAccessLevel } from '@prisma/client';
+import {
+  EMPTY,
+  Observable,
+  catchError,
+  concatMap,
+  defer,
+  distinctUntilChanged,
+  filter,
+  from,
+  interval,
+  map,
+  merge,
+  mergeMap,
+  share,
+  shareReplay,
+  takeUntil,
+  timer,
+} from 'rxjs';
+import { STAFF_ROLES } from 'src/auth/constants';
+import { SessionService } from 'src/auth/session.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SystemRouteResponse } from 'src/snake-ways/wan/dto';
+import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
+import { LiveChannel, LiveEvent } from './interfaces';
+import { LiveEventsService } from './live-events.service';
+import {
+  toCreditLiveState,
+  toInterfaceLiveState,
+  toWanLiveState,
+} from './live-state';
+
+// Keeps idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+export interface LiveSubscriber {
+  id: string;
+  accessLevel: UserAccessLevel;
+  // Session and expiry of the access token the stream was opened with
+  sessionId?: string;
+  tokenExpiresAt?: Date;
+}
+
+@Injectable()
+export class LiveService {
+  // Shared by every subscriber, replays the latest route to new ones
+  private readonly route$: Observable<LiveEvent<SystemRouteResponse>>;
+
+  constructor(
+    private prisma: PrismaService,
+    private liveEvents: LiveEventsService,
+    private swWanService: SnakeWaysWanService,
+    private session: SessionService,
+  ) {
+    // The cached route to start with, then every route the route poller or a
+    // route change publishes
+    this.route$ = merge(
+      defer(() => this.swWanService.getCachedSystemRoute()).pipe(
+        filter((route) => route !== null),
+        map(({ wanId, status, routeType }) => ({ wanId, status, routeType })),
+        catchError(() => EMPTY),
+      ),
+      this.liveEvents.stream().pipe(
+        filter((event) => event.channel === LiveChannel.ROUTE),
+        map((event) => event.data as SystemRouteResponse),
+      ),
+    ).pipe(
+      distinctUntilChanged(
+        (previous, current) =>
+          JSON.stringify(previous) === JSON.stringify(current),
+      ),
+      map((route) => ({
+        channel: LiveChannel.ROUTE,
+        data: route,
+        at: new Date(),
+      })),
+      shareReplay({ bufferSize: 1, refCount: true }),
+    );
+  }
+
+  /**
+   * Live state for a subscriber: the current state of each channel, then
+   * every change. Staff can follow every channel; other users only their
+   * own credit. The stream ends when the access token expires or its session
+   * is found revoked on a heartbeat, so the client has to reconnect with a
+   * valid token.
+   * @param subscriber The signed-in user
+   * @param channels Channels to follow, defaults to every allowed channel
+   * @throws ForbiddenException if a channel is not allowed for the user
+   */
+  stream(
+    subscriber: LiveSubscriber,
+    channels?: LiveChannel[],
+  ): Observable<MessageEvent> {
+    const isStaff = STAFF_ROLES.includes(subscriber.accessLevel);
+    const allowed = isStaff ? Object.values(LiveChannel) : [LiveChannel.CREDIT];
+    const selected = channels?.length ? channels : allowed;
+
+    const forbidden = selected.filter((channel) => !allowed.includes(channel));
+    if (forbidden.length) {
+      throw new ForbiddenException(
+        `Not allowed to follow ${forbidden.join(', ')}`,
+      );
+    }
+
+    const updates$ = this.liveEvents
+      .stream()
+      .pipe(
+        filter(
+          (event) =>
+            event.channel !== LiveChannel.ROUTE &&
+            selected.includes(event.channel) &&
+            (isStaff || event.userId === subscriber.id),
+        ),
+      );
+
+    const snapshot$ = from(
+      this.getSnapshot(selected, isStaff ? null : subscriber.id),
+    ).pipe(mergeMap((events) => from(events)));
+
+    const route$ = selected.includes(LiveChannel.ROUTE) ? this.route$ : EMPTY;
+
+    // Each heartbeat checks the session is still active
+    const heartbeat$ = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      concatMap(() => this.isSessionActive(subscriber)),
+      share(),
+    );
+
+    const ended$ = merge(
+      heartbeat$.pipe(filter((active) => !active)),
+      subscriber.tokenExpiresAt ? timer(subscriber.tokenExpiresAt) : EMPTY,
+    );
+
+    return merge(
+      merge(snapshot$, route$, updates$).pipe(
+        map(
+          (event): MessageEvent => ({
+            type: event.channel,
+            data: { data: event.data, at: event.at },
+          }),
+        ),
+      ),
+      heartbeat$.pipe(
+        filter(Boolean),
+        map((): MessageEvent => ({ type: 'ping', data: { at: new Date() } })),
+      ),
+    ).pipe(takeUntil(ended$));
+  }
+
+  /**
+   * Whether the subscriber's session is still active, true for tokens
+   * without a session
+   */
+  private async isSessionActive(subscriber: LiveSubscriber): Promise<boolean> {
+    if (!subscriber.sessionId) return true;
+
+    return this.session.isActive(subscriber.sessionId);
+  }
+
+  /**
+   * Current state of the stored channels, sent when a client connects
+   * @param userId Only include this user's credit, null for every user
+   */
+  private async getSnapshot(
+    channels: LiveChannel[],
+    userId: string | null,
+  ): Promise<LiveEvent[]> {
+    const at = new Date();
+    const events: LiveEvent[] = [];
+
+    if (channels.includes(LiveChannel.WAN)) {
+      const wans = await this.prisma.wan.findMany({
+        orderBy: { wanName: 'asc' },
+      });
+      events.push({
+        channel: LiveChannel.WAN,
+        data: wans.map(toWanLiveState),
+        at,
+      });
+    }
+
+    if (channels.includes(LiveChannel.INTERFACE)) {
+      const interfaces = await this.prisma.networkInterface.findMany({
+        orderBy: { name: 'asc' },
+      });
+      events.push({
+        channel: LiveChannel.INTERFACE,
+        data: interfaces.map(toInterfaceLiveState),
+        at,
+      });
+    }
+
+    if (channels.includes(LiveChannel.CREDIT)) {
+      const users = await this.prisma.user.findMany({
+        where: userId ? { id: userId } : undefined,
+        select: {
+          id: true,
+          dataCredit: true,
+          timeCredit: true,
+          usageQuota: true,
+        },
+      });
+      for (const user of users) {
+        events.push({
+          channel: LiveChannel.CREDIT,
+          data: toCreditLiveState(user),
+          userId: user.id,
+          at,
+        });
+      }
+    }
+
+    return events;
+  }
+}
@@ -33,6 +33,7 @@ async function bootstrap() {
     .setDescription('API for Canopus')
     .setVersion('1.0')
     .addBearerAuth()
+    .addSecurityRequirements('bearer')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,17 @@
+export interface Notification {
+  // Recipient, usually an email address
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers notifications. Implement this to add a transport (e.g. SMTP) and
+ * return it from the NOTIFICATION_TRANSPORT factory in NotifierModule.
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export const NOTIFICATION_TRANSPORT = 'NOTIFICATION_TRANSPORT';
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NOTIFICATION_TRANSPORT, NotificationTransport } from './interfaces';
+import { NotifierService } from './notifier.service';
+import { ConsoleTransport, FileTransport, SmtpTransport } from './transports';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: NOTIFICATION_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): NotificationTransport => {
+        switch (config.get('NOTIFIER_TRANSPORT')) {
+          case 'file':
+            return new FileTransport(
+              config.get('NOTIFIER_FILE_PATH') || 'notifications/outbox.log',
+            );
+          case 'smtp':
+            return new SmtpTransport({
+              host: config.get('SMTP_HOST') || 'localhost',
+              port: Number(config.get('SMTP_PORT')) || 25,
+              secure: config.get('SMTP_SECURE') === 'true',
+              requireTls: config.get('SMTP_REQUIRE_TLS') !== 'false',
+              user: config.get('SMTP_USER'),
+              password: config.get('SMTP_PASSWORD'),
+              from: config.get('SMTP_FROM') || 'canopus@localhost',
+            });
+          default:
+            return new ConsoleTransport();
+        }
+      },
+    },
+    NotifierService,
+  ],
+  exports: [NotifierService],
+})
+export class NotifierModule {}
@@ -0,0 +1,35 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  NOTIFICATION_TRANSPORT,
+  Notification,
+  NotificationTransport,
+} from './interfaces';
+const chalk = require('chalk');
+
+@Injectable()
+export class NotifierService {
+  private readonly logger = new Logger(NotifierService.name);
+
+  constructor(
+    @Inject(NOTIFICATION_TRANSPORT)
+    private readonly transport: NotificationTransport,
+  ) {}
+
+  /**
+   * Send a notification through the configured transport
+   * @param notification Recipient, subject and text
+   */
+  async send(notification: Notification): Promise<void> {
+    try {
+      await this.transport.send(notification);
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `Failed to send notification to ${notification.to} via ${this.transport.name}`,
+        ),
+        error,
+      );
+      throw new Error(`Failed to send notification: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Logger } from '@nestjs/common';
+import { Notification, NotificationTransport } from '../interfaces';
+const chalk = require('chalk');
+
+/**
+ * Writes notifications to the application log, for ships without mail access
+ */
+export class ConsoleTransport implements NotificationTransport {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleTransport.name);
+
+  async send(notification: Notification): Promise<void> {
+    this.logger.log(
+      chalk.cyan(
+        `Notification to ${notification.to}: ${notification.subject}\n${notification.text}`,
+      ),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Notification, NotificationTransport } from '../interfaces';
+
+/**
+ * Appends notifications as JSON lines to a file, so officers can hand them
+ * out when the ship has no mail access
+ */
+export class FileTransport implements NotificationTransport {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(
+      this.filePath,
+      JSON.stringify({ sentAt: new Date().toISOString(), ...notification }) +
+        '\n',
+    );
+  }
+}
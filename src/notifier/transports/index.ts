@@ -0,0 +1,3 @@
+export * from './console.transport';
+export * from './file.transport';
+export * from './smtp.transport';
@@ -0,0 +1,48 @@
+import { Transporter, createTransport } from 'nodemailer';
+import { Notification, NotificationTransport } from '../interfaces';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect over TLS right away (port 465), otherwise upgrade with STARTTLS
+  secure: boolean;
+  // Refuse to send, and so to authenticate, without STARTTLS
+  requireTls: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+/**
+ * Hands plain-text mail to the ship's relay
+ */
+export class SmtpTransport implements NotificationTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      requireTLS: !options.secure && options.requireTls,
+      auth: options.user
+        ? { user: options.user, pass: options.password || '' }
+        : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: notification.to,
+      subject: notification.subject,
+      text: notification.text,
+    });
+  }
+}
@@ -0,0 +1,10 @@
+// Same targets the Snake Ways route API accepts
+export const ROUTE_TARGET_PATTERN = /^([A-Fa-f0-9]{32}|AUTO|OFF)$/;
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export enum RouteSource {
+  OVERRIDE = 'OVERRIDE',
+  POLICY = 'POLICY',
+  NONE = 'NONE',
+}
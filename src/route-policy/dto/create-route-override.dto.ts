@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ROUTE_TARGET_PATTERN } from '../constants';
+
+export class CreateRouteOverrideDto {
+  @ApiProperty({
+    description:
+      'ID of WAN to route to until the override expires (32 byte hex string), "AUTO" for automatic routing, or "OFF" to disable all WAN interfaces',
+    example: 'FCF623211656E1EDA56E193DE7CF5745',
+  })
+  @IsString()
+  @Matches(ROUTE_TARGET_PATTERN, {
+    message: 'target must be a 32-character hex string, "AUTO", or "OFF"',
+  })
+  target: string;
+
+  @ApiProperty({
+    description: 'How long the override lasts, in minutes',
+    required: false,
+    example: 120,
+  })
+  @ValidateIf((dto: CreateRouteOverrideDto) => !dto.expiresAt)
+  @IsInt()
+  @Min(1)
+  @Max(7 * 24 * 60)
+  durationMinutes?: number;
+
+  @ApiProperty({
+    description: 'When the override expires, instead of durationMinutes',
+    required: false,
+    example: '2025-07-21T18:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiProperty({
+    description: 'Why the route is overridden',
+    required: false,
+    example: 'Port call, shore link available',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
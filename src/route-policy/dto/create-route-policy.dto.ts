@@ -0,0 +1,103 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ROUTE_TARGET_PATTERN, TIME_OF_DAY_PATTERN } from '../constants';
+
+export class CreateRoutePolicyDto {
+  @ApiProperty({
+    description: 'Name of the policy',
+    example: 'Night shift on Starlink',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description:
+      'ID of WAN to route to while the policy is active (32 byte hex string), "AUTO" for automatic routing, or "OFF" to disable all WAN interfaces',
+    example: 'FCF623211656E1EDA56E193DE7CF5745',
+  })
+  @IsString()
+  @Matches(ROUTE_TARGET_PATTERN, {
+    message: 'target must be a 32-character hex string, "AUTO", or "OFF"',
+  })
+  target: string;
+
+  @ApiProperty({
+    description:
+      'Days of the week the policy starts on, 0 (Sunday) to 6 (Saturday). Leave empty for every day',
+    required: false,
+    type: [Number],
+    example: [1, 2, 3, 4, 5],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiProperty({
+    description: 'Start of the window (HH:mm, site time)',
+    example: '22:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'startTime must be HH:mm' })
+  startTime: string;
+
+  @ApiProperty({
+    description:
+      'End of the window (HH:mm, site time). A time before startTime ends the window on the next day',
+    example: '06:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'endTime must be HH:mm' })
+  endTime: string;
+
+  @ApiProperty({
+    description: 'Higher priority policies win when windows overlap',
+    required: false,
+    default: 0,
+    example: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiProperty({
+    description: 'Whether the policy is applied',
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({
+    description: 'Date the policy starts applying from',
+    required: false,
+    example: '2025-07-21T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiProperty({
+    description: 'Date the policy stops applying',
+    required: false,
+    example: '2025-09-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+}
@@ -0,0 +1,4 @@
+export * from './create-route-policy.dto';
+export * from './update-route-policy.dto';
+export * from './create-route-override.dto';
+export * from './route-preview.dto';
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { RouteSource } from '../constants';
+
+export class RoutePreviewQueryDto {
+  @ApiProperty({
+    description: 'Number of days to preview',
+    required: false,
+    default: 7,
+    example: 7,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  days?: number;
+}
+
+/**
+ * Route the scheduler would apply at a given time
+ */
+export class ResolvedRouteDto {
+  @ApiProperty({
+    description:
+      'Route target, WAN ID, "AUTO" or "OFF". Null when nothing is scheduled and the route is left alone',
+    nullable: true,
+    example: 'FCF623211656E1EDA56E193DE7CF5745',
+  })
+  target: string | null;
+
+  @ApiProperty({
+    enum: RouteSource,
+    description: 'What decided the route',
+    example: RouteSource.POLICY,
+  })
+  source: RouteSource;
+
+  @ApiProperty({
+    description: 'ID of the policy or override that decided the route',
+    nullable: true,
+    example: 'clj5abcde12345',
+  })
+  sourceId: string | null;
+
+  @ApiProperty({
+    description: 'Name of the policy that decided the route',
+    nullable: true,
+    example: 'Night shift on Starlink',
+  })
+  sourceName: string | null;
+}
+
+/**
+ * Period in which the same route would be applied
+ */
+export class RoutePreviewSegmentDto extends ResolvedRouteDto {
+  @ApiProperty({
+    description: 'Start of the period',
+    example: '2025-07-21T22:00:00Z',
+  })
+  from: Date;
+
+  @ApiProperty({
+    description: 'End of the period',
+    example: '2025-07-22T06:00:00Z',
+  })
+  to: Date;
+}
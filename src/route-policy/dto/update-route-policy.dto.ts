@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRoutePolicyDto } from './create-route-policy.dto';
+
+export class UpdateRoutePolicyDto extends PartialType(CreateRoutePolicyDto) {}
@@ -0,0 +1,2 @@
+export * from './route-policy.entity';
+export * from './route-override.entity';
@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RouteOverride } from '@prisma/client';
+
+export class RouteOverrideEntity implements RouteOverride {
+  constructor(partial: Partial<RouteOverride>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the override',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'WAN ID, "AUTO" or "OFF" to route to until it expires',
+    example: 'FCF623211656E1EDA56E193DE7CF5745',
+  })
+  target: string;
+
+  @ApiProperty({
+    description: 'Why the route is overridden',
+    nullable: true,
+    example: 'Port call, shore link available',
+  })
+  reason: string | null;
+
+  @ApiProperty({
+    description: 'When the override took effect',
+    example: '2025-07-21T14:00:00Z',
+  })
+  startsAt: Date;
+
+  @ApiProperty({
+    description: 'When the override expires',
+    example: '2025-07-21T18:00:00Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the override was cancelled before expiring',
+    nullable: true,
+  })
+  cancelledAt: Date | null;
+
+  @ApiProperty({
+    description: 'User who created the override',
+    nullable: true,
+    example: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4',
+  })
+  createdById: string | null;
+
+  @ApiProperty({
+    description: 'When the override was created',
+    example: '2025-07-21T14:00:00Z',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RoutePolicy } from '@prisma/client';
+
+export class RoutePolicyEntity implements RoutePolicy {
+  constructor(partial: Partial<RoutePolicy>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the policy',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Name of the policy',
+    example: 'Night shift on Starlink',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'WAN ID, "AUTO" or "OFF" to route to while active',
+    example: 'FCF623211656E1EDA56E193DE7CF5745',
+  })
+  target: string;
+
+  @ApiProperty({
+    description: 'Days of the week the policy starts on, empty for every day',
+    type: [Number],
+    example: [1, 2, 3, 4, 5],
+  })
+  daysOfWeek: number[];
+
+  @ApiProperty({
+    description: 'Start of the window (HH:mm, site time)',
+    example: '22:00',
+  })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'End of the window (HH:mm, site time)',
+    example: '06:00',
+  })
+  endTime: string;
+
+  @ApiProperty({
+    description: 'Higher priority policies win when windows overlap',
+    example: 10,
+  })
+  priority: number;
+
+  @ApiProperty({ description: 'Whether the policy is applied', example: true })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Date the policy starts applying from',
+    nullable: true,
+    example: '2025-07-21T00:00:00Z',
+  })
+  validFrom: Date | null;
+
+  @ApiProperty({
+    description: 'Date the policy stops applying',
+    nullable: true,
+    example: '2025-09-01T00:00:00Z',
+  })
+  validUntil: Date | null;
+
+  @ApiProperty({
+    description: 'User who created the policy',
+    nullable: true,
+    example: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4',
+  })
+  createdById: string | null;
+
+  @ApiProperty({
+    description: 'When the policy was created',
+    example: '2023-05-15T10:30:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the policy was last updated',
+    example: '2023-05-15T10:30:00Z',
+  })
+  updatedAt: Date;
+}
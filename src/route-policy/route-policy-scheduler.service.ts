@@ -0,0 +1,124 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { RouteChangeSource } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RouteType } from 'src/snake-ways/wan/dto';
+import { WanService } from 'src/wan/wan.service';
+import { RouteSource } from './constants';
+import { ResolvedRouteDto } from './dto';
+import { RoutePolicyService } from './route-policy.service';
+const chalk = require('chalk');
+
+const STATE_ID = 'current';
+
+/**
+ * Applies the scheduled route every minute. The route is only changed in
+ * Snake Ways when the scheduled target changes, so a manual force-switch
+ * holds until the next policy boundary. The applied target is stored so the
+ * route is still handed back to AUTO after a restart. While a WAN failover is
+ * open the route is left to it, the scheduled target becomes the route it
+ * restores once the WAN recovers.
+ */
+@Injectable()
+export class RoutePolicySchedulerService {
+  private readonly logger = new Logger(RoutePolicySchedulerService.name);
+
+  // Target last applied by the scheduler, null when it isn't forcing the
+  // route, undefined until loaded from the database
+  private appliedTarget: string | null | undefined;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private routePolicyService: RoutePolicyService,
+    private wanService: WanService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async applyScheduledRoute(): Promise<void> {
+    // Skip the tick if the previous one is still waiting on Snake Ways
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      if (this.appliedTarget === undefined) {
+        const state = await this.prisma.routePolicyState.findUnique({
+          where: { id: STATE_ID },
+        });
+        this.appliedTarget = state?.appliedTarget ?? null;
+      }
+
+      const resolved = await this.routePolicyService.resolve();
+
+      // Nothing scheduled anymore, hand the route back to automatic routing
+      const target =
+        resolved.source === RouteSource.NONE
+          ? this.appliedTarget && 'AUTO'
+          : resolved.target;
+
+      if (!target || target === this.appliedTarget) return;
+
+      const failover = await this.prisma.wanFailover.findFirst({
+        where: { restoredAt: null },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      if (failover) {
+        await this.prisma.wanFailover.update({
+          where: { id: failover.id },
+          data: { restoreTarget: target },
+        });
+        this.logger.log(
+          chalk.cyan(
+            `Failover from ${failover.fromWanId} in progress, ${resolved.source.toLowerCase()} route ${target} applies once it recovers`,
+          ),
+        );
+      } else {
+        await this.applyTarget(target, resolved);
+      }
+
+      await this.saveAppliedTarget(
+        resolved.source === RouteSource.NONE ? null : target,
+      );
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to apply scheduled route'), error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Change the route unless it is already on the target
+   */
+  private async applyTarget(
+    target: string,
+    resolved: ResolvedRouteDto,
+  ): Promise<void> {
+    const current = await this.wanService.getCurrentSystemRoute();
+    const currentTarget =
+      current.routeType === RouteType.AUTOMATIC
+        ? 'AUTO'
+        : current.routeType === RouteType.SWITCH_FORCED_OFF
+          ? 'OFF'
+          : current.wanId;
+
+    if (currentTarget.toUpperCase() !== target.toUpperCase()) {
+      this.logger.log(
+        chalk.cyan(
+          `Applying ${resolved.source.toLowerCase()} route ${target}` +
+            (resolved.sourceName ? ` (${resolved.sourceName})` : ''),
+        ),
+      );
+      await this.wanService.changeSystemRoute(target, RouteChangeSource.POLICY);
+    }
+  }
+
+  private async saveAppliedTarget(target: string | null): Promise<void> {
+    await this.prisma.routePolicyState.upsert({
+      where: { id: STATE_ID },
+      update: { appliedTarget: target },
+      create: { id: STATE_ID, appliedTarget: target },
+    });
+    this.appliedTarget = target;
+  }
+}
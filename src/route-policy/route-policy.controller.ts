@@ -0,0 +1,171 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit } from 'src/audit/decorators';
+import { GetCurrentUserId, Roles } from 'src/auth/decorators';
+import { ROUTE_CONTROL_ROLES, STAFF_ROLES } from 'src/auth/constants';
+import {
+  CreateRouteOverrideDto,
+  CreateRoutePolicyDto,
+  ResolvedRouteDto,
+  RoutePreviewQueryDto,
+  RoutePreviewSegmentDto,
+  UpdateRoutePolicyDto,
+} from './dto';
+import { RouteOverrideEntity, RoutePolicyEntity } from './entities';
+import { RoutePolicyService } from './route-policy.service';
+
+@ApiTags('Route Policies')
+@Roles(...STAFF_ROLES)
+@Controller('route-policies')
+export class RoutePolicyController {
+  constructor(private readonly routePolicyService: RoutePolicyService) {}
+
+  @Get()
+  @ApiResponse({
+    status: 200,
+    description: 'Returns all route policies, highest priority first',
+    type: [RoutePolicyEntity],
+  })
+  @ApiOperation({ summary: 'Get all scheduled route policies' })
+  async getPolicies(): Promise<RoutePolicyEntity[]> {
+    return await this.routePolicyService.getPolicies();
+  }
+
+  @Get('current')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the route the scheduler applies right now',
+    type: ResolvedRouteDto,
+  })
+  @ApiOperation({ summary: 'Get the currently scheduled route' })
+  async getCurrentRoute(): Promise<ResolvedRouteDto> {
+    return await this.routePolicyService.resolve();
+  }
+
+  @Get('preview')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the periods in which the same route would be applied, starting now',
+    type: [RoutePreviewSegmentDto],
+  })
+  @ApiOperation({ summary: 'Dry run of the route schedule' })
+  async previewSchedule(
+    @Query() query: RoutePreviewQueryDto,
+  ): Promise<RoutePreviewSegmentDto[]> {
+    return await this.routePolicyService.preview(
+      query.days ? Number(query.days) : undefined,
+    );
+  }
+
+  @Get('override')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the override in effect, null if there is none',
+    type: RouteOverrideEntity,
+  })
+  @ApiOperation({ summary: 'Get the route override in effect' })
+  async getOverride(): Promise<RouteOverrideEntity | null> {
+    return await this.routePolicyService.getActiveOverride();
+  }
+
+  @Roles(...ROUTE_CONTROL_ROLES)
+  @Post('override')
+  @ApiResponse({
+    status: 201,
+    description: 'Override created, replacing the one in effect',
+    type: RouteOverrideEntity,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiOperation({
+    summary: 'Force the route to a target until the override expires',
+  })
+  async createOverride(
+    @Body() dto: CreateRouteOverrideDto,
+    @GetCurrentUserId() userId: string,
+  ): Promise<RouteOverrideEntity> {
+    return await this.routePolicyService.createOverride(dto, userId);
+  }
+
+  @Roles(...ROUTE_CONTROL_ROLES)
+  @Delete('override')
+  @ApiResponse({
+    status: 200,
+    description: 'Override cancelled, the policies apply again',
+    type: RouteOverrideEntity,
+  })
+  @ApiResponse({ status: 404, description: 'No override in effect' })
+  @ApiOperation({ summary: 'Cancel the route override in effect' })
+  async cancelOverride(): Promise<RouteOverrideEntity> {
+    return await this.routePolicyService.cancelOverride();
+  }
+
+  @Roles(...ROUTE_CONTROL_ROLES)
+  @Post()
+  @ApiResponse({
+    status: 201,
+    description: 'Route policy created',
+    type: RoutePolicyEntity,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Overlaps a policy of the same priority that routes somewhere else',
+  })
+  @ApiOperation({ summary: 'Create a scheduled route policy' })
+  async createPolicy(
+    @Body() dto: CreateRoutePolicyDto,
+    @GetCurrentUserId() userId: string,
+  ): Promise<RoutePolicyEntity> {
+    return await this.routePolicyService.createPolicy(dto, userId);
+  }
+
+  @Roles(...ROUTE_CONTROL_ROLES)
+  @Audit({ model: 'routePolicy' })
+  @Patch(':id')
+  @ApiResponse({
+    status: 200,
+    description: 'Route policy updated',
+    type: RoutePolicyEntity,
+  })
+  @ApiResponse({ status: 404, description: 'Route policy not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Overlaps a policy of the same priority that routes somewhere else',
+  })
+  @ApiOperation({ summary: 'Update a scheduled route policy' })
+  async updatePolicy(
+    @Param('id') id: string,
+    @Body() dto: UpdateRoutePolicyDto,
+  ): Promise<RoutePolicyEntity> {
+    return await this.routePolicyService.updatePolicy(id, dto);
+  }
+
+  @Roles(...ROUTE_CONTROL_ROLES)
+  @Audit({ model: 'routePolicy' })
+  @Delete(':id')
+  @ApiResponse({
+    status: 200,
+    description: 'Route policy deleted',
+    schema: {
+      type: 'object',
+      properties: { deleted: { type: 'boolean', example: true } },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Route policy not found' })
+  @ApiOperation({ summary: 'Delete a scheduled route policy' })
+  async deletePolicy(@Param('id') id: string): Promise<{ deleted: boolean }> {
+    return await this.routePolicyService.deletePolicy(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WanModule } from '../wan/wan.module';
+import { RoutePolicySchedulerService } from './route-policy-scheduler.service';
+import { RoutePolicyController } from './route-policy.controller';
+import { RoutePolicyService } from './route-policy.service';
+
+@Module({
+  imports: [WanModule],
+  controllers: [RoutePolicyController],
+  providers: [RoutePolicyService, RoutePolicySchedulerService],
+  exports: [RoutePolicyService],
+})
+export class RoutePolicyModule {}
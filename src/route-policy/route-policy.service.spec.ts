@@ -0,0 +1,226 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RouteOverride, RoutePolicy } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RouteSource } from './constants';
+import { RoutePolicyService } from './route-policy.service';
+
+const STARLINK = '979FC0CE166A11EDA4F51737CD617E52';
+const VSAT = 'FCF62321165611EDA56E193DE7CF5745';
+
+const policy = (fields: Partial<RoutePolicy>): RoutePolicy => ({
+  id: 'policy',
+  name: 'Policy',
+  target: STARLINK,
+  daysOfWeek: [],
+  startTime: '00:00',
+  endTime: '00:00',
+  priority: 0,
+  enabled: true,
+  validFrom: null,
+  validUntil: null,
+  createdById: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  ...fields,
+});
+
+describe('RoutePolicyService', () => {
+  let prisma: {
+    routePolicy: { findMany: jest.Mock; create: jest.Mock };
+    routeOverride: { findMany: jest.Mock };
+  };
+
+  const createService = async (timeZone = 'UTC') => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoutePolicyService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => ({ SITE_TIMEZONE: timeZone })[key],
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get(RoutePolicyService);
+  };
+
+  const givenPolicies = (
+    policies: RoutePolicy[],
+    overrides: Partial<RouteOverride>[] = [],
+  ) => {
+    prisma.routePolicy.findMany.mockResolvedValue(policies);
+    prisma.routeOverride.findMany.mockResolvedValue(overrides);
+  };
+
+  beforeEach(() => {
+    prisma = {
+      routePolicy: {
+        findMany: jest.fn(),
+        create: jest.fn((args) => policy(args.data)),
+      },
+      routeOverride: { findMany: jest.fn() },
+    };
+  });
+
+  describe('resolve', () => {
+    it('returns no target when no policy is active', async () => {
+      const service = await createService();
+      givenPolicies([
+        policy({ daysOfWeek: [0], startTime: '08:00', endTime: '20:00' }),
+      ]);
+
+      // Monday
+      const resolved = await service.resolve(new Date('2025-08-04T10:00:00Z'));
+
+      expect(resolved.source).toBe(RouteSource.NONE);
+      expect(resolved.target).toBeNull();
+    });
+
+    it('picks the active policy with the highest priority', async () => {
+      const service = await createService();
+      givenPolicies([
+        policy({ id: 'low', target: STARLINK, priority: 1 }),
+        policy({ id: 'high', target: VSAT, priority: 5 }),
+      ]);
+
+      const resolved = await service.resolve(new Date('2025-08-04T10:00:00Z'));
+
+      expect(resolved).toMatchObject({
+        source: RouteSource.POLICY,
+        sourceId: 'high',
+        target: VSAT,
+      });
+    });
+
+    it('lets an override win over every policy', async () => {
+      const service = await createService();
+      givenPolicies(
+        [policy({ priority: 100 })],
+        [
+          {
+            id: 'override',
+            target: 'OFF',
+            reason: 'Port call',
+            startsAt: new Date('2025-08-04T09:00:00Z'),
+            expiresAt: new Date('2025-08-04T11:00:00Z'),
+            cancelledAt: null,
+            createdAt: new Date('2025-08-04T09:00:00Z'),
+          },
+        ],
+      );
+
+      const resolved = await service.resolve(new Date('2025-08-04T10:00:00Z'));
+
+      expect(resolved).toMatchObject({
+        source: RouteSource.OVERRIDE,
+        target: 'OFF',
+      });
+    });
+
+    it('runs a window that ends before it starts past midnight', async () => {
+      const service = await createService();
+      // Mondays 22:00 until Tuesday 06:00
+      givenPolicies([
+        policy({ daysOfWeek: [1], startTime: '22:00', endTime: '06:00' }),
+      ]);
+
+      const at = async (iso: string) =>
+        (await service.resolve(new Date(iso))).source;
+
+      expect(await at('2025-08-04T21:59:00Z')).toBe(RouteSource.NONE);
+      expect(await at('2025-08-04T22:00:00Z')).toBe(RouteSource.POLICY);
+      expect(await at('2025-08-05T05:59:00Z')).toBe(RouteSource.POLICY);
+      expect(await at('2025-08-05T06:00:00Z')).toBe(RouteSource.NONE);
+      // Sunday night isn't part of the window
+      expect(await at('2025-08-03T23:00:00Z')).toBe(RouteSource.NONE);
+    });
+
+    it('evaluates windows in the site time zone', async () => {
+      const service = await createService('Asia/Tokyo');
+      givenPolicies([policy({ startTime: '08:00', endTime: '20:00' })]);
+
+      const at = async (iso: string) =>
+        (await service.resolve(new Date(iso))).source;
+
+      // 09:30 and 21:00 in Tokyo
+      expect(await at('2025-08-04T00:30:00Z')).toBe(RouteSource.POLICY);
+      expect(await at('2025-08-04T12:00:00Z')).toBe(RouteSource.NONE);
+    });
+
+    it('ignores policies outside their validity', async () => {
+      const service = await createService();
+      givenPolicies([
+        policy({ validFrom: new Date('2025-08-05T00:00:00Z') }),
+        policy({ validUntil: new Date('2025-08-04T10:00:00Z') }),
+      ]);
+
+      const resolved = await service.resolve(new Date('2025-08-04T10:00:00Z'));
+
+      expect(resolved.source).toBe(RouteSource.NONE);
+    });
+  });
+
+  it('rejects an invalid site time zone', async () => {
+    await expect(createService('Mars/Olympus_Mons')).rejects.toThrow(
+      'Invalid SITE_TIMEZONE',
+    );
+  });
+
+  describe('createPolicy', () => {
+    it('rejects a window overlapping a policy of the same priority', async () => {
+      const service = await createService();
+      prisma.routePolicy.findMany.mockResolvedValue([
+        policy({ daysOfWeek: [1], startTime: '22:00', endTime: '02:00' }),
+      ]);
+
+      await expect(
+        service.createPolicy({
+          name: 'Early VSAT',
+          target: VSAT,
+          daysOfWeek: [2],
+          startTime: '01:00',
+          endTime: '03:00',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('accepts a window next to another one', async () => {
+      const service = await createService();
+      prisma.routePolicy.findMany.mockResolvedValue([
+        policy({ daysOfWeek: [1], startTime: '22:00', endTime: '02:00' }),
+      ]);
+
+      await expect(
+        service.createPolicy({
+          name: 'Early VSAT',
+          target: VSAT,
+          daysOfWeek: [2],
+          startTime: '02:00',
+          endTime: '03:00',
+        }),
+      ).resolves.toMatchObject({ target: VSAT });
+    });
+
+    it('accepts overlapping windows that are never valid together', async () => {
+      const service = await createService();
+      prisma.routePolicy.findMany.mockResolvedValue([
+        policy({ validUntil: new Date('2025-08-01T00:00:00Z') }),
+      ]);
+
+      await expect(
+        service.createPolicy({
+          name: 'VSAT from August',
+          target: VSAT,
+          startTime: '00:00',
+          endTime: '00:00',
+          validFrom: '2025-08-01T00:00:00Z',
+        }),
+      ).resolves.toMatchObject({ target: VSAT });
+    });
+  });
+});
@@ -0,0 +1,484 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RouteOverride, RoutePolicy } from '@prisma/client';
+import {
+  addMinutes,
+  getDay,
+  getHours,
+  getMinutes,
+  startOfMinute,
+} from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RouteSource } from './constants';
+import {
+  CreateRouteOverrideDto,
+  CreateRoutePolicyDto,
+  ResolvedRouteDto,
+  RoutePreviewSegmentDto,
+  UpdateRoutePolicyDto,
+} from './dto';
+import { RouteOverrideEntity, RoutePolicyEntity } from './entities';
+const chalk = require('chalk');
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+@Injectable()
+export class RoutePolicyService {
+  private readonly logger = new Logger(RoutePolicyService.name);
+  // Time zone the policy windows are in, defaults to the server's
+  private readonly timeZone: string;
+
+  constructor(
+    private prisma: PrismaService,
+    config: ConfigService,
+  ) {
+    this.timeZone =
+      config.get('SITE_TIMEZONE') ||
+      Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    try {
+      new Intl.DateTimeFormat('en', { timeZone: this.timeZone });
+    } catch {
+      throw new Error(
+        `Invalid SITE_TIMEZONE ${this.timeZone}, expected an IANA time zone such as Europe/Oslo`,
+      );
+    }
+  }
+
+  /**
+   * Get all route policies, highest priority first
+   */
+  async getPolicies(): Promise<RoutePolicyEntity[]> {
+    const policies = await this.prisma.routePolicy.findMany({
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return policies.map((policy) => new RoutePolicyEntity(policy));
+  }
+
+  /**
+   * Create a route policy
+   * @param dto Policy to create
+   * @param createdById User creating the policy
+   * @throws ConflictException if it overlaps a policy of the same priority with another target
+   */
+  async createPolicy(
+    dto: CreateRoutePolicyDto,
+    createdById?: string,
+  ): Promise<RoutePolicyEntity> {
+    const data = {
+      ...dto,
+      daysOfWeek: this.normalizeDays(dto.daysOfWeek),
+      validFrom: dto.validFrom ? new Date(dto.validFrom) : null,
+      validUntil: dto.validUntil ? new Date(dto.validUntil) : null,
+    };
+
+    await this.ensureNoConflict({
+      id: null,
+      priority: 0,
+      enabled: true,
+      ...data,
+    });
+
+    const policy = await this.prisma.routePolicy.create({
+      data: { ...data, createdById: createdById || null },
+    });
+
+    this.logger.log(
+      chalk.blue(`Route policy "${policy.name}" created (${policy.target})`),
+    );
+
+    return new RoutePolicyEntity(policy);
+  }
+
+  /**
+   * Update a route policy
+   * @param policyId Policy ID
+   * @param dto Fields to change
+   * @throws ConflictException if it overlaps a policy of the same priority with another target
+   */
+  async updatePolicy(
+    policyId: string,
+    dto: UpdateRoutePolicyDto,
+  ): Promise<RoutePolicyEntity> {
+    const existing = await this.getPolicy(policyId);
+
+    const data = {
+      ...dto,
+      daysOfWeek: dto.daysOfWeek
+        ? this.normalizeDays(dto.daysOfWeek)
+        : undefined,
+      validFrom: this.toOptionalDate(dto.validFrom),
+      validUntil: this.toOptionalDate(dto.validUntil),
+    };
+
+    await this.ensureNoConflict({
+      ...existing,
+      ...Object.fromEntries(
+        Object.entries(data).filter(([, value]) => value !== undefined),
+      ),
+    });
+
+    const policy = await this.prisma.routePolicy.update({
+      where: { id: policyId },
+      data,
+    });
+
+    return new RoutePolicyEntity(policy);
+  }
+
+  /**
+   * Delete a route policy
+   * @param policyId Policy ID
+   */
+  async deletePolicy(policyId: string): Promise<{ deleted: boolean }> {
+    await this.getPolicy(policyId);
+    await this.prisma.routePolicy.delete({ where: { id: policyId } });
+    return { deleted: true };
+  }
+
+  /**
+   * Get the override in effect, if any
+   * @param at Time to check, defaults to now
+   */
+  async getActiveOverride(
+    at: Date = new Date(),
+  ): Promise<RouteOverrideEntity | null> {
+    const override = await this.prisma.routeOverride.findFirst({
+      where: {
+        cancelledAt: null,
+        startsAt: { lte: at },
+        expiresAt: { gt: at },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return override ? new RouteOverrideEntity(override) : null;
+  }
+
+  /**
+   * Force the route to a target until the override expires. Replaces the
+   * override in effect, if any.
+   * @param dto Target and duration of the override
+   * @param createdById User creating the override
+   */
+  async createOverride(
+    dto: CreateRouteOverrideDto,
+    createdById?: string,
+  ): Promise<RouteOverrideEntity> {
+    const now = new Date();
+    const expiresAt = dto.expiresAt
+      ? new Date(dto.expiresAt)
+      : addMinutes(now, Number(dto.durationMinutes));
+
+    if (expiresAt <= now) {
+      throw new BadRequestException('Override must expire in the future');
+    }
+
+    const override = await this.prisma.$transaction(async (tx) => {
+      await tx.routeOverride.updateMany({
+        where: { cancelledAt: null, expiresAt: { gt: now } },
+        data: { cancelledAt: now },
+      });
+
+      return tx.routeOverride.create({
+        data: {
+          target: dto.target,
+          reason: dto.reason,
+          startsAt: now,
+          expiresAt,
+          createdById: createdById || null,
+        },
+      });
+    });
+
+    this.logger.log(
+      chalk.blue(
+        `Route overridden to ${override.target} until ${expiresAt.toISOString()}`,
+      ),
+    );
+
+    return new RouteOverrideEntity(override);
+  }
+
+  /**
+   * Cancel the override in effect so the policies apply again
+   * @throws NotFoundException if no override is in effect
+   */
+  async cancelOverride(): Promise<RouteOverrideEntity> {
+    const active = await this.getActiveOverride();
+    if (!active) {
+      throw new NotFoundException('No route override in effect');
+    }
+
+    const override = await this.prisma.routeOverride.update({
+      where: { id: active.id },
+      data: { cancelledAt: new Date() },
+    });
+
+    this.logger.log(chalk.blue(`Route override ${override.id} cancelled`));
+
+    return new RouteOverrideEntity(override);
+  }
+
+  /**
+   * Work out the route that should be applied at a given time. An override
+   * wins over every policy, then the active policy with the highest priority.
+   * @param at Time to resolve, defaults to now
+   */
+  async resolve(at: Date = new Date()): Promise<ResolvedRouteDto> {
+    const [policies, overrides] = await Promise.all([
+      this.prisma.routePolicy.findMany({ where: { enabled: true } }),
+      this.prisma.routeOverride.findMany({
+        where: { cancelledAt: null, expiresAt: { gt: at } },
+      }),
+    ]);
+
+    return this.resolveAt(at, policies, overrides);
+  }
+
+  /**
+   * Dry run of the schedule: the periods in which the same route would be
+   * applied, starting now
+   * @param days Number of days to preview, defaults to 7
+   */
+  async preview(days = 7): Promise<RoutePreviewSegmentDto[]> {
+    const from = startOfMinute(new Date());
+    const until = addMinutes(from, days * MINUTES_PER_DAY);
+
+    const [policies, overrides] = await Promise.all([
+      this.prisma.routePolicy.findMany({ where: { enabled: true } }),
+      this.prisma.routeOverride.findMany({
+        where: {
+          cancelledAt: null,
+          expiresAt: { gt: from },
+          startsAt: { lt: until },
+        },
+      }),
+    ]);
+
+    const segments: RoutePreviewSegmentDto[] = [];
+
+    for (let at = from; at < until; at = addMinutes(at, 1)) {
+      const resolved = this.resolveAt(at, policies, overrides);
+      const last = segments[segments.length - 1];
+
+      if (
+        last &&
+        last.target === resolved.target &&
+        last.sourceId === resolved.sourceId
+      ) {
+        last.to = addMinutes(at, 1);
+      } else {
+        segments.push({ ...resolved, from: at, to: addMinutes(at, 1) });
+      }
+    }
+
+    return segments;
+  }
+
+  private resolveAt(
+    at: Date,
+    policies: RoutePolicy[],
+    overrides: RouteOverride[],
+  ): ResolvedRouteDto {
+    const override = overrides
+      .filter((o) => !o.cancelledAt && o.startsAt <= at && o.expiresAt > at)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+    if (override) {
+      return {
+        target: override.target,
+        source: RouteSource.OVERRIDE,
+        sourceId: override.id,
+        sourceName: override.reason,
+      };
+    }
+
+    const policy = policies
+      .filter((p) => p.enabled && this.isActiveAt(p, at))
+      .sort(
+        (a, b) =>
+          b.priority - a.priority ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      )[0];
+
+    if (policy) {
+      return {
+        target: policy.target,
+        source: RouteSource.POLICY,
+        sourceId: policy.id,
+        sourceName: policy.name,
+      };
+    }
+
+    return {
+      target: null,
+      source: RouteSource.NONE,
+      sourceId: null,
+      sourceName: null,
+    };
+  }
+
+  /**
+   * Whether a time falls in the policy window, in the site time zone. A window
+   * that ends before it starts runs past midnight into the next day; equal
+   * times cover the whole day.
+   */
+  private isActiveAt(
+    policy: Pick<
+      RoutePolicy,
+      'daysOfWeek' | 'startTime' | 'endTime' | 'validFrom' | 'validUntil'
+    >,
+    at: Date,
+  ): boolean {
+    if (policy.validFrom && at < policy.validFrom) return false;
+    if (policy.validUntil && at >= policy.validUntil) return false;
+
+    const siteTime = toZonedTime(at, this.timeZone);
+    const minuteOfWeek =
+      getDay(siteTime) * MINUTES_PER_DAY +
+      getHours(siteTime) * 60 +
+      getMinutes(siteTime);
+    const start = this.toMinutes(policy.startTime);
+    const length = this.windowLength(policy);
+
+    return this.windowDays(policy).some(
+      (day) =>
+        (minuteOfWeek - (day * MINUTES_PER_DAY + start) + MINUTES_PER_WEEK) %
+          MINUTES_PER_WEEK <
+        length,
+    );
+  }
+
+  /**
+   * Minutes of the week (0 = Sunday 00:00) covered by the policy window
+   */
+  private weekMinutes(
+    policy: Pick<RoutePolicy, 'daysOfWeek' | 'startTime' | 'endTime'>,
+  ): Set<number> {
+    const start = this.toMinutes(policy.startTime);
+    const length = this.windowLength(policy);
+
+    const minutes = new Set<number>();
+    for (const day of this.windowDays(policy)) {
+      const offset = day * MINUTES_PER_DAY + start;
+      for (let i = 0; i < length; i++) {
+        minutes.add((offset + i) % MINUTES_PER_WEEK);
+      }
+    }
+    return minutes;
+  }
+
+  /**
+   * Reject a policy whose window overlaps an enabled policy of the same
+   * priority that routes somewhere else, as neither would win
+   */
+  private async ensureNoConflict(
+    policy: Pick<
+      RoutePolicy,
+      | 'name'
+      | 'target'
+      | 'daysOfWeek'
+      | 'startTime'
+      | 'endTime'
+      | 'priority'
+      | 'enabled'
+      | 'validFrom'
+      | 'validUntil'
+    > & { id: string | null },
+  ): Promise<void> {
+    if (
+      policy.validFrom &&
+      policy.validUntil &&
+      policy.validFrom >= policy.validUntil
+    ) {
+      throw new BadRequestException('validFrom must be before validUntil');
+    }
+
+    if (!policy.enabled) return;
+
+    const others = await this.prisma.routePolicy.findMany({
+      where: {
+        enabled: true,
+        priority: policy.priority,
+        target: { not: policy.target },
+        ...(policy.id ? { id: { not: policy.id } } : {}),
+      },
+    });
+
+    const minutes = this.weekMinutes(policy);
+
+    for (const other of others) {
+      const validityOverlaps =
+        (!policy.validUntil ||
+          !other.validFrom ||
+          other.validFrom < policy.validUntil) &&
+        (!other.validUntil ||
+          !policy.validFrom ||
+          policy.validFrom < other.validUntil);
+
+      if (!validityOverlaps) continue;
+
+      const otherMinutes = this.weekMinutes(other);
+      if ([...minutes].some((minute) => otherMinutes.has(minute))) {
+        throw new ConflictException(
+          `Policy overlaps "${other.name}" (${other.id}) with the same priority and another target`,
+        );
+      }
+    }
+  }
+
+  private windowDays(policy: Pick<RoutePolicy, 'daysOfWeek'>): number[] {
+    return policy.daysOfWeek.length ? policy.daysOfWeek : [0, 1, 2, 3, 4, 5, 6];
+  }
+
+  /**
+   * Length of the policy window in minutes
+   */
+  private windowLength(
+    policy: Pick<RoutePolicy, 'startTime' | 'endTime'>,
+  ): number {
+    const start = this.toMinutes(policy.startTime);
+    const end = this.toMinutes(policy.endTime);
+    return end > start ? end - start : end + MINUTES_PER_DAY - start;
+  }
+
+  private normalizeDays(days?: number[]): number[] {
+    return [...new Set(days || [])].sort((a, b) => a - b);
+  }
+
+  /**
+   * Date for a patched field: undefined leaves it unchanged, null clears it
+   */
+  private toOptionalDate(value?: string | null): Date | null | undefined {
+    if (value === undefined) return undefined;
+    return value ? new Date(value) : null;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Throw a NotFoundException if the policy does not exist
+   */
+  private async getPolicy(policyId: string): Promise<RoutePolicy> {
+    const policy = await this.prisma.routePolicy.findUnique({
+      where: { id: policyId },
+    });
+    if (!policy) {
+      throw new NotFoundException(`Route policy ${policyId} not found`);
+    }
+    return policy;
+  }
+}
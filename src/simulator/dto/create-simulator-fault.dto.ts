@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { SimulatorFaultType } from './simulator-status.dto';
+
+export class CreateSimulatorFaultDto {
+  @ApiProperty({
+    enum: SimulatorFaultType,
+    example: SimulatorFaultType.TIMEOUT,
+  })
+  @IsEnum(SimulatorFaultType)
+  type: SimulatorFaultType;
+
+  @ApiProperty({
+    description: 'Snake Ways endpoint to affect, every endpoint if not given',
+    required: false,
+    example: '/wan',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\/[a-z]*$/, { message: 'endpoint must be a path such as /wan' })
+  endpoint?: string;
+
+  @ApiProperty({
+    description: 'Number of requests to affect',
+    required: false,
+    example: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  count?: number;
+
+  @ApiProperty({
+    description:
+      'How long the fault lasts, in seconds. Refusing every connection lasts 30 seconds unless given, other faults last until their count is used up or they are cleared',
+    required: false,
+    example: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24 * 60 * 60)
+  durationSeconds?: number;
+}
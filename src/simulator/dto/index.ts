@@ -0,0 +1,2 @@
+export * from './create-simulator-fault.dto';
+export * from './simulator-status.dto';
@@ -0,0 +1,93 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum SimulatorFaultType {
+  /** Requests are never answered, so they time out */
+  TIMEOUT = 'TIMEOUT',
+  /**
+   * Connections are refused. Without an endpoint the simulator stops
+   * listening, with one its requests have their connection reset.
+   */
+  REFUSE = 'REFUSE',
+  /** Requests are answered with truncated JSON */
+  MALFORMED = 'MALFORMED',
+  /** Requests are answered with HTTP 503 */
+  SERVER_ERROR = 'SERVER_ERROR',
+}
+
+export class SimulatorFaultDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({
+    enum: SimulatorFaultType,
+    example: SimulatorFaultType.TIMEOUT,
+  })
+  type: SimulatorFaultType;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Endpoint affected, null for every endpoint',
+    example: '/wan',
+  })
+  endpoint: string | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Requests still affected, null until the fault expires',
+    example: 3,
+  })
+  remaining: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'When the fault ends, null until its requests are used up',
+  })
+  expiresAt: Date | null;
+}
+
+export class SimulatorWanDto {
+  @ApiProperty({ example: '979FC0CE166A11EDA4F51737CD617E52' })
+  wanId: string;
+
+  @ApiProperty({ example: 'Starlink' })
+  wanName: string;
+
+  @ApiProperty({ description: 'Snake Ways WAN status', example: 'ONLINE' })
+  status: string;
+
+  @ApiProperty({ example: 5368709120 })
+  usageBytes: number;
+
+  @ApiProperty({ example: 268435456000 })
+  usageMaxBytes: number;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'End of the simulated outage of the WAN',
+  })
+  downUntil: Date | null;
+}
+
+export class SimulatorStatusDto {
+  @ApiProperty({ description: 'Port the simulator listens on', example: 4100 })
+  port: number;
+
+  @ApiProperty({ description: 'Time simulated up to' })
+  clock: Date;
+
+  @ApiProperty({
+    description: 'System route as returned by GET /route',
+    example: {
+      WanID: '979FC0CE166A11EDA4F51737CD617E52',
+      Status: 1,
+      RouteType: 0,
+    },
+  })
+  route: object;
+
+  @ApiProperty({ type: [SimulatorWanDto] })
+  wans: SimulatorWanDto[];
+
+  @ApiProperty({ type: [SimulatorFaultDto] })
+  faults: SimulatorFaultDto[];
+}
@@ -0,0 +1,315 @@
+import { InterfaceClass } from 'src/snake-ways/interface/snake-ways-interface.service';
+import { DhcpStatus as LanDhcpStatus } from 'src/snake-ways/lan/snake-ways-lan.service';
+import {
+  AutocreditDefinition,
+  AutocreditInterval,
+  AutocreditStatusEnum,
+  AutocreditType,
+  AutoCreditStatus,
+  UserAccessLevel,
+} from 'src/snake-ways/user/snake-ways-user.service';
+import {
+  DhcpStatus,
+  PrepaidUsageMode,
+  UsageLimitStatus,
+  UsagePeriodType,
+} from 'src/snake-ways/wan/snake-ways-wan.service';
+
+const GB = 1024 * 1024 * 1024;
+
+export interface WanFixture {
+  WanID: string;
+  WanName: string;
+  InterfaceID: string;
+  IpAddress: string;
+  IpGateway: string;
+  SwitchPriority: number;
+  UsageMaxBytes: number;
+  // Bytes per second the link can carry
+  capacity: number;
+  // Share of the quota used last month
+  lastMonthUsage: number;
+}
+
+export interface LanFixture {
+  LanID: string;
+  LanName: string;
+  InterfaceID: string;
+  IpAddress: string;
+  QOS: string;
+  CaptivePortal: number;
+  // Share of the site traffic going through the LAN
+  weight: number;
+}
+
+export interface UserFixture {
+  UserID: string;
+  Login: string;
+  DisplayName: string;
+  AccessLevel: UserAccessLevel;
+  // LAN the user's devices are connected to
+  lanName: string;
+  clientMacs: string[];
+}
+
+export const INTERFACE_FIXTURES: InterfaceClass[] = [
+  {
+    InterfaceID: '97A0AC67166A11EDA4F51737CD617E52',
+    Name: 'BUSINESS',
+    Status: 1000,
+    Type: 0,
+    Port: 1,
+    VlanID: 0,
+  },
+  {
+    InterfaceID: '97A0AD12166A11EDA4F51737CD617E52',
+    Name: 'CREW',
+    Status: 1000,
+    Type: 0,
+    Port: 2,
+    VlanID: 0,
+  },
+  {
+    InterfaceID: '97A0ADB4166A11EDA4F51737CD617E52',
+    Name: 'GUEST WIFI',
+    Status: 300,
+    Type: 1,
+    Port: 1,
+    VlanID: 0,
+  },
+  {
+    InterfaceID: '97A0AE51166A11EDA4F51737CD617E52',
+    Name: 'STARLINK',
+    Status: 1000,
+    Type: 0,
+    Port: 3,
+    VlanID: 0,
+  },
+  {
+    InterfaceID: '97A0AEF0166A11EDA4F51737CD617E52',
+    Name: 'VSAT',
+    Status: 100,
+    Type: 0,
+    Port: 4,
+    VlanID: 0,
+  },
+  {
+    InterfaceID: '97A0AF8C166A11EDA4F51737CD617E52',
+    Name: 'IRIDIUM',
+    Status: 100,
+    Type: 0,
+    Port: 5,
+    VlanID: 0,
+  },
+  {
+    InterfaceID: '97A0B02A166A11EDA4F51737CD617E52',
+    Name: 'MOBILE',
+    Status: 100,
+    Type: 6,
+    Port: 1,
+    VlanID: 0,
+  },
+];
+
+// Same WANs as wan_usage_seed.sql
+export const WAN_FIXTURES: WanFixture[] = [
+  {
+    WanID: '979FC0CE166A11EDA4F51737CD617E52',
+    WanName: 'Starlink',
+    InterfaceID: '97A0AE51166A11EDA4F51737CD617E52',
+    IpAddress: '100.64.0.2',
+    IpGateway: '100.64.0.1',
+    SwitchPriority: 1,
+    UsageMaxBytes: 250 * GB,
+    capacity: 25_000_000,
+    lastMonthUsage: 0.62,
+  },
+  {
+    WanID: 'FCF62321165611EDA56E193DE7CF5745',
+    WanName: 'VSAT',
+    InterfaceID: '97A0AEF0166A11EDA4F51737CD617E52',
+    IpAddress: '10.10.0.2',
+    IpGateway: '10.10.0.1',
+    SwitchPriority: 2,
+    UsageMaxBytes: 50 * GB,
+    capacity: 2_000_000,
+    lastMonthUsage: 0.35,
+  },
+  {
+    WanID: 'FCF87D17165611EDA56E193DE7CF5745',
+    WanName: 'MOBILE',
+    InterfaceID: '97A0B02A166A11EDA4F51737CD617E52',
+    IpAddress: '10.20.0.2',
+    IpGateway: '10.20.0.1',
+    SwitchPriority: 3,
+    UsageMaxBytes: 20 * GB,
+    capacity: 5_000_000,
+    lastMonthUsage: 0.2,
+  },
+  {
+    WanID: 'FCF76E57165611EDA56E193DE7CF5745',
+    WanName: 'IRIDIUM',
+    InterfaceID: '97A0AF8C166A11EDA4F51737CD617E52',
+    IpAddress: '10.30.0.2',
+    IpGateway: '10.30.0.1',
+    SwitchPriority: 4,
+    UsageMaxBytes: 5 * GB,
+    capacity: 50_000,
+    lastMonthUsage: 0.05,
+  },
+];
+
+export const LAN_FIXTURES: LanFixture[] = [
+  {
+    LanID: '979F48BB166A11EDA4F51737CD617E52',
+    LanName: 'BUSINESS',
+    InterfaceID: '97A0AC67166A11EDA4F51737CD617E52',
+    IpAddress: '192.168.77.1',
+    QOS: 'High',
+    CaptivePortal: 0,
+    weight: 0.3,
+  },
+  {
+    LanID: '979F4960166A11EDA4F51737CD617E52',
+    LanName: 'CREW',
+    InterfaceID: '97A0AD12166A11EDA4F51737CD617E52',
+    IpAddress: '192.168.78.1',
+    QOS: 'Medium',
+    CaptivePortal: 1,
+    weight: 0.55,
+  },
+  {
+    LanID: '979F4A05166A11EDA4F51737CD617E52',
+    LanName: 'GUEST',
+    InterfaceID: '97A0ADB4166A11EDA4F51737CD617E52',
+    IpAddress: '192.168.79.1',
+    QOS: 'Low',
+    CaptivePortal: 1,
+    weight: 0.15,
+  },
+];
+
+// Same users as example-output.json
+export const USER_FIXTURES: UserFixture[] = [
+  {
+    UserID: '08CEA67DEA9811EFA4B11634BF2372D1',
+    Login: 'captain',
+    DisplayName: 'Captain',
+    AccessLevel: UserAccessLevel.SITE_ADMIN,
+    lanName: 'BUSINESS',
+    clientMacs: ['3C:22:FB:10:01:01', '3C:22:FB:10:01:02'],
+  },
+  {
+    UserID: '8B8FB214EA9711EFA4B11634BF2372D1',
+    Login: 'chief.engineer',
+    DisplayName: 'Chief Engineer',
+    AccessLevel: UserAccessLevel.SITE_MASTER,
+    lanName: 'BUSINESS',
+    clientMacs: ['3C:22:FB:10:02:01'],
+  },
+  {
+    UserID: 'A1A1F0E0EA9711EFA4B11634BF2372D1',
+    Login: 'first.officer',
+    DisplayName: 'First Officer',
+    AccessLevel: UserAccessLevel.USER,
+    lanName: 'BUSINESS',
+    clientMacs: ['3C:22:FB:10:03:01'],
+  },
+  {
+    UserID: 'AD9CE719EA9711EFA4B11634BF2372D1',
+    Login: 'bosun',
+    DisplayName: 'Bosun',
+    AccessLevel: UserAccessLevel.USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:04:01', '3C:22:FB:10:04:02'],
+  },
+  {
+    UserID: 'BBF6CD8DEA9711EFA4B11634BF2372D1',
+    Login: 'cook',
+    DisplayName: 'Cook',
+    AccessLevel: UserAccessLevel.USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:05:01'],
+  },
+  {
+    UserID: 'C88CA66CEA9711EFA4B11634BF2372D1',
+    Login: 'able.seaman1',
+    DisplayName: 'Able Seaman 1',
+    AccessLevel: UserAccessLevel.PREPAID_USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:06:01'],
+  },
+  {
+    UserID: 'D44777E4EA9711EFA4B11634BF2372D1',
+    Login: 'able.seaman2',
+    DisplayName: 'Able Seaman 2',
+    AccessLevel: UserAccessLevel.PREPAID_USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:07:01'],
+  },
+  {
+    UserID: 'DEFCF838EA9711EFA4B11634BF2372D1',
+    Login: 'oiler',
+    DisplayName: 'Oiler',
+    AccessLevel: UserAccessLevel.USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:08:01'],
+  },
+  {
+    UserID: 'EEEA6B28EA9711EFA4B11634BF2372D1',
+    Login: 'cadet1',
+    DisplayName: 'Cadet 1',
+    AccessLevel: UserAccessLevel.USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:09:01'],
+  },
+  {
+    UserID: 'FC6EEDA0EA9711EFA4B11634BF2372D1',
+    Login: 'cadet2',
+    DisplayName: 'Cadet 2',
+    AccessLevel: UserAccessLevel.USER,
+    lanName: 'CREW',
+    clientMacs: ['3C:22:FB:10:10:01'],
+  },
+];
+
+// Settings shared by every simulated WAN
+export const WAN_DEFAULTS = {
+  AllowPrepaid: PrepaidUsageMode.ALLOW,
+  DHCP: DhcpStatus.ENABLED,
+  DNS1: '8.8.8.8',
+  DNS2: '8.8.4.4',
+  Subnetmask: '255.255.255.0',
+  PrepaidUsageMaxVolume: 0,
+  PrepaidUsagePeriodType: UsagePeriodType.MONTHLY,
+  UsageLimited: UsageLimitStatus.LIMIT_ENFORCED,
+  UsagePeriod: 1,
+  UsagePeriodType: UsagePeriodType.MONTHLY,
+};
+
+// Settings shared by every simulated LAN
+export const LAN_DEFAULTS = {
+  Subnetmask: '255.255.255.0',
+  DNS1: '8.8.8.8',
+  DNS2: '8.8.4.4',
+  DHCP: LanDhcpStatus.ENABLED,
+  AllowGateway: 1,
+};
+
+// Autocredit of every simulated user, as in example-output.json
+export const AUTOCREDIT_DEFAULTS = {
+  CreditDefinition: AutocreditDefinition.USER,
+  CreditInterval: AutocreditInterval.MONTHLY,
+  CreditType: AutocreditType.SET_TO_VALUE,
+  CreditValue: 5 * GB,
+  Status: AutocreditStatusEnum.ENABLED,
+};
+
+export const USER_DEFAULTS = {
+  AutoCreditEnabled: AutoCreditStatus.ENABLED,
+  Pending: 0,
+  TimeCredit: '0',
+};
+
+// Average bytes per second the whole site asks for at the busiest hour
+export const PEAK_DEMAND = 120_000;
@@ -0,0 +1,383 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { RecordType } from 'src/snake-ways/user/snake-ways-user.service';
+import {
+  CreateSimulatorFaultDto,
+  SimulatorFaultDto,
+  SimulatorFaultType,
+  SimulatorStatusDto,
+} from './dto';
+import { SimulatorService } from './simulator.service';
+const chalk = require('chalk');
+
+// How long every connection is refused unless a duration is given
+const DEFAULT_REFUSE_SECONDS = 30;
+
+interface Fault {
+  id: number;
+  type: SimulatorFaultType;
+  endpoint: string | null;
+  remaining: number | null;
+  expiresAt: number | null;
+}
+
+/**
+ * Serves the simulated Snake Ways API on its own port when
+ * SNAKE_WAYS_SIMULATOR_ENABLED is true, so the app can be pointed at it with
+ * SNAKE_WAYS_BASE_URL and run without a router. Faults injected through the
+ * simulator routes make it time out, refuse connections or answer with
+ * malformed payloads or server errors.
+ */
+@Injectable()
+export class SimulatorServer implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SimulatorServer.name);
+  private readonly enabled: boolean;
+  private readonly port: number;
+  // Loopback only unless configured, the simulator routes aren't authenticated
+  private readonly host: string;
+  private server: Server | null = null;
+  private faults: Fault[] = [];
+  private nextFaultId = 1;
+  // Reopens the server after refusing every connection
+  private reopenTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    config: ConfigService,
+    private readonly simulator: SimulatorService,
+  ) {
+    this.enabled = config.get('SNAKE_WAYS_SIMULATOR_ENABLED') === 'true';
+    this.port = Number(config.get('SNAKE_WAYS_SIMULATOR_PORT')) || 4100;
+    this.host = config.get('SNAKE_WAYS_SIMULATOR_HOST') || '127.0.0.1';
+  }
+
+  async onModuleInit() {
+    if (!this.enabled) return;
+
+    this.simulator.reset();
+    this.server = createServer((req, res) => this.handle(req, res));
+    await this.listen();
+
+    this.logger.log(
+      chalk.green.bold(
+        `Snake Ways simulator listening on http://${this.host}:${this.port}/api/v1`,
+      ),
+    );
+  }
+
+  async onModuleDestroy() {
+    if (this.reopenTimer) clearTimeout(this.reopenTimer);
+    if (!this.server?.listening) return;
+
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+  }
+
+  getStatus(): SimulatorStatusDto {
+    this.assertEnabled();
+    this.simulator.advance();
+
+    return {
+      port: this.port,
+      ...this.simulator.getSummary(),
+      faults: this.getFaults(),
+    };
+  }
+
+  /**
+   * Start a fault. Refusing every connection closes the server until the
+   * fault expires.
+   */
+  addFault(dto: CreateSimulatorFaultDto): SimulatorFaultDto {
+    this.assertEnabled();
+
+    const refuseAll = dto.type === SimulatorFaultType.REFUSE && !dto.endpoint;
+    const durationSeconds =
+      dto.durationSeconds ?? (refuseAll ? DEFAULT_REFUSE_SECONDS : undefined);
+
+    const fault: Fault = {
+      id: this.nextFaultId++,
+      type: dto.type,
+      endpoint: dto.endpoint || null,
+      remaining: refuseAll ? null : (dto.count ?? null),
+      expiresAt: durationSeconds ? Date.now() + durationSeconds * 1000 : null,
+    };
+
+    if (refuseAll) {
+      // A single outage at a time, the new one replaces the old one
+      this.faults = this.faults.filter((item) => !this.isRefuseAll(item));
+      this.refuseConnections(durationSeconds! * 1000);
+    }
+    this.faults.push(fault);
+
+    this.logger.warn(
+      chalk.yellow(
+        `Simulating ${fault.type} on ${fault.endpoint || 'every endpoint'}${fault.remaining ? ` for ${fault.remaining} requests` : ''}${durationSeconds ? ` for ${durationSeconds}s` : ''}`,
+      ),
+    );
+
+    return this.toDto(fault);
+  }
+
+  removeFault(id: number): SimulatorFaultDto {
+    this.assertEnabled();
+
+    const fault = this.faults.find((item) => item.id === id);
+    if (!fault) {
+      throw new NotFoundException(`Simulator fault ${id} not found`);
+    }
+
+    this.faults = this.faults.filter((item) => item !== fault);
+    if (this.isRefuseAll(fault)) void this.reopen();
+
+    return this.toDto(fault);
+  }
+
+  clearFaults(): SimulatorStatusDto {
+    this.assertEnabled();
+
+    const refusing = this.faults.some((fault) => this.isRefuseAll(fault));
+    this.faults = [];
+    if (refusing) void this.reopen();
+
+    this.logger.log(chalk.green('Cleared simulated faults'));
+    return this.getStatus();
+  }
+
+  /**
+   * Start the simulation over from the fixtures. Faults are kept.
+   */
+  reset(): SimulatorStatusDto {
+    this.assertEnabled();
+    this.simulator.reset();
+    return this.getStatus();
+  }
+
+  private assertEnabled(): void {
+    if (!this.enabled) {
+      throw new NotFoundException(
+        'The Snake Ways simulator is disabled, set SNAKE_WAYS_SIMULATOR_ENABLED=true to use it',
+      );
+    }
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://simulator');
+    // The router serves its API under /api/v1, accept it with or without
+    const endpoint = url.pathname.replace(/^\/api\/v1/, '') || '/';
+
+    const fault = this.takeFault(endpoint);
+    if (fault) {
+      this.logger.debug(`${fault.type} on ${req.method} ${endpoint}`);
+    }
+
+    switch (fault?.type) {
+      case SimulatorFaultType.TIMEOUT:
+        // Never answered, the client gives up
+        return;
+      case SimulatorFaultType.REFUSE:
+        req.socket.destroy();
+        return;
+      case SimulatorFaultType.MALFORMED:
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"error":0,"data":[{"ID":');
+        return;
+      case SimulatorFaultType.SERVER_ERROR:
+        this.send(res, 503, { error: 'Service temporarily unavailable' });
+        return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        this.simulator.advance();
+        const data = this.route(req.method || 'GET', endpoint, url, body);
+        this.send(res, 200, data);
+      } catch (error) {
+        const status = error instanceof HttpException ? error.getStatus() : 500;
+        this.send(res, status, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  }
+
+  /**
+   * Answer a request the way Snake Ways does
+   * @throws HttpException for unknown endpoints and invalid requests
+   */
+  private route(
+    method: string,
+    endpoint: string,
+    url: URL,
+    body: string,
+  ): unknown {
+    const query = (name: string) => url.searchParams.get(name) || undefined;
+    const days = (defaultDays?: number) => Number(query('days')) || defaultDays;
+
+    if (method === 'GET') {
+      switch (endpoint) {
+        case '/':
+          return { status: 'ok' };
+        case '/interface':
+          return {
+            interface: this.simulator.getInterfaces(query('interfaceid')),
+          };
+        case '/wan':
+          return { wan: this.simulator.getWans(query('wanid')) };
+        case '/wanusage':
+          return {
+            wanusage: this.simulator.getWanUsage(days(90)!, query('wanid')),
+          };
+        case '/lan':
+          return { lan: this.simulator.getLans(query('lanid')) };
+        case '/lanusage':
+          return {
+            lanusage: this.simulator.getLanUsage(
+              days(),
+              query('lanid'),
+              query('wanid'),
+            ),
+          };
+        case '/user':
+          return { user: this.simulator.getUsers(query('userid')) };
+        case '/autocredit':
+          return {
+            autocredit: this.simulator.getAutocredits(query('userid')),
+          };
+        case '/usage': {
+          const recordType = query('recordtype');
+          return {
+            usage: this.simulator.getUsage(
+              days(30)!,
+              query('userid'),
+              recordType !== undefined
+                ? (Number(recordType) as RecordType)
+                : undefined,
+            ),
+          };
+        }
+        case '/route':
+          return { route: [this.simulator.getRoute()] };
+      }
+    }
+
+    if (method === 'PUT' && endpoint === '/route') {
+      let wanId: unknown;
+      try {
+        wanId = JSON.parse(body || '{}').WanID;
+      } catch {
+        throw new HttpException('Invalid JSON body', 400);
+      }
+      if (typeof wanId !== 'string') {
+        throw new HttpException('WanID is required', 400);
+      }
+      return { route: [this.simulator.setRoute(wanId)] };
+    }
+
+    throw new NotFoundException(
+      `${method} ${endpoint} is not simulated, see the simulator section of the README`,
+    );
+  }
+
+  private send(res: ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+
+  /**
+   * The fault to apply to a request to the endpoint, counting the request
+   * against it
+   */
+  private takeFault(endpoint: string): Fault | undefined {
+    const now = Date.now();
+    this.faults = this.faults.filter(
+      (fault) => !fault.expiresAt || fault.expiresAt > now,
+    );
+
+    const fault = this.faults.find(
+      (item) =>
+        !this.isRefuseAll(item) &&
+        (!item.endpoint || item.endpoint === endpoint),
+    );
+    if (fault?.remaining) {
+      fault.remaining--;
+      if (!fault.remaining) {
+        this.faults = this.faults.filter((item) => item !== fault);
+      }
+    }
+    return fault;
+  }
+
+  private isRefuseAll(fault: Fault): boolean {
+    return fault.type === SimulatorFaultType.REFUSE && !fault.endpoint;
+  }
+
+  /**
+   * Stop listening so connections are refused, until the time is up
+   */
+  private refuseConnections(durationMs: number): void {
+    if (this.reopenTimer) clearTimeout(this.reopenTimer);
+    this.reopenTimer = setTimeout(() => void this.reopen(), durationMs);
+
+    if (this.server?.listening) {
+      this.server.close();
+      this.server.closeAllConnections();
+    }
+  }
+
+  private async reopen(): Promise<void> {
+    if (this.reopenTimer) {
+      clearTimeout(this.reopenTimer);
+      this.reopenTimer = null;
+    }
+    if (!this.server || this.server.listening) return;
+
+    try {
+      await this.listen();
+      this.logger.log(
+        chalk.green('Snake Ways simulator accepting connections again'),
+      );
+    } catch (error) {
+      this.logger.error(
+        chalk.red('Failed to reopen the Snake Ways simulator'),
+        error,
+      );
+    }
+  }
+
+  private listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  private getFaults(): SimulatorFaultDto[] {
+    const now = Date.now();
+    return this.faults
+      .filter((fault) => !fault.expiresAt || fault.expiresAt > now)
+      .map((fault) => this.toDto(fault));
+  }
+
+  private toDto(fault: Fault): SimulatorFaultDto {
+    return {
+      id: fault.id,
+      type: fault.type,
+      endpoint: fault.endpoint,
+      remaining: fault.remaining,
+      expiresAt: fault.expiresAt ? new Date(fault.expiresAt) : null,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { STAFF_ROLES } from 'src/auth/constants';
+import { Roles } from 'src/auth/decorators';
+import {
+  CreateSimulatorFaultDto,
+  SimulatorFaultDto,
+  SimulatorStatusDto,
+} from './dto';
+import { SimulatorServer } from './simulator-server';
+
+@ApiTags('Simulator')
+@Roles(...STAFF_ROLES)
+@Controller('simulator')
+export class SimulatorController {
+  constructor(private readonly simulatorServer: SimulatorServer) {}
+
+  @Get('status')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the simulated clock, route, WANs and active faults',
+    type: SimulatorStatusDto,
+  })
+  @ApiResponse({ status: 404, description: 'Simulator disabled' })
+  @ApiOperation({ summary: 'Get the state of the Snake Ways simulator' })
+  getStatus(): SimulatorStatusDto {
+    return this.simulatorServer.getStatus();
+  }
+
+  @Post('faults')
+  @ApiResponse({
+    status: 201,
+    description: 'Fault injected',
+    type: SimulatorFaultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiResponse({ status: 404, description: 'Simulator disabled' })
+  @ApiOperation({
+    summary: 'Make the simulator time out, refuse or answer badly',
+  })
+  addFault(@Body() dto: CreateSimulatorFaultDto): SimulatorFaultDto {
+    return this.simulatorServer.addFault(dto);
+  }
+
+  @Delete('faults')
+  @ApiResponse({
+    status: 200,
+    description: 'Faults cleared, returns the simulator state',
+    type: SimulatorStatusDto,
+  })
+  @ApiResponse({ status: 404, description: 'Simulator disabled' })
+  @ApiOperation({ summary: 'Clear every injected fault' })
+  clearFaults(): SimulatorStatusDto {
+    return this.simulatorServer.clearFaults();
+  }
+
+  @Delete('faults/:id')
+  @ApiResponse({
+    status: 200,
+    description: 'Fault removed',
+    type: SimulatorFaultDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Fault not found or simulator disabled',
+  })
+  @ApiOperation({ summary: 'Remove an injected fault' })
+  removeFault(@Param('id', ParseIntPipe) id: number): SimulatorFaultDto {
+    return this.simulatorServer.removeFault(id);
+  }
+
+  @Post('reset')
+  @ApiResponse({
+    status: 201,
+    description: 'Simulation restarted, returns the simulator state',
+    type: SimulatorStatusDto,
+  })
+  @ApiResponse({ status: 404, description: 'Simulator disabled' })
+  @ApiOperation({
+    summary: 'Restart the simulated data from the start of the month',
+  })
+  reset(): SimulatorStatusDto {
+    return this.simulatorServer.reset();
+  }
+}
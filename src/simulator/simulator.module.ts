@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SimulatorServer } from './simulator-server';
+import { SimulatorController } from './simulator.controller';
+import { SimulatorService } from './simulator.service';
+
+@Module({
+  controllers: [SimulatorController],
+  providers: [SimulatorService, SimulatorServer],
+})
+export class SimulatorModule {}
@@ -0,0 +1,678 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  addHours,
+  format,
+  getHours,
+  startOfHour,
+  startOfMonth,
+  subDays,
+  subMonths,
+} from 'date-fns';
+import { InterfaceClass } from 'src/snake-ways/interface/snake-ways-interface.service';
+import { LanUsageData } from 'src/snake-ways/lan-usage/snake-ways-lan-usage.service';
+import { Lan } from 'src/snake-ways/lan/snake-ways-lan.service';
+import {
+  Autocredit,
+  RecordType,
+  UsageRecord,
+  User,
+} from 'src/snake-ways/user/snake-ways-user.service';
+import { WanUsage } from 'src/snake-ways/wan-usage/snake-ways-wan-usage.service';
+import {
+  SnakeWaysRouteData,
+  SnakeWaysRouteStatus,
+  SnakeWaysRouteType,
+} from 'src/snake-ways/wan/dto';
+import {
+  UsageLimitStatus,
+  Wan,
+  WanStatus,
+} from 'src/snake-ways/wan/snake-ways-wan.service';
+import {
+  AUTOCREDIT_DEFAULTS,
+  INTERFACE_FIXTURES,
+  LAN_DEFAULTS,
+  LAN_FIXTURES,
+  PEAK_DEMAND,
+  USER_DEFAULTS,
+  USER_FIXTURES,
+  UserFixture,
+  WAN_DEFAULTS,
+  WAN_FIXTURES,
+  WanFixture,
+} from './simulator-fixtures';
+const chalk = require('chalk');
+
+// Simulated time moves in steps of a minute
+const STEP_MS = 60 * 1000;
+
+// Chance of a WAN dropping out in a step, about once every two days
+const OUTAGE_CHANCE = 1 / (2 * 24 * 60);
+
+// Share of the LAN traffic made by logged-in users, the rest is devices
+// without an account
+const USER_TRAFFIC_SHARE = 0.4;
+
+// Share of the traffic that is downloaded
+const RX_SHARE = 0.9;
+
+// Records older than this are dropped at the start of a month
+const HISTORY_DAYS = 100;
+
+interface SimulatedWan {
+  fixture: WanFixture;
+  wan: Wan;
+  // Usage periods, the last one is the current period
+  periods: WanUsage[];
+  // End of the current outage, null while up
+  downUntil: number | null;
+}
+
+interface SimulatedUser {
+  fixture: UserFixture;
+  user: User;
+  autocredit: Autocredit;
+  records: UsageRecord[];
+}
+
+/**
+ * State of the simulated Snake Ways router: interfaces, WANs, LANs, users and
+ * their usage, and the system route. Time is simulated in minute steps up to
+ * the current time whenever the state is read, so usage keeps growing, WANs
+ * drop out and come back, and in automatic mode the route follows them.
+ * Random events come from a seeded generator so a run can be reproduced.
+ */
+@Injectable()
+export class SimulatorService {
+  private readonly logger = new Logger(SimulatorService.name);
+  private readonly seed: number;
+
+  private random: () => number;
+  private clock: number;
+  private interfaces: InterfaceClass[];
+  private wans: SimulatedWan[];
+  private lans: Lan[];
+  private lanUsage: LanUsageData[];
+  private users: SimulatedUser[];
+  private route: SnakeWaysRouteData;
+  // WAN the route is forced to, 'OFF' when forced off, null when automatic
+  private forcedRoute: string | null;
+
+  constructor(config: ConfigService) {
+    this.seed = Number(config.get('SNAKE_WAYS_SIMULATOR_SEED')) || 1;
+  }
+
+  /**
+   * Start over from the fixtures, with the usage of this month simulated up
+   * to now
+   */
+  reset(): void {
+    const now = Date.now();
+    const monthStart = startOfMonth(now).getTime();
+
+    this.random = createRandom(this.seed);
+    this.clock = monthStart;
+    this.interfaces = INTERFACE_FIXTURES.map((item) => ({ ...item }));
+    this.wans = WAN_FIXTURES.map((fixture) =>
+      this.createWan(fixture, monthStart),
+    );
+    this.lans = LAN_FIXTURES.map((fixture) => ({
+      ...LAN_DEFAULTS,
+      LanID: fixture.LanID,
+      LanName: fixture.LanName,
+      Interface: [{ InterfaceID: fixture.InterfaceID }],
+      IpAddress: fixture.IpAddress,
+      DhcpRangeFrom: fixture.IpAddress.replace(/\.1$/, '.20'),
+      DhcpRangeTo: fixture.IpAddress.replace(/\.1$/, '.200'),
+      CaptivePortal: fixture.CaptivePortal,
+      QOS: fixture.QOS,
+    }));
+    this.lanUsage = [];
+    this.users = USER_FIXTURES.map((fixture) => this.createUser(fixture));
+    this.users.forEach((user) => this.topUp(user, monthStart));
+    this.route = {
+      WanID: '',
+      Status: SnakeWaysRouteStatus.NO_DEFAULT_ROUTE,
+      RouteType: SnakeWaysRouteType.AUTOMATIC,
+    };
+    this.forcedRoute = null;
+    this.applyRoute();
+
+    this.advance(now);
+    this.logger.log(
+      chalk.cyan(
+        `Simulated Snake Ways from ${new Date(monthStart).toISOString()}, route on ${this.getWanName(this.route.WanID)}`,
+      ),
+    );
+  }
+
+  /**
+   * Simulate up to the given time
+   */
+  advance(now = Date.now()): void {
+    while (this.clock + STEP_MS <= now) {
+      this.step(this.clock + STEP_MS);
+    }
+  }
+
+  getInterfaces(interfaceId?: string): InterfaceClass[] {
+    return this.interfaces.filter(
+      (item) => !interfaceId || item.InterfaceID === interfaceId,
+    );
+  }
+
+  getWans(wanId?: string): Wan[] {
+    return this.wans
+      .map(({ wan }) => wan)
+      .filter((wan) => !wanId || wan.WanID === wanId);
+  }
+
+  getLans(lanId?: string): Lan[] {
+    return this.lans.filter((lan) => !lanId || lan.LanID === lanId);
+  }
+
+  getUsers(userId?: string): User[] {
+    return this.users
+      .map(({ user }) => user)
+      .filter((user) => !userId || user.UserID === userId);
+  }
+
+  getAutocredits(userId?: string): Autocredit[] {
+    return this.users
+      .map(({ autocredit }) => autocredit)
+      .filter((autocredit) => !userId || autocredit.UserID === userId);
+  }
+
+  /**
+   * Usage records starting in the last days, of every record type unless one
+   * is given
+   */
+  getUsage(
+    days: number,
+    userId?: string,
+    recordType?: RecordType,
+  ): UsageRecord[] {
+    const since = this.since(days);
+    return this.users
+      .filter(({ user }) => !userId || user.UserID === userId)
+      .flatMap(({ records }) => records)
+      .filter(
+        (record) =>
+          record.StartTime >= since &&
+          (recordType === undefined || record.RecordType === recordType),
+      );
+  }
+
+  /**
+   * Usage periods of the WANs that were active in the last days
+   */
+  getWanUsage(days: number, wanId?: string): WanUsage[] {
+    const since = this.since(days);
+    return this.wans
+      .filter(({ wan }) => !wanId || wan.WanID === wanId)
+      .flatMap(({ periods }) => periods)
+      .filter((period) => period.Endtime === 0 || period.Endtime >= since);
+  }
+
+  /**
+   * Usage of the LANs per WAN, limited to the last days when given
+   */
+  getLanUsage(days?: number, lanId?: string, wanId?: string): LanUsageData[] {
+    const since = days ? this.since(days) : 0;
+    return this.lanUsage.filter(
+      (usage) =>
+        (!lanId || usage.LanID === lanId) &&
+        (!wanId || usage.WanID === wanId) &&
+        (usage.Endtime === 0 || usage.Endtime >= since),
+    );
+  }
+
+  getRoute(): SnakeWaysRouteData {
+    return this.route;
+  }
+
+  /**
+   * Set the system route like PUT /route does
+   * @param wanId WAN to force the route to, "AUTO" or "OFF"
+   * @throws BadRequestException if the WAN doesn't exist
+   */
+  setRoute(wanId: string): SnakeWaysRouteData {
+    if (wanId === 'AUTO') {
+      this.forcedRoute = null;
+    } else if (
+      wanId === 'OFF' ||
+      this.wans.some(({ wan }) => wan.WanID === wanId)
+    ) {
+      this.forcedRoute = wanId;
+    } else {
+      throw new BadRequestException(`Unknown WAN ${wanId}`);
+    }
+
+    this.applyRoute();
+    this.logger.log(
+      chalk.cyan(
+        `Simulated route set to ${wanId}, now on ${this.getWanName(this.route.WanID)}`,
+      ),
+    );
+    return this.route;
+  }
+
+  /**
+   * Simulated time and the state of each WAN, for the simulator status
+   */
+  getSummary() {
+    return {
+      clock: new Date(this.clock),
+      route: this.route,
+      wans: this.wans.map(({ wan, downUntil }) => ({
+        wanId: wan.WanID,
+        wanName: wan.WanName,
+        status: WanStatus[wan.Status],
+        usageBytes: wan.UsageBytes,
+        usageMaxBytes: wan.UsageMaxBytes,
+        downUntil: downUntil ? new Date(downUntil) : null,
+      })),
+    };
+  }
+
+  private step(time: number): void {
+    const monthStart = startOfMonth(time).getTime();
+    if (monthStart > startOfMonth(this.clock).getTime()) {
+      this.startMonth(monthStart);
+    }
+    this.clock = time;
+
+    this.simulateOutages(time);
+    this.applyRoute();
+
+    const carrier = this.getCarrier();
+    if (carrier) {
+      this.simulateTraffic(carrier, time);
+    }
+  }
+
+  /**
+   * Close the usage periods of last month, start new ones and top up the users
+   */
+  private startMonth(monthStart: number): void {
+    const timestamp = toTimestamp(monthStart);
+    const cutoff = toTimestamp(subDays(monthStart, HISTORY_DAYS).getTime());
+
+    for (const simulated of this.wans) {
+      const { wan } = simulated;
+      currentPeriod(simulated).Endtime = timestamp;
+      simulated.periods = simulated.periods.filter(
+        (period) => period.Endtime === 0 || period.Endtime >= cutoff,
+      );
+      simulated.periods.push(this.createPeriod(wan, timestamp));
+
+      wan.UsageBytes = 0;
+      wan.UsageStart = format(monthStart, 'yyyy-MM-dd HH:mm:ss');
+      wan.UsageStartTimestamp = timestamp;
+      if (wan.Status === WanStatus.QUOTA_REACHED) {
+        wan.Status = WanStatus.READY;
+        wan.UsageBlocked = 0;
+      }
+    }
+
+    for (const usage of this.lanUsage) {
+      if (usage.Endtime === 0) usage.Endtime = timestamp;
+    }
+    this.lanUsage = this.lanUsage.filter((usage) => usage.Endtime >= cutoff);
+
+    for (const user of this.users) {
+      user.records = user.records.filter(
+        (record) => record.StartTime >= cutoff,
+      );
+      this.topUp(user, monthStart);
+    }
+  }
+
+  /**
+   * Take WANs down now and then, and bring them back once the outage is over
+   */
+  private simulateOutages(time: number): void {
+    for (const simulated of this.wans) {
+      const { wan } = simulated;
+
+      if (simulated.downUntil) {
+        if (time >= simulated.downUntil) {
+          simulated.downUntil = null;
+          wan.Status = WanStatus.READY;
+        }
+        continue;
+      }
+
+      if (
+        wan.Status !== WanStatus.QUOTA_REACHED &&
+        this.random() < OUTAGE_CHANCE
+      ) {
+        const minutes = 5 + Math.floor(this.random() * 55);
+        simulated.downUntil = time + minutes * 60 * 1000;
+        wan.Status =
+          this.random() < 0.5 ? WanStatus.ERROR : WanStatus.NOT_READY;
+      }
+    }
+  }
+
+  /**
+   * Route to the forced WAN, or in automatic mode to the usable WAN with the
+   * highest priority, and mark the WAN carrying the route online
+   */
+  private applyRoute(): void {
+    const usable = this.wans
+      .map(({ wan }) => wan)
+      .filter((wan) => isUsable(wan))
+      .sort((a, b) => a.SwitchPriority - b.SwitchPriority);
+
+    let routeType: SnakeWaysRouteType;
+    let carrier: Wan | undefined;
+    let wanId: string;
+
+    if (this.forcedRoute === null) {
+      routeType = SnakeWaysRouteType.AUTOMATIC;
+      carrier = usable[0];
+      wanId = carrier?.WanID ?? this.route.WanID;
+    } else if (this.forcedRoute === 'OFF') {
+      routeType = SnakeWaysRouteType.SWITCH_FORCED_OFF;
+      wanId = '';
+    } else {
+      routeType = SnakeWaysRouteType.SWITCH_FORCED_TO_WAN;
+      carrier = usable.find((wan) => wan.WanID === this.forcedRoute);
+      wanId = this.forcedRoute;
+    }
+
+    for (const wan of usable) {
+      wan.Status = wan === carrier ? WanStatus.ONLINE : WanStatus.READY;
+    }
+
+    this.route = {
+      WanID: wanId,
+      Status: carrier
+        ? SnakeWaysRouteStatus.DEFAULT_ROUTE_SET
+        : SnakeWaysRouteStatus.NO_DEFAULT_ROUTE,
+      RouteType: routeType,
+    };
+  }
+
+  private getCarrier(): SimulatedWan | undefined {
+    if (this.route.Status !== SnakeWaysRouteStatus.DEFAULT_ROUTE_SET) {
+      return undefined;
+    }
+    return this.wans.find(({ wan }) => wan.WanID === this.route.WanID);
+  }
+
+  /**
+   * Send a minute of site traffic over the WAN carrying the route, split over
+   * the LANs and the users on them
+   */
+  private simulateTraffic(carrier: SimulatedWan, time: number): void {
+    const { wan, fixture } = carrier;
+    const demand = PEAK_DEMAND * dayCurve(time) * (0.6 + 0.8 * this.random());
+    const bytes = Math.round(
+      (Math.min(demand, fixture.capacity) * STEP_MS) / 1000,
+    );
+    if (!bytes) return;
+
+    addBytes(currentPeriod(carrier), bytes);
+    wan.UsageBytes += bytes;
+
+    if (
+      wan.UsageLimited === UsageLimitStatus.LIMIT_ENFORCED &&
+      wan.UsageBytes >= wan.UsageMaxBytes
+    ) {
+      wan.Status = WanStatus.QUOTA_REACHED;
+      wan.UsageBlocked = toTimestamp(time);
+      this.logger.log(
+        chalk.yellow(`Simulated WAN ${wan.WanName} reached its quota`),
+      );
+    }
+
+    for (const fixture of LAN_FIXTURES) {
+      const lanBytes = Math.round(bytes * fixture.weight);
+      addBytes(this.getCurrentLanUsage(fixture.LanID, wan, time), lanBytes);
+
+      const users = this.users.filter(
+        (user) =>
+          user.fixture.lanName === fixture.LanName &&
+          Number(user.user.DataCredit) > 0,
+      );
+      for (const user of users) {
+        const userBytes = Math.round(
+          ((lanBytes * USER_TRAFFIC_SHARE) / users.length) * 2 * this.random(),
+        );
+        this.addUserUsage(user, fixture.LanName, userBytes, time);
+      }
+    }
+  }
+
+  private addUserUsage(
+    simulated: SimulatedUser,
+    lanName: string,
+    bytes: number,
+    time: number,
+  ): void {
+    const { user, fixture } = simulated;
+    const used = Math.min(bytes, Number(user.DataCredit));
+    if (!used) return;
+
+    const macs = fixture.clientMacs;
+    const clientMac = macs[Math.floor(this.random() * macs.length)];
+    const startTime = toTimestamp(startOfHour(time).getTime());
+
+    let record = simulated.records.find(
+      (item) =>
+        item.RecordType === RecordType.USAGE &&
+        item.StartTime === startTime &&
+        item.ClientMac === clientMac,
+    );
+    if (!record) {
+      record = {
+        ClientMac: clientMac,
+        CreditDetail: '',
+        StartTime: startTime,
+        EndTime: toTimestamp(addHours(startOfHour(time), 1).getTime()),
+        LanName: lanName,
+        Lastupdate: 0,
+        RX: 0,
+        TX: 0,
+        RecordType: RecordType.USAGE,
+        UserID: user.UserID,
+      };
+      simulated.records.push(record);
+    }
+
+    const rx = Math.round(used * RX_SHARE);
+    record.RX += rx;
+    record.TX += used - rx;
+    record.Lastupdate = toTimestamp(time);
+
+    user.DataCredit = String(Number(user.DataCredit) - used);
+    if (LAN_FIXTURES.find((lan) => lan.LanName === lanName)?.CaptivePortal) {
+      user.PortalConnected = toTimestamp(time);
+    }
+  }
+
+  /**
+   * Current usage record of a LAN on a WAN, started when the LAN first used
+   * the WAN this month
+   */
+  private getCurrentLanUsage(
+    lanId: string,
+    wan: Wan,
+    time: number,
+  ): LanUsageData {
+    let usage = this.lanUsage.find(
+      (item) =>
+        item.LanID === lanId && item.WanID === wan.WanID && item.Endtime === 0,
+    );
+    if (!usage) {
+      usage = {
+        Bytes: 0,
+        RX: 0,
+        TX: 0,
+        Endtime: 0,
+        LanID: lanId,
+        LanName: this.lans.find((lan) => lan.LanID === lanId)!.LanName,
+        Starttime: toTimestamp(time),
+        WanID: wan.WanID,
+        WanName: wan.WanName,
+      };
+      this.lanUsage.push(usage);
+    }
+    return usage;
+  }
+
+  /**
+   * Apply the autocredit of a user at the start of a month
+   */
+  private topUp(simulated: SimulatedUser, monthStart: number): void {
+    const { user, autocredit } = simulated;
+    const timestamp = toTimestamp(monthStart);
+
+    user.DataCredit = String(autocredit.CreditValue);
+    autocredit.LastTopup = timestamp;
+    simulated.records.push({
+      ClientMac: '',
+      CreditDetail: 'Monthly autocredit',
+      StartTime: timestamp,
+      EndTime: timestamp,
+      LanName: '',
+      Lastupdate: timestamp,
+      // The credit set is reported as received bytes
+      RX: autocredit.CreditValue,
+      TX: 0,
+      RecordType: RecordType.AUTOCREDIT,
+      UserID: user.UserID,
+    });
+  }
+
+  /**
+   * A WAN with last month's usage period closed and this month's started
+   */
+  private createWan(fixture: WanFixture, monthStart: number): SimulatedWan {
+    const timestamp = toTimestamp(monthStart);
+    const wan: Wan = {
+      ...WAN_DEFAULTS,
+      WanID: fixture.WanID,
+      WanName: fixture.WanName,
+      InterfaceID: fixture.InterfaceID,
+      IpAddress: fixture.IpAddress,
+      IpGateway: fixture.IpGateway,
+      SwitchPriority: fixture.SwitchPriority,
+      UsageMaxBytes: fixture.UsageMaxBytes,
+      Status: WanStatus.READY,
+      UsageBlocked: 0,
+      UsageBytes: 0,
+      UsageStart: format(monthStart, 'yyyy-MM-dd HH:mm:ss'),
+      UsageStartTimestamp: timestamp,
+    };
+
+    const lastMonth = this.createPeriod(
+      wan,
+      toTimestamp(subMonths(monthStart, 1).getTime()),
+    );
+    addBytes(
+      lastMonth,
+      Math.round(fixture.UsageMaxBytes * fixture.lastMonthUsage),
+    );
+    lastMonth.Endtime = timestamp;
+
+    return {
+      fixture,
+      wan,
+      periods: [lastMonth, this.createPeriod(wan, timestamp)],
+      downUntil: null,
+    };
+  }
+
+  private createPeriod(wan: Wan, starttime: number): WanUsage {
+    return {
+      Bytes: 0,
+      RX: 0,
+      TX: 0,
+      Endtime: 0,
+      MaxBytes: wan.UsageMaxBytes,
+      Name: wan.WanName,
+      Starttime: starttime,
+      WanID: wan.WanID,
+    };
+  }
+
+  private createUser(fixture: UserFixture): SimulatedUser {
+    return {
+      fixture,
+      user: {
+        ...USER_DEFAULTS,
+        UserID: fixture.UserID,
+        Login: fixture.Login,
+        DisplayName: fixture.DisplayName,
+        AccessLevel: fixture.AccessLevel,
+        DataCredit: '0',
+        PortalConnected: 0,
+      },
+      autocredit: {
+        ...AUTOCREDIT_DEFAULTS,
+        UserID: fixture.UserID,
+        LastTopup: 0,
+      },
+      records: [],
+    };
+  }
+
+  private since(days: number): number {
+    return toTimestamp(subDays(this.clock, days).getTime());
+  }
+
+  private getWanName(wanId: string): string {
+    return (
+      this.wans.find(({ wan }) => wan.WanID === wanId)?.wan.WanName || 'no WAN'
+    );
+  }
+}
+
+function currentPeriod(simulated: SimulatedWan): WanUsage {
+  return simulated.periods[simulated.periods.length - 1];
+}
+
+function isUsable(wan: Wan): boolean {
+  return wan.Status === WanStatus.READY || wan.Status === WanStatus.ONLINE;
+}
+
+function addBytes(
+  usage: { Bytes: number; RX?: number; TX?: number },
+  bytes: number,
+): void {
+  const rx = Math.round(bytes * RX_SHARE);
+  usage.Bytes += bytes;
+  usage.RX = (usage.RX ?? 0) + rx;
+  usage.TX = (usage.TX ?? 0) + bytes - rx;
+}
+
+function toTimestamp(time: number): number {
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Share of the peak demand over the day, quiet at night and busiest in the
+ * evening
+ */
+function dayCurve(time: number): number {
+  const hour = getHours(time);
+  return 0.15 + 0.85 * Math.max(0, Math.sin((Math.PI * (hour - 6)) / 17));
+}
+
+/**
+ * Seeded pseudo-random numbers between 0 and 1 (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,72 @@
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+
+const COOLDOWN_MS = 30000;
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+  const start = new Date('2025-08-01T00:00:00Z');
+  const after = (ms: number) => new Date(start.getTime() + ms);
+
+  const trip = () => {
+    jest.useFakeTimers({ now: start });
+    for (let i = 0; i < 3; i++) breaker.onFailure('HTTP 503');
+    jest.useRealTimers();
+  };
+
+  beforeEach(() => {
+    breaker = new CircuitBreaker('/wans', {
+      failureThreshold: 3,
+      cooldownMs: COOLDOWN_MS,
+    });
+  });
+
+  it('opens after the failure threshold', () => {
+    expect(breaker.onFailure('HTTP 503')).toBe(CircuitState.CLOSED);
+    expect(breaker.onFailure('HTTP 503')).toBe(CircuitState.CLOSED);
+    expect(breaker.onFailure('HTTP 503')).toBe(CircuitState.OPEN);
+  });
+
+  it('starts counting over after a success', () => {
+    breaker.onFailure('HTTP 503');
+    breaker.onFailure('HTTP 503');
+    breaker.onSuccess();
+
+    expect(breaker.onFailure('HTTP 503')).toBe(CircuitState.CLOSED);
+  });
+
+  it('refuses requests until the cool-down ends', () => {
+    trip();
+
+    expect(breaker.canRequest(after(COOLDOWN_MS - 1))).toBe(false);
+    expect(breaker.retryAt()).toEqual(after(COOLDOWN_MS));
+  });
+
+  it('lets a single trial through once the cool-down ends', () => {
+    trip();
+
+    expect(breaker.canRequest(after(COOLDOWN_MS))).toBe(true);
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.canRequest(after(COOLDOWN_MS + 1))).toBe(false);
+    // The trial never reported back
+    expect(breaker.canRequest(after(2 * COOLDOWN_MS))).toBe(true);
+  });
+
+  it('closes on a successful trial and opens again on a failed one', () => {
+    trip();
+    breaker.canRequest(after(COOLDOWN_MS));
+    expect(breaker.onSuccess()).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+
+    trip();
+    breaker.canRequest(after(COOLDOWN_MS));
+    expect(breaker.onFailure('HTTP 503')).toBe(CircuitState.OPEN);
+  });
+
+  it('checks without claiming the trial', () => {
+    trip();
+
+    expect(breaker.isRequestAllowed(after(COOLDOWN_MS))).toBe(true);
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(breaker.isRequestAllowed(after(COOLDOWN_MS))).toBe(true);
+  });
+});
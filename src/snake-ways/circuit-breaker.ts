@@ -0,0 +1,150 @@
+export enum CircuitState {
+  /** Requests go through */
+  CLOSED = 'CLOSED',
+  /** Requests are skipped until the cool-down ends */
+  OPEN = 'OPEN',
+  /** Cool-down ended, one trial request decides whether to close again */
+  HALF_OPEN = 'HALF_OPEN',
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the breaker
+  failureThreshold: number;
+  // How long the breaker stays open before letting a trial request through
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  retryAt: Date | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastSuccessAt: Date | null;
+}
+
+/**
+ * Closed/open/half-open breaker for one Snake Ways endpoint, or for the
+ * service as a whole
+ */
+export class CircuitBreaker {
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private trialStartedAt: Date | null = null;
+  private lastError: string | null = null;
+  private lastErrorAt: Date | null = null;
+  private lastSuccessAt: Date | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+  ) {}
+
+  /**
+   * Whether a request may go out now, claiming the trial if it is one. Once
+   * the cool-down is over the first caller gets through as the trial; others
+   * wait for its outcome, unless it never reports back within another
+   * cool-down.
+   */
+  canRequest(now = new Date()): boolean {
+    if (!this.isRequestAllowed(now)) return false;
+
+    this.claimRequest(now);
+    return true;
+  }
+
+  /**
+   * Whether a request may go out now, without claiming the trial
+   */
+  isRequestAllowed(now = new Date()): boolean {
+    if (this.state === CircuitState.CLOSED) return true;
+
+    const since =
+      this.state === CircuitState.OPEN ? this.openedAt : this.trialStartedAt;
+    return !since || now.getTime() - since.getTime() >= this.options.cooldownMs;
+  }
+
+  /**
+   * Claim the trial for a request that is about to go out, only call once
+   * isRequestAllowed agreed
+   */
+  claimRequest(now = new Date()): void {
+    if (this.state === CircuitState.CLOSED) return;
+
+    this.state = CircuitState.HALF_OPEN;
+    this.trialStartedAt = now;
+  }
+
+  /**
+   * @returns The state before the success, to log recoveries
+   */
+  onSuccess(): CircuitState {
+    const previous = this.state;
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialStartedAt = null;
+    this.lastSuccessAt = new Date();
+    return previous;
+  }
+
+  /**
+   * @returns The state after the failure
+   */
+  onFailure(message: string): CircuitState {
+    this.consecutiveFailures++;
+    this.lastError = message;
+    this.lastErrorAt = new Date();
+
+    // A failed trial opens the breaker again right away
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = new Date();
+      this.trialStartedAt = null;
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Close the breaker by hand, e.g. when polling is restarted
+   */
+  reset(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialStartedAt = null;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * When the breaker lets a trial request through, null unless open
+   */
+  retryAt(): Date | null {
+    return this.openedAt && this.state === CircuitState.OPEN
+      ? new Date(this.openedAt.getTime() + this.options.cooldownMs)
+      : null;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: this.retryAt(),
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      lastSuccessAt: this.lastSuccessAt,
+    };
+  }
+}
@@ -0,0 +1 @@
+export * from './snake-ways-health.dto';
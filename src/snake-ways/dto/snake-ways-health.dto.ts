@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CircuitState } from '../circuit-breaker';
+
+export enum SnakeWaysHealthStatus {
+  /** Every breaker is closed */
+  UP = 'UP',
+  /** Snake Ways answers but some endpoints are failing */
+  DEGRADED = 'DEGRADED',
+  /** Snake Ways can't be reached */
+  DOWN = 'DOWN',
+}
+
+export class CircuitBreakerStateDto {
+  @ApiProperty({
+    description: 'Endpoint path, or "service" for Snake Ways as a whole',
+    example: '/route',
+  })
+  name: string;
+
+  @ApiProperty({ enum: CircuitState, example: CircuitState.CLOSED })
+  state: CircuitState;
+
+  @ApiProperty({ example: 0 })
+  consecutiveFailures: number;
+
+  @ApiProperty({ nullable: true, description: 'When the breaker opened' })
+  openedAt: Date | null;
+
+  @ApiProperty({
+    nullable: true,
+    description:
+      'When the breaker lets a trial request through, null unless open',
+  })
+  retryAt: Date | null;
+
+  @ApiProperty({
+    nullable: true,
+    example: 'connect ECONNREFUSED 192.168.77.1:3001',
+  })
+  lastError: string | null;
+
+  @ApiProperty({ nullable: true })
+  lastErrorAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  lastSuccessAt: Date | null;
+}
+
+export class SnakeWaysHealthDto {
+  @ApiProperty({
+    enum: SnakeWaysHealthStatus,
+    example: SnakeWaysHealthStatus.UP,
+  })
+  status: SnakeWaysHealthStatus;
+
+  @ApiProperty({
+    description: 'Breaker for connection failures, shared by every endpoint',
+    type: CircuitBreakerStateDto,
+  })
+  service: CircuitBreakerStateDto;
+
+  @ApiProperty({
+    description:
+      'Breakers for timeouts and server errors, one per endpoint called so far',
+    type: [CircuitBreakerStateDto],
+  })
+  endpoints: CircuitBreakerStateDto[];
+}
@@ -1,12 +1,20 @@
-import { OnModuleDestroy } from '@nestjs/common';
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { SnakeWaysBaseService } from '../snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from '../sync-result';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SyncResource } from 'src/sync/dto';
+import { SyncRunService } from 'src/sync/sync-run.service';
+import { LiveEventsService } from 'src/live/live-events.service';
+import { LiveChannel } from 'src/live/interfaces';
+import { toInterfaceLiveState } from 'src/live/live-state';
 import { ConfigService } from '@nestjs/config';
-import { Subscription } from 'rxjs';
-import { Observable } from 'rxjs';
-import { InterfaceType as PrismaInterfaceType } from '@prisma/client';
+import {
+  InterfaceType as PrismaInterfaceType,
+  NetworkInterface,
+  SyncTrigger,
+} from '@prisma/client';
 import { AxiosRequestConfig } from 'axios';
 const chalk = require('chalk');
 
@@ -85,109 +93,40 @@ export class InterfaceClass {
 }
 
 @Injectable()
-export class SnakeWaysInterfaceService
-  extends SnakeWaysBaseService
-  implements OnModuleInit, OnModuleDestroy
-{
-  private interfacePollingSubscription: Subscription;
-  private interfaceDataStream$: Observable<{
-    interface: InterfaceClass[];
-  } | null>;
-  private pollingActive = false;
-  private pollingIntervalInMins: number;
-
+export class SnakeWaysInterfaceService extends SnakeWaysBaseService {
   constructor(
     protected readonly httpService: HttpService,
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
+    private readonly syncRunService: SyncRunService,
+    private readonly liveEvents: LiveEventsService,
   ) {
-    super(httpService);
+    super(httpService, circuitBreaker, configService);
     // Override logger with this class name
     Object.defineProperty(this, 'logger', {
       value: new Logger(SnakeWaysInterfaceService.name),
     });
-
-    this.pollingIntervalInMins =
-      this.configService.get<number>('SNAKE_WAYS_INTERFACE_POLLING_INTERVAL') ||
-      120;
   }
 
-  async onModuleInit() {
-    // Start polling interfaces on module init
-    this.startPollingInterfaces();
-  }
-
-  private startPollingInterfaces() {
-    if (this.pollingActive) {
-      this.logger.log(
-        chalk.yellow('Interface Polling is already active, not starting again'),
-      );
-      return;
-    }
-
-    this.pollingActive = true;
-
-    this.logger.log(
-      chalk.blue.bold(
-        `Starting to poll interfaces from Snake Ways every ${this.pollingIntervalInMins} minutes`,
-      ),
-    );
-
-    this.interfaceDataStream$ = this.createPollingObservable<{
-      interface: InterfaceClass[];
-    }>(
+  /**
+   * Fetch the interfaces from Snake Ways and store them, run by the sync
+   * orchestrator
+   */
+  async sync(): Promise<SyncResult> {
+    const response = await this.poll<{ interface: InterfaceClass[] }>(
       '/interface',
-      this.pollingIntervalInMins * 1000, // Convert minutes to milliseconds
     );
-
-    this.interfacePollingSubscription = this.interfaceDataStream$.subscribe({
-      next: async (data) => {
-        if (data?.interface) {
-          await this.syncInterfacesWithDatabase(data.interface);
-        }
-      },
-      error: (error) => {
-        // This should rarely be called since we're catching errors in the observable
-        this.logger.error(
-          chalk.red.bold('Unexpected error in interface polling subscription'),
-          error,
-        );
-        // Don't set pollingActive to false here to allow retries
-        // Instead, log that we'll try to recover
-        this.logger.warn(
-          chalk.yellow.bold('Attempting to recover from polling error'),
-        );
-      },
-      complete: () => {
-        this.logger.warn(
-          chalk.yellow.bold(
-            'Polling interfaces from Snake Ways completed or stopped due to max failures',
-          ),
-        );
-        this.pollingActive = false;
-      },
-    });
-  }
-
-  public async restartPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(
-        chalk.blue.bold('Attempting to restart interface polling'),
-      );
-      // Reset the service availability status
-      this.resetServiceAvailability();
-      // Reset the consecutive failures counter for this endpoint
-      this.resetConsecutiveFailures('/interface');
-      // Start polling again
-      this.startPollingInterfaces();
-      return true;
+    if (!response?.interface) {
+      throw new Error('No interfaces returned from Snake Ways');
     }
-    return false;
+
+    return await this.syncInterfacesWithDatabase(response.interface);
   }
 
   private async syncInterfacesWithDatabase(
     snakeWaysInterfaces: InterfaceClass[],
-  ) {
+  ): Promise<SyncResult> {
     try {
       this.logger.log(
         chalk.cyan(
@@ -195,34 +134,52 @@ export class SnakeWaysInterfaceService
         ),
       );
 
+      const result = emptySyncResult(snakeWaysInterfaces.length);
+      const existingIds = new Set(
+        (
+          await this.prismaService.networkInterface.findMany({
+            select: { interfaceId: true },
+          })
+        ).map((networkInterface) => networkInterface.interfaceId),
+      );
+
+      const interfaces: NetworkInterface[] = [];
       for (const swInterface of snakeWaysInterfaces) {
         // Map Snake Ways interface type to Prisma enum
         const interfaceType = this.mapInterfaceType(swInterface.Type);
 
         // Upsert the interface
-        await this.prismaService.networkInterface.upsert({
-          where: {
-            interfaceId: swInterface.InterfaceID,
-          },
-          update: {
-            name: swInterface.Name,
-            status: swInterface.Status,
-            type: interfaceType,
-            port: swInterface.Port,
-            vlanId: swInterface.VlanID,
-            updatedAt: new Date(),
-          },
-          create: {
-            interfaceId: swInterface.InterfaceID,
-            name: swInterface.Name,
-            status: swInterface.Status,
-            type: interfaceType,
-            port: swInterface.Port,
-            vlanId: swInterface.VlanID,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          },
-        });
+        const networkInterface =
+          await this.prismaService.networkInterface.upsert({
+            where: {
+              interfaceId: swInterface.InterfaceID,
+            },
+            update: {
+              name: swInterface.Name,
+              status: swInterface.Status,
+              type: interfaceType,
+              port: swInterface.Port,
+              vlanId: swInterface.VlanID,
+              updatedAt: new Date(),
+            },
+            create: {
+              interfaceId: swInterface.InterfaceID,
+              name: swInterface.Name,
+              status: swInterface.Status,
+              type: interfaceType,
+              port: swInterface.Port,
+              vlanId: swInterface.VlanID,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            },
+          });
+
+        interfaces.push(networkInterface);
+        if (existingIds.has(swInterface.InterfaceID)) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
 
         this.logger.log(
           chalk.green(
@@ -230,11 +187,18 @@ export class SnakeWaysInterfaceService
           ),
         );
       }
+      this.liveEvents.publish(
+        LiveChannel.INTERFACE,
+        interfaces.map(toInterfaceLiveState),
+        { key: LiveChannel.INTERFACE },
+      );
       this.logger.log(
         chalk.green.bold(`Interface sync completed successfully`),
       );
+      return result;
     } catch (error) {
       this.logger.error('Failed to sync interfaces with database', error);
+      throw error;
     }
   }
 
@@ -331,8 +295,12 @@ export class SnakeWaysInterfaceService
         return 0;
       }
 
-      // Perform synchronization
-      await this.syncInterfacesWithDatabase(response.interface);
+      // Perform synchronization, recorded as a manual sync run
+      await this.syncRunService.track(
+        SyncResource.INTERFACES,
+        SyncTrigger.MANUAL,
+        () => this.syncInterfacesWithDatabase(response.interface),
+      );
 
       this.logger.log(
         chalk.green.bold(
@@ -346,12 +314,4 @@ export class SnakeWaysInterfaceService
       throw new Error(`Force synchronization failed: ${error.message}`);
     }
   }
-
-  onModuleDestroy() {
-    if (this.interfacePollingSubscription) {
-      this.logger.log(chalk.blue('Stopping interface polling'));
-      this.interfacePollingSubscription.unsubscribe();
-      this.pollingActive = false;
-    }
-  }
 }
@@ -1,11 +1,13 @@
-import { OnModuleDestroy } from '@nestjs/common';
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { SnakeWaysBaseService } from '../snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from '../sync-result';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SyncTrigger } from '@prisma/client';
+import { SyncResource } from 'src/sync/dto';
+import { SyncRunService } from 'src/sync/sync-run.service';
 import { ConfigService } from '@nestjs/config';
-import { Subscription } from 'rxjs';
-import { Observable } from 'rxjs';
 import { AxiosRequestConfig } from 'axios';
 import {
   endOfDay,
@@ -27,6 +29,10 @@ const chalk = require('chalk');
 export class LanUsageData {
   /** Bytes used by this LAN */
   Bytes: number;
+  /** Bytes received (downloaded), only present when Snake Ways reports the split */
+  RX?: number;
+  /** Bytes transmitted (uploaded), only present when Snake Ways reports the split */
+  TX?: number;
   /** End time as unix timestamp (0 if still active) */
   Endtime: number;
   /** LAN ID (32 byte hex string) */
@@ -66,109 +72,37 @@ export interface AggregatedLanUsage {
 }
 
 @Injectable()
-export class SnakeWaysLanUsageService
-  extends SnakeWaysBaseService
-  implements OnModuleInit, OnModuleDestroy
-{
-  private lanUsagePollingSubscription: Subscription;
-  private lanUsageDataStream$: Observable<{ lanusage: LanUsageData[] } | null>;
-  private pollingActive = false;
-  private pollingIntervalInMins: number;
-
+export class SnakeWaysLanUsageService extends SnakeWaysBaseService {
   constructor(
     protected readonly httpService: HttpService,
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
+    private readonly syncRunService: SyncRunService,
   ) {
-    super(httpService);
+    super(httpService, circuitBreaker, configService);
     // Override logger with this class name
     Object.defineProperty(this, 'logger', {
       value: new Logger(SnakeWaysLanUsageService.name),
     });
-
-    this.pollingIntervalInMins =
-      this.configService.get<number>('SNAKE_WAYS_LAN_USAGE_POLLING_INTERVAL') ||
-      60;
   }
 
-  async onModuleInit() {
-    // Start polling LAN usage on module init
-    setTimeout(() => {
-      this.logger.log(
-        chalk.blue(
-          'Starting LAN polling with delayed start (after interfaces)',
-        ),
-      );
-      this.startPollingLanUsage();
-    }, 5000);
-  }
-
-  private startPollingLanUsage() {
-    if (this.pollingActive) {
-      this.logger.log(
-        chalk.yellow('LAN Usage Polling is already active, not starting again'),
-      );
-      return;
+  /**
+   * Fetch the LAN usage from Snake Ways and store it, run by the sync
+   * orchestrator once the LANs and WANs it belongs to are synced
+   */
+  async sync(): Promise<SyncResult> {
+    const response = await this.poll<{ lanusage: LanUsageData[] }>('/lanusage');
+    if (!response?.lanusage) {
+      throw new Error('No LAN usage records returned from Snake Ways');
     }
 
-    this.pollingActive = true;
-
-    this.logger.log(
-      chalk.blue.bold(
-        `Starting to poll LAN usage from Snake Ways every ${this.pollingIntervalInMins} minutes`,
-      ),
-    );
-
-    this.lanUsageDataStream$ = this.createPollingObservable<{
-      lanusage: LanUsageData[];
-    }>('/lanusage', this.pollingIntervalInMins * 1000); // Convert minutes to milliseconds
-
-    this.lanUsagePollingSubscription = this.lanUsageDataStream$.subscribe({
-      next: async (data) => {
-        if (data?.lanusage) {
-          await this.syncLanUsageWithDatabase(data.lanusage);
-        }
-      },
-      error: (error) => {
-        // This should rarely be called since we're catching errors in the observable
-        this.logger.error(
-          chalk.red.bold('Unexpected error in LAN usage polling subscription'),
-          error,
-        );
-        // Don't set pollingActive to false here to allow retries
-        // Instead, log that we'll try to recover
-        this.logger.warn(
-          chalk.yellow.bold('Attempting to recover from polling error'),
-        );
-      },
-      complete: () => {
-        this.logger.warn(
-          chalk.yellow.bold(
-            'Polling LAN usage from Snake Ways completed or stopped due to max failures',
-          ),
-        );
-        this.pollingActive = false;
-      },
-    });
+    return await this.syncLanUsageWithDatabase(response.lanusage);
   }
 
-  public async restartPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(
-        chalk.blue.bold('Attempting to restart LAN usage polling'),
-      );
-      // Reset the service availability status
-      this.resetServiceAvailability();
-      // Reset the consecutive failures counter for this endpoint
-      this.resetConsecutiveFailures('/lanusage');
-      // Start polling again
-      this.startPollingLanUsage();
-      return true;
-    }
-    return false;
-  }
-
-  private async syncLanUsageWithDatabase(lanUsageData: LanUsageData[]) {
+  private async syncLanUsageWithDatabase(
+    lanUsageData: LanUsageData[],
+  ): Promise<SyncResult> {
     try {
       this.logger.log(
         chalk.cyan(
@@ -176,6 +110,7 @@ export class SnakeWaysLanUsageService
         ),
       );
 
+      const result = emptySyncResult(lanUsageData.length);
       const today = new Date();
       const startOfToday = startOfDay(today);
 
@@ -192,6 +127,7 @@ export class SnakeWaysLanUsageService
               `LAN with ID ${usage.LanID} not found in database, skipping usage record`,
             ),
           );
+          result.skipped++;
           continue;
         }
 
@@ -206,6 +142,7 @@ export class SnakeWaysLanUsageService
               `WAN with ID ${usage.WanID} not found in database, skipping usage record`,
             ),
           );
+          result.skipped++;
           continue;
         }
 
@@ -232,6 +169,8 @@ export class SnakeWaysLanUsageService
               lanId: lan.id,
               wanId: wan.id,
               bytes: BigInt(usage.Bytes),
+              rxBytes: BigInt(usage.RX ?? 0),
+              txBytes: BigInt(usage.TX ?? 0),
               startTime,
               endTime,
               snapshotDate: today,
@@ -240,6 +179,7 @@ export class SnakeWaysLanUsageService
             },
           });
 
+          result.created++;
           this.logger.log(
             chalk.green.bold(
               `Created LAN usage snapshot for ${usage.LanName} on ${usage.WanName}`,
@@ -251,6 +191,8 @@ export class SnakeWaysLanUsageService
             where: { id: existingSnapshot.id },
             data: {
               bytes: BigInt(usage.Bytes),
+              rxBytes: BigInt(usage.RX ?? 0),
+              txBytes: BigInt(usage.TX ?? 0),
               startTime,
               endTime,
               updatedAt: new Date(),
@@ -258,6 +200,7 @@ export class SnakeWaysLanUsageService
             },
           });
 
+          result.updated++;
           this.logger.log(
             chalk.green(
               `Updated LAN usage snapshot for ${usage.LanName} on ${usage.WanName}`,
@@ -269,8 +212,10 @@ export class SnakeWaysLanUsageService
       this.logger.log(
         chalk.green.bold(`LAN usage sync completed successfully`),
       );
+      return result;
     } catch (error) {
       this.logger.error('Failed to sync LAN usage with database', error);
+      throw error;
     }
   }
 
@@ -319,8 +264,11 @@ export class SnakeWaysLanUsageService
     );
     try {
       // Fetch latest LAN usage from Snake Ways
+      // The full history takes Snake Ways a while to put together
       const response = await this.get<{ lanusage: LanUsageData[] }>(
         '/lanusage',
+        undefined,
+        { timeoutMs: 30000 },
       );
 
       if (!response?.lanusage) {
@@ -332,8 +280,12 @@ export class SnakeWaysLanUsageService
         return 0;
       }
 
-      // Perform synchronization
-      await this.syncLanUsageWithDatabase(response.lanusage);
+      // Perform synchronization, recorded as a manual sync run
+      await this.syncRunService.track(
+        SyncResource.LAN_USAGE,
+        SyncTrigger.MANUAL,
+        () => this.syncLanUsageWithDatabase(response.lanusage),
+      );
 
       this.logger.log(
         chalk.green.bold(
@@ -495,12 +447,4 @@ export class SnakeWaysLanUsageService
 
     return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
   }
-
-  onModuleDestroy() {
-    if (this.lanUsagePollingSubscription) {
-      this.logger.log(chalk.blue('Stopping LAN usage polling'));
-      this.lanUsagePollingSubscription.unsubscribe();
-      this.pollingActive = false;
-    }
-  }
 }
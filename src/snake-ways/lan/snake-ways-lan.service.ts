@@ -1,13 +1,14 @@
-import { OnModuleDestroy } from '@nestjs/common';
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { SnakeWaysBaseService } from '../snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from '../sync-result';
 import { ApiProperty } from '@nestjs/swagger';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SyncResource } from 'src/sync/dto';
+import { SyncRunService } from 'src/sync/sync-run.service';
 import { ConfigService } from '@nestjs/config';
-import { Subscription } from 'rxjs';
-import { Observable } from 'rxjs';
-import { Lan as PrismaLan } from '@prisma/client';
+import { Lan as PrismaLan, SyncTrigger } from '@prisma/client';
 import {
   LanEntity,
   InterfaceData,
@@ -153,109 +154,38 @@ export class Lan {
 }
 
 @Injectable()
-export class SnakeWaysLanService
-  extends SnakeWaysBaseService
-  implements OnModuleInit, OnModuleDestroy
-{
-  private lanPollingSubscription: Subscription;
-  private lanDataStream$: Observable<{ lan: Lan[] } | null>;
-  private pollingActive = false;
-  private pollingIntervalInMins: number;
-
+export class SnakeWaysLanService extends SnakeWaysBaseService {
   constructor(
     protected readonly httpService: HttpService,
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
+    private readonly syncRunService: SyncRunService,
     private readonly interfaceService: SnakeWaysInterfaceService,
   ) {
-    super(httpService);
+    super(httpService, circuitBreaker, configService);
     // Override logger with this class name
     Object.defineProperty(this, 'logger', {
       value: new Logger(SnakeWaysLanService.name),
     });
-
-    this.pollingIntervalInMins =
-      this.configService.get<number>('SNAKE_WAYS_LAN_POLLING_INTERVAL') || 100;
   }
 
-  async onModuleInit() {
-    // Delay LAN polling to ensure network interfaces are initialized first
-    // Give interface service a head start (5 seconds) before starting LAN polling
-    setTimeout(() => {
-      this.logger.log(
-        chalk.blue(
-          'Starting LAN polling with delayed start (after interfaces)',
-        ),
-      );
-      this.startPollingLans();
-    }, 5000);
-  }
-
-  private startPollingLans() {
-    if (this.pollingActive) {
-      this.logger.log(
-        chalk.yellow('LAN Polling is already active, not starting again'),
-      );
-      return;
+  /**
+   * Fetch the LANs from Snake Ways and store them, run by the sync
+   * orchestrator once the interfaces they use are synced
+   */
+  async sync(): Promise<SyncResult> {
+    const response = await this.poll<{ lan: Lan[] }>('/lan');
+    if (!response?.lan) {
+      throw new Error('No LANs returned from Snake Ways');
     }
 
-    this.pollingActive = true;
-
-    this.logger.log(
-      chalk.blue.bold(
-        `Starting to poll LANs from Snake Ways every ${this.pollingIntervalInMins} minutes`,
-      ),
-    );
-
-    this.lanDataStream$ = this.createPollingObservable<{ lan: Lan[] }>(
-      '/lan',
-      this.pollingIntervalInMins * 1000, // Convert minutes to milliseconds
-    );
-
-    this.lanPollingSubscription = this.lanDataStream$.subscribe({
-      next: async (data) => {
-        if (data?.lan) {
-          await this.syncLansWithDatabase(data.lan);
-        }
-      },
-      error: (error) => {
-        // This should rarely be called since we're catching errors in the observable
-        this.logger.error(
-          chalk.red.bold('Unexpected error in LAN polling subscription'),
-          error,
-        );
-        // Don't set pollingActive to false here to allow retries
-        // Instead, log that we'll try to recover
-        this.logger.warn(
-          chalk.yellow.bold('Attempting to recover from polling error'),
-        );
-      },
-      complete: () => {
-        this.logger.warn(
-          chalk.yellow.bold(
-            'Polling LANs from Snake Ways completed or stopped due to max failures',
-          ),
-        );
-        this.pollingActive = false;
-      },
-    });
-  }
-
-  public async restartPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(chalk.blue.bold('Attempting to restart LAN polling'));
-      // Reset the service availability status
-      this.resetServiceAvailability();
-      // Reset the consecutive failures counter for this endpoint
-      this.resetConsecutiveFailures('/lan');
-      // Start polling again
-      this.startPollingLans();
-      return true;
-    }
-    return false;
+    return await this.syncLansWithDatabase(response.lan);
   }
 
-  private async syncLansWithDatabase(snakeWaysLans: Lan[]) {
+  private async syncLansWithDatabase(
+    snakeWaysLans: Lan[],
+  ): Promise<SyncResult> {
     try {
       this.logger.log(
         chalk.cyan(
@@ -263,6 +193,13 @@ export class SnakeWaysLanService
         ),
       );
 
+      const result = emptySyncResult(snakeWaysLans.length);
+      const existingIds = new Set(
+        (await this.prismaService.lan.findMany({ select: { id: true } })).map(
+          (lan) => lan.id,
+        ),
+      );
+
       for (const swLan of snakeWaysLans) {
         // Transform the Snake Ways LAN to Prisma format
         const upsertData = this.transformToPrismaLan(swLan);
@@ -273,13 +210,21 @@ export class SnakeWaysLanService
         // Now handle the interfaces for this LAN
         await this.syncLanInterfaces(lan.id, swLan.Interface);
 
+        if (existingIds.has(lan.id)) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+
         this.logger.log(
           chalk.green(`Synced Prisma LAN: ${lan.lanName} (${lan.id})`),
         );
       }
       this.logger.log(chalk.green.bold(`LAN sync completed successfully`));
+      return result;
     } catch (error) {
       this.logger.error('Failed to sync LANs with database', error);
+      throw error;
     }
   }
 
@@ -394,8 +339,8 @@ export class SnakeWaysLanService
    */
   async getAllLans(): Promise<Lan[]> {
     try {
-      const lans = await this.get<Lan[]>('/lan');
-      return lans || [];
+      const response = await this.get<{ lan: Lan[] }>('/lan');
+      return response?.lan || [];
     } catch (error) {
       this.logger.error('Failed to get LAN connections', error);
       throw new Error(`Failed to get LAN connections: ${error.message}`);
@@ -450,8 +395,12 @@ export class SnakeWaysLanService
         return { count: prismaLans.length, lans: prismaLans };
       }
 
-      // Perform synchronization
-      await this.syncLansWithDatabase(response.lan);
+      // Perform synchronization, recorded as a manual sync run
+      await this.syncRunService.track(
+        SyncResource.LANS,
+        SyncTrigger.MANUAL,
+        () => this.syncLansWithDatabase(response.lan),
+      );
 
       this.logger.log(
         chalk.green.bold(
@@ -468,14 +417,6 @@ export class SnakeWaysLanService
     }
   }
 
-  onModuleDestroy() {
-    if (this.lanPollingSubscription) {
-      this.logger.log(chalk.blue('Stopping LAN polling'));
-      this.lanPollingSubscription.unsubscribe();
-      this.pollingActive = false;
-    }
-  }
-
   transformToLanEntities(swLans: Lan[]) {
     const lans: LanEntity[] = [];
 
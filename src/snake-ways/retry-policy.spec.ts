@@ -0,0 +1,57 @@
+import { RetryPolicy, getRetryDelay, isRetryableError } from './retry-policy';
+
+const policy: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  multiplier: 2,
+};
+
+describe('isRetryableError', () => {
+  it('retries any request that never reached Snake Ways', () => {
+    expect(isRetryableError({ code: 'ECONNREFUSED' }, false)).toBe(true);
+    expect(isRetryableError({ code: 'EHOSTUNREACH' }, true)).toBe(true);
+  });
+
+  it('only retries idempotent requests that may have reached Snake Ways', () => {
+    const errors = [
+      { code: 'ECONNRESET' },
+      { name: 'TimeoutError' },
+      { response: { status: 503 } },
+    ];
+
+    for (const error of errors) {
+      expect(isRetryableError(error, true)).toBe(true);
+      expect(isRetryableError(error, false)).toBe(false);
+    }
+  });
+
+  it("doesn't retry client and server errors that won't go away", () => {
+    expect(isRetryableError({ response: { status: 400 } }, true)).toBe(false);
+    expect(isRetryableError({ response: { status: 500 } }, true)).toBe(false);
+    expect(isRetryableError({ code: 'ENOTFOUND' }, true)).toBe(false);
+    expect(isRetryableError(undefined, true)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('backs off exponentially between half and all of the backoff', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(0, policy)).toBe(250);
+    expect(getRetryDelay(2, policy)).toBe(1000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getRetryDelay(0, policy)).toBe(500);
+    expect(getRetryDelay(2, policy)).toBe(2000);
+  });
+
+  it('caps the backoff at the maximum delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+
+    expect(getRetryDelay(10, policy)).toBe(5000);
+  });
+});
@@ -0,0 +1,71 @@
+export interface RetryPolicy {
+  // Retries after the first attempt, 0 to never retry
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+}
+
+export interface SnakeWaysRequestOptions {
+  // Overrides SNAKE_WAYS_TIMEOUT for this call
+  timeoutMs?: number;
+  // Overrides the configured retry policy for this call, false to not retry
+  retry?: Partial<RetryPolicy> | false;
+  // Whether repeating the request has the same effect as sending it once.
+  // GETs are; writes are only retried when it's certain Snake Ways never got
+  // them, unless marked idempotent
+  idempotent?: boolean;
+  // Identical calls made while one with the same key is in flight share its
+  // result instead of sending the request again
+  idempotencyKey?: string;
+}
+
+// The connection was never made, so Snake Ways didn't get the request
+const NOT_SENT_ERROR_CODES = [
+  'ECONNREFUSED',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+];
+
+// The request may or may not have reached Snake Ways
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ERR_NETWORK',
+];
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * Whether a failed request is worth sending again
+ * @param error Axios error, or the rxjs TimeoutError of the request timeout
+ * @param idempotent Whether the request can safely reach Snake Ways twice
+ */
+export function isRetryableError(error: any, idempotent: boolean): boolean {
+  const code: string | undefined = error?.code;
+
+  if (code && NOT_SENT_ERROR_CODES.includes(code)) return true;
+  if (!idempotent) return false;
+
+  if (error?.name === 'TimeoutError') return true;
+  if (code && TRANSIENT_ERROR_CODES.includes(code)) return true;
+
+  const status: number | undefined = error?.response?.status;
+  return !!status && RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Exponential backoff with jitter: somewhere between half and all of the
+ * backoff, so services retrying after the same outage don't retry in step
+ * @param attempt Number of the retry, from 0
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(policy.multiplier, attempt),
+  );
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
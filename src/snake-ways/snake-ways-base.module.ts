@@ -3,6 +3,8 @@ import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { SnakeWaysBaseService } from './snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from './snake-ways-circuit-breaker.service';
+import { SnakeWaysHealthController } from './snake-ways-health.controller';
 import { SnakeWaysUserService } from './user/snake-ways-user.service';
 import * as https from 'https';
 import { SnakeWaysWanService } from './wan/snake-ways-wan.service';
@@ -32,7 +34,9 @@ import { SnakeWaysLanUsageService } from './lan-usage/snake-ways-lan-usage.servi
       }),
     }),
   ],
+  controllers: [SnakeWaysHealthController],
   providers: [
+    SnakeWaysCircuitBreakerService,
     SnakeWaysBaseService,
     SnakeWaysUserService,
     SnakeWaysWanService,
@@ -42,6 +46,7 @@ import { SnakeWaysLanUsageService } from './lan-usage/snake-ways-lan-usage.servi
     SnakeWaysLanUsageService,
   ],
   exports: [
+    SnakeWaysCircuitBreakerService,
     SnakeWaysBaseService,
     SnakeWaysUserService,
     SnakeWaysWanService,
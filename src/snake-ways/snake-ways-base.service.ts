@@ -1,30 +1,44 @@
 // src/external-service/external-base.service.ts
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Observable, catchError, firstValueFrom, of, timeout } from 'rxjs';
+import { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { SnakeWaysCircuitBreakerService } from './snake-ways-circuit-breaker.service';
 import {
-  Observable,
-  catchError,
-  firstValueFrom,
-  interval,
-  map,
-  of,
-  startWith,
-  switchMap,
-  takeWhile,
-  timeout,
-} from 'rxjs';
-import { AxiosError, AxiosRequestConfig } from 'axios';
+  RetryPolicy,
+  SnakeWaysRequestOptions,
+  getRetryDelay,
+  isRetryableError,
+} from './retry-policy';
 
 @Injectable()
 export class SnakeWaysBaseService {
   protected readonly logger = new Logger(SnakeWaysBaseService.name);
-  // Keep serviceAvailable but only use it for diagnostic purposes and one-time requests
-  private serviceAvailable = true;
-  private consecutiveFailuresMap: Map<string, number> = new Map();
-  private readonly maxConsecutiveFailures = 10;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly requestTimeoutMs: number;
+  private readonly pollingTimeoutMs: number;
+  // Requests with an idempotency key that haven't finished yet
+  private readonly inFlight = new Map<string, Promise<unknown>>();
 
-  constructor(protected readonly httpService: HttpService) {
-    // Check service availability on startup - just for diagnostic purposes
+  constructor(
+    protected readonly httpService: HttpService,
+    // Shared by every Snake Ways service, decides whether requests go out
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
+    config: ConfigService,
+  ) {
+    this.retryPolicy = {
+      maxRetries: Number(config.get('SNAKE_WAYS_MAX_RETRIES') ?? 3),
+      baseDelayMs: Number(config.get('SNAKE_WAYS_BASE_RETRY_DELAY')) || 1000,
+      maxDelayMs: Number(config.get('SNAKE_WAYS_MAX_RETRY_DELAY')) || 30000,
+      multiplier: Number(config.get('SNAKE_WAYS_RETRY_DELAY_MULTIPLIER')) || 2,
+    };
+    this.requestTimeoutMs = Number(config.get('SNAKE_WAYS_TIMEOUT')) || 4000;
+    this.pollingTimeoutMs =
+      Number(config.get('SNAKE_WAYS_POLLING_TIMEOUT')) || 3000;
+
+    // Check service availability on startup - just for diagnostic purposes,
+    // it doesn't count towards the circuit breaker
     this.checkServiceAvailability();
   }
 
@@ -36,13 +50,11 @@ export class SnakeWaysBaseService {
     try {
       await firstValueFrom(
         this.httpService.get('/').pipe(
-          timeout(3000),
+          timeout(this.pollingTimeoutMs),
           catchError((error) => {
             if (error.code === 'ECONNREFUSED') {
-              this.serviceAvailable = false;
-              this.incrementConsecutiveFailures('/');
               this.logger.warn(
-                `Snake Ways service connection refused at ${error.config?.baseURL || 'the configured URL'}. Some features may be limited. Consecutive failures: ${this.getConsecutiveFailures('/')}/${this.maxConsecutiveFailures}`,
+                `Snake Ways service connection refused at ${error.config?.baseURL || 'the configured URL'}. Some features may be limited. Circuit breaker: ${this.circuitBreaker.describe()}`,
               );
             } else if (
               error.code === 'DEPTH_ZERO_SELF_SIGNED_CERT' ||
@@ -52,13 +64,9 @@ export class SnakeWaysBaseService {
               this.logger.warn(
                 'SSL certificate validation issue, but continuing anyway due to httpsAgent configuration.',
               );
-              this.serviceAvailable = true; // We're still considering the service available
-              this.resetConsecutiveFailures('/');
             } else {
-              this.serviceAvailable = false;
-              this.incrementConsecutiveFailures('/');
               this.logger.warn(
-                `Snake Ways service is not currently available. Error: ${error.message}. Some features may be limited. Consecutive failures: ${this.getConsecutiveFailures('/')}/${this.maxConsecutiveFailures}`,
+                `Snake Ways service is not currently available. Error: ${error.message}. Some features may be limited. Circuit breaker: ${this.circuitBreaker.describe()}`,
               );
             }
             return of({ data: null });
@@ -66,96 +74,40 @@ export class SnakeWaysBaseService {
         ),
       );
     } catch (error) {
-      this.serviceAvailable = false;
-      this.incrementConsecutiveFailures('/');
       this.logger.warn(
-        `Snake Ways service is not available. Error: ${error instanceof Error ? error.message : 'Unknown error'}. Some features may be limited. Consecutive failures: ${this.getConsecutiveFailures('/')}/${this.maxConsecutiveFailures}`,
-      );
-    }
-  }
-
-  /**
-   * Get the consecutive failures count for a specific endpoint
-   */
-  protected getConsecutiveFailures(endpoint: string): number {
-    return this.consecutiveFailuresMap.get(endpoint) || 0;
-  }
-
-  /**
-   * Increment the consecutive failures counter for a specific endpoint
-   */
-  protected incrementConsecutiveFailures(endpoint: string): void {
-    const currentFailures = this.getConsecutiveFailures(endpoint);
-    this.consecutiveFailuresMap.set(endpoint, currentFailures + 1);
-  }
-
-  /**
-   * Reset the consecutive failures counter for a specific endpoint when service becomes available
-   */
-  protected resetConsecutiveFailures(endpoint: string): void {
-    const currentFailures = this.getConsecutiveFailures(endpoint);
-    if (currentFailures > 0) {
-      this.logger.log(
-        `Resetting consecutive failures counter for ${endpoint} from ${currentFailures} to 0`,
+        `Snake Ways service is not available. Error: ${error instanceof Error ? error.message : 'Unknown error'}. Some features may be limited. Circuit breaker: ${this.circuitBreaker.describe()}`,
       );
-      this.consecutiveFailuresMap.set(endpoint, 0);
     }
   }
 
   /**
-   * Reset service availability status
-   * This should be called when attempting to restart polling
+   * Check the circuit breaker before a one-time request
+   * @returns false, with a warning, if the request should be skipped
    */
-  protected resetServiceAvailability(): void {
-    if (!this.serviceAvailable) {
-      this.logger.log(
-        'Resetting service availability status from unavailable to available',
-      );
-      this.serviceAvailable = true;
-    }
-  }
+  private allowRequest(method: string, endpoint: string): boolean {
+    if (this.circuitBreaker.canRequest(endpoint)) return true;
 
-  /**
-   * Check if we should stop polling due to too many consecutive failures for a specific endpoint
-   */
-  protected shouldStopPolling(endpoint: string): boolean {
-    return this.getConsecutiveFailures(endpoint) >= this.maxConsecutiveFailures;
+    this.logger.warn(
+      `${method} ${endpoint} skipped: Snake Ways circuit breaker is open until ${this.circuitBreaker.retryAt(endpoint)?.toISOString()}`,
+    );
+    return false;
   }
 
   /**
    * Perform a GET request to the external service
-   * For one-time requests, we still check serviceAvailable to avoid unnecessary network calls
+   * Returns null without calling Snake Ways while the circuit breaker is open
    */
   protected async get<T>(
     endpoint: string,
     config?: AxiosRequestConfig,
+    options: SnakeWaysRequestOptions = {},
   ): Promise<T | null> {
-    // For one-time requests, still check serviceAvailable to avoid unnecessary network calls
-    if (!this.serviceAvailable) {
-      this.logger.warn(
-        `GET ${endpoint} skipped: Service unavailable. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-      );
-      return null;
-    }
-
-    try {
-      const { data } = await firstValueFrom(
-        this.httpService.get<T>(endpoint, config).pipe(
-          timeout(4000),
-          catchError((error: AxiosError) => {
-            this.handleError('GET', endpoint, error);
-            return of({ data: null as T });
-          }),
-        ),
-      );
-
-      // If we get here, the request succeeded
-      this.resetConsecutiveFailures(endpoint);
-      return data;
-    } catch (error) {
-      this.logger.error(`Failed GET request to ${endpoint}`);
-      throw error;
-    }
+    return this.send(
+      'GET',
+      endpoint,
+      () => this.httpService.get<T>(endpoint, config),
+      { idempotent: true, ...options },
+    );
   }
 
   /**
@@ -165,33 +117,14 @@ export class SnakeWaysBaseService {
     endpoint: string,
     payload: any,
     config?: AxiosRequestConfig,
+    options: SnakeWaysRequestOptions = {},
   ): Promise<T | null> {
-    // For one-time requests, still check serviceAvailable to avoid unnecessary network calls
-    if (!this.serviceAvailable) {
-      this.logger.warn(
-        `POST ${endpoint} skipped: Service unavailable. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-      );
-      return null;
-    }
-
-    try {
-      const { data } = await firstValueFrom(
-        this.httpService.post<T>(endpoint, payload, config).pipe(
-          timeout(4000),
-          catchError((error: AxiosError) => {
-            this.handleError('POST', endpoint, error);
-            return of({ data: null as T });
-          }),
-        ),
-      );
-
-      // If we get here, the request succeeded
-      this.resetConsecutiveFailures(endpoint);
-      return data;
-    } catch (error) {
-      this.logger.error(`Failed POST request to ${endpoint}`);
-      throw error;
-    }
+    return this.send(
+      'POST',
+      endpoint,
+      () => this.httpService.post<T>(endpoint, payload, config),
+      options,
+    );
   }
 
   /**
@@ -201,33 +134,14 @@ export class SnakeWaysBaseService {
     endpoint: string,
     payload: any,
     config?: AxiosRequestConfig,
+    options: SnakeWaysRequestOptions = {},
   ): Promise<T | null> {
-    // For one-time requests, still check serviceAvailable to avoid unnecessary network calls
-    if (!this.serviceAvailable) {
-      this.logger.warn(
-        `PUT ${endpoint} skipped: Service unavailable. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-      );
-      return null;
-    }
-
-    try {
-      const { data } = await firstValueFrom(
-        this.httpService.put<T>(endpoint, payload, config).pipe(
-          timeout(4000),
-          catchError((error: AxiosError) => {
-            this.handleError('PUT', endpoint, error);
-            return of({ data: null as T });
-          }),
-        ),
-      );
-
-      // If we get here, the request succeeded
-      this.resetConsecutiveFailures(endpoint);
-      return data;
-    } catch (error) {
-      this.logger.error(`Failed PUT request to ${endpoint}`);
-      throw error;
-    }
+    return this.send(
+      'PUT',
+      endpoint,
+      () => this.httpService.put<T>(endpoint, payload, config),
+      options,
+    );
   }
 
   /**
@@ -236,148 +150,130 @@ export class SnakeWaysBaseService {
   protected async delete<T>(
     endpoint: string,
     config?: AxiosRequestConfig,
+    options: SnakeWaysRequestOptions = {},
   ): Promise<T | null> {
-    // For one-time requests, still check serviceAvailable to avoid unnecessary network calls
-    if (!this.serviceAvailable) {
-      this.logger.warn(
-        `DELETE ${endpoint} skipped: Service unavailable. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-      );
-      return null;
+    return this.send(
+      'DELETE',
+      endpoint,
+      () => this.httpService.delete<T>(endpoint, config),
+      options,
+    );
+  }
+
+  /**
+   * Send a one-time request, sharing the result of an identical call still in
+   * flight when it has an idempotency key
+   */
+  private send<T>(
+    method: string,
+    endpoint: string,
+    request: () => Observable<AxiosResponse<T>>,
+    options: SnakeWaysRequestOptions,
+  ): Promise<T | null> {
+    const key = options.idempotencyKey;
+    if (!key) {
+      return this.sendWithRetry(method, endpoint, request, options);
     }
 
-    try {
-      const { data } = await firstValueFrom(
-        this.httpService.delete<T>(endpoint, config).pipe(
-          timeout(4000),
-          catchError((error: AxiosError) => {
-            this.handleError('DELETE', endpoint, error);
-            return of({ data: null as T });
-          }),
-        ),
+    const pending = this.inFlight.get(key) as Promise<T | null> | undefined;
+    if (pending) {
+      this.logger.log(
+        `${method} ${endpoint} already in flight for ${key}, waiting for its result`,
       );
-
-      // If we get here, the request succeeded
-      this.resetConsecutiveFailures(endpoint);
-      return data;
-    } catch (error) {
-      this.logger.error(`Failed DELETE request to ${endpoint}`);
-      throw error;
+      return pending;
     }
+
+    const result = this.sendWithRetry(method, endpoint, request, options);
+    this.inFlight.set(key, result);
+    return result.finally(() => this.inFlight.delete(key));
   }
 
   /**
-   * Create a polling observable that periodically fetches data
-   * @param endpoint The endpoint to poll
-   * @param intervalMs Polling interval in milliseconds
+   * Send a request, retrying with backoff while the error is retryable, the
+   * request can safely be repeated and the circuit breaker allows it
    */
-  protected createPollingObservable<T>(
+  private async sendWithRetry<T>(
+    method: string,
     endpoint: string,
-    intervalMs = 5000,
-  ): Observable<T | null> {
-    this.logger.log(`Starting polling for ${endpoint} every ${intervalMs}ms`);
+    request: () => Observable<AxiosResponse<T>>,
+    options: SnakeWaysRequestOptions,
+  ): Promise<T | null> {
+    const policy: RetryPolicy =
+      options.retry === false
+        ? { ...this.retryPolicy, maxRetries: 0 }
+        : { ...this.retryPolicy, ...options.retry };
+    const timeoutMs = options.timeoutMs || this.requestTimeoutMs;
 
-    return interval(intervalMs).pipe(
-      startWith(0), // Emit immediately on subscription
-      takeWhile(() => !this.shouldStopPolling(endpoint)), // Stop if too many failures
-      switchMap(() => {
-        // For polling, we always attempt the request regardless of serviceAvailable
-        // This allows recovery from temporary service outages
-        return this.httpService.get<T>(endpoint).pipe(
-          timeout(3000),
-          map((response) => {
-            // Reset failure counter on success
-            this.resetConsecutiveFailures(endpoint);
-            // Also reset service availability flag
-            this.resetServiceAvailability();
-            return response.data;
-          }),
-          catchError((error) => {
-            // For polling, we need to handle errors differently than one-time requests
-            // We'll log the error and increment the failure counter, but not throw
-            if (error.code === 'ECONNREFUSED') {
-              // Only set serviceAvailable to false for connection refused errors
-              this.serviceAvailable = false;
-              this.incrementConsecutiveFailures(endpoint);
-              this.logger.warn(
-                `Snake Ways service is not available at ${error.config?.baseURL || 'the configured URL'}. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-              );
-            } else if (
-              error.code === 'ETIMEDOUT' ||
-              error.code === 'ECONNABORTED'
-            ) {
-              this.incrementConsecutiveFailures(endpoint);
-              this.logger.warn(
-                `Request to ${endpoint} timed out. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-              );
-            } else if (
-              error.code === 'DEPTH_ZERO_SELF_SIGNED_CERT' ||
-              error.code === 'CERT_HAS_EXPIRED' ||
-              error.code === 'ERR_TLS_CERT_ALTNAME_INVALID'
-            ) {
-              this.logger.warn(
-                `SSL certificate validation issue for ${endpoint}, but continuing due to httpsAgent configuration.`,
-              );
-              this.resetConsecutiveFailures(endpoint);
-            } else if (error.response) {
-              this.logger.error(
-                `GET ${endpoint} failed with status ${error.response.status}: ${JSON.stringify(error.response.data)}`,
-              );
-              this.resetConsecutiveFailures(endpoint);
-            } else if (error.request) {
-              this.logger.error(
-                `GET ${endpoint} failed: No response received from server`,
-              );
-              this.incrementConsecutiveFailures(endpoint);
-            } else {
-              this.logger.error(`GET ${endpoint} failed: ${error.message}`);
-              this.incrementConsecutiveFailures(endpoint);
-            }
+    // Skip the network call while the breaker is open
+    if (!this.allowRequest(method, endpoint)) {
+      return null;
+    }
 
-            this.logger.warn(
-              `Failed to poll ${endpoint}. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
-            );
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { data } = await firstValueFrom(
+          request().pipe(timeout(timeoutMs)),
+        );
 
-            // Check if we've reached max failures
-            if (this.shouldStopPolling(endpoint)) {
-              this.logger.error(
-                `Stopping polling for ${endpoint} after ${this.maxConsecutiveFailures} consecutive failures`,
-              );
-            }
+        // If we get here, the request succeeded
+        this.circuitBreaker.recordSuccess(endpoint);
+        return data;
+      } catch (error) {
+        this.handleError(method, endpoint, error);
 
-            // Return null to prevent the stream from terminating
-            return of(null);
-          }),
+        if (
+          attempt >= policy.maxRetries ||
+          !isRetryableError(error, !!options.idempotent) ||
+          !this.circuitBreaker.canRequest(endpoint)
+        ) {
+          this.logger.error(`Failed ${method} request to ${endpoint}`);
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(attempt, policy);
+        this.logger.warn(
+          `Retrying ${method} ${endpoint} in ${delayMs}ms (retry ${attempt + 1}/${policy.maxRetries})`,
         );
-      }),
-    );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Fetch an endpoint for a scheduled sync, with the polling timeout
+   * Returns null without calling Snake Ways while the circuit breaker is open
+   */
+  protected async poll<T>(
+    endpoint: string,
+    config?: AxiosRequestConfig,
+  ): Promise<T | null> {
+    return this.get<T>(endpoint, config, { timeoutMs: this.pollingTimeoutMs });
   }
 
   /**
-   * Consistent error handling for HTTP requests
+   * Consistent error handling for HTTP requests: log the failure and count it
+   * against the circuit breaker, the caller decides whether to retry
    */
   private handleError(
     method: string,
     endpoint: string,
     error: AxiosError,
   ): void {
+    this.circuitBreaker.recordFailure(endpoint, error);
+
     if (error.code === 'ECONNREFUSED') {
-      // Only set serviceAvailable to false for connection refused errors
-      this.serviceAvailable = false;
-      this.incrementConsecutiveFailures(endpoint);
       this.logger.warn(
-        `Snake Ways service is not available at ${error.config?.baseURL || 'the configured URL'}. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
+        `Snake Ways service is not available at ${error.config?.baseURL || 'the configured URL'}. Circuit breaker: ${this.circuitBreaker.describe(endpoint)}`,
       );
-      throw error;
+      return;
     }
 
     // Handle timeout errors
     if (error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
-      this.incrementConsecutiveFailures(endpoint);
       this.logger.warn(
-        `Request to ${endpoint} timed out. Consecutive failures: ${this.getConsecutiveFailures(endpoint)}/${this.maxConsecutiveFailures}`,
+        `Request to ${endpoint} timed out. Circuit breaker: ${this.circuitBreaker.describe(endpoint)}`,
       );
-      // Don't set serviceAvailable to false for timeouts, as they might be temporary
-      throw error;
+      return;
     }
 
     // Handle SSL certificate errors
@@ -389,8 +285,7 @@ export class SnakeWaysBaseService {
       this.logger.warn(
         `SSL certificate validation issue for ${method} ${endpoint}, but continuing due to httpsAgent configuration.`,
       );
-      this.resetConsecutiveFailures(endpoint); // Reset counter for SSL issues we're ignoring
-      throw error;
+      return;
     }
 
     if (error.response) {
@@ -398,22 +293,15 @@ export class SnakeWaysBaseService {
       this.logger.error(
         `${method} ${endpoint} failed with status ${error.response.status}: ${JSON.stringify(error.response.data)}`,
       );
-      // Don't increment failures for HTTP responses (even errors) as the service is technically available
-      this.resetConsecutiveFailures(endpoint);
-      throw error;
+      // HTTP responses below 500 close the circuit breaker as the service is technically available
     } else if (error.request) {
       // The request was made but no response was received
       this.logger.error(
         `${method} ${endpoint} failed: No response received from server`,
       );
-      this.incrementConsecutiveFailures(endpoint);
-      // Don't set serviceAvailable to false for no response, as they might be temporary
-      throw error;
     } else {
       // Something happened in setting up the request that triggered an Error
       this.logger.error(`${method} ${endpoint} failed: ${error.message}`);
-      this.incrementConsecutiveFailures(endpoint);
-      throw error;
     }
   }
 }
@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CircuitState } from './circuit-breaker';
+import { SnakeWaysCircuitBreakerService } from './snake-ways-circuit-breaker.service';
+
+describe('SnakeWaysCircuitBreakerService', () => {
+  let service: SnakeWaysCircuitBreakerService;
+
+  const fail = (endpoint: string, error: any, times: number) => {
+    for (let i = 0; i < times; i++) service.recordFailure(endpoint, error);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-08-01T00:00:00Z') });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SnakeWaysCircuitBreakerService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              ({
+                SNAKE_WAYS_BREAKER_FAILURE_THRESHOLD: '2',
+                SNAKE_WAYS_BREAKER_COOLDOWN_SECONDS: '30',
+              })[key],
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SnakeWaysCircuitBreakerService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts connection errors against the whole service', () => {
+    fail('/wans', { code: 'ECONNREFUSED' }, 2);
+
+    expect(service.canRequest('/lans')).toBe(false);
+    expect(service.getHealth().service.state).toBe(CircuitState.OPEN);
+  });
+
+  it('counts server errors against the endpoint only', () => {
+    fail('/wans', { response: { status: 503 } }, 2);
+
+    expect(service.canRequest('/wans?id=1')).toBe(false);
+    expect(service.canRequest('/lans')).toBe(true);
+  });
+
+  it("doesn't count client errors", () => {
+    fail('/wans', { response: { status: 404 } }, 2);
+
+    expect(service.canRequest('/wans')).toBe(true);
+  });
+
+  it('describes the breakers against their threshold', () => {
+    fail('/wans', { response: { status: 503 } }, 1);
+
+    expect(service.describe()).toBe('service CLOSED 0/2');
+    expect(service.describe('/wans?id=1')).toBe(
+      'service CLOSED 0/2, /wans CLOSED 1/2',
+    );
+  });
+
+  it("doesn't claim the service trial when the endpoint refuses", () => {
+    fail('/lans', { code: 'ECONNREFUSED' }, 2);
+    jest.advanceTimersByTime(20000);
+    fail('/wans', { response: { status: 503 } }, 2);
+
+    // The service cool-down is over, the one of /wans isn't
+    jest.advanceTimersByTime(10000);
+
+    expect(service.canRequest('/wans')).toBe(false);
+    expect(service.getHealth().service.state).toBe(CircuitState.OPEN);
+    expect(service.canRequest('/lans')).toBe(true);
+    expect(service.getHealth().service.state).toBe(CircuitState.HALF_OPEN);
+  });
+});
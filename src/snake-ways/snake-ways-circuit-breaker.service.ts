@@ -0,0 +1,172 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitState,
+} from './circuit-breaker';
+import { SnakeWaysHealthDto, SnakeWaysHealthStatus } from './dto';
+const chalk = require('chalk');
+
+// Errors meaning Snake Ways itself can't be reached, whatever the endpoint
+const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+];
+
+// Ignored thanks to the httpsAgent configuration
+const CERTIFICATE_ERROR_CODES = [
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'CERT_HAS_EXPIRED',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+const SERVICE_BREAKER = 'service';
+
+/**
+ * Circuit breakers shared by every Snake Ways service. Connection failures
+ * count against the breaker of the whole service, timeouts and server errors
+ * against the breaker of the endpoint, so one slow endpoint doesn't cut off
+ * the others.
+ */
+@Injectable()
+export class SnakeWaysCircuitBreakerService {
+  private readonly logger = new Logger(SnakeWaysCircuitBreakerService.name);
+  private readonly options: CircuitBreakerOptions;
+  private readonly service: CircuitBreaker;
+  private readonly endpoints = new Map<string, CircuitBreaker>();
+
+  constructor(config: ConfigService) {
+    this.options = {
+      failureThreshold:
+        Number(config.get('SNAKE_WAYS_BREAKER_FAILURE_THRESHOLD')) || 5,
+      cooldownMs:
+        (Number(config.get('SNAKE_WAYS_BREAKER_COOLDOWN_SECONDS')) || 30) *
+        1000,
+    };
+    this.service = new CircuitBreaker(SERVICE_BREAKER, this.options);
+  }
+
+  /**
+   * Whether a request to the endpoint may go out now. A trial is only claimed
+   * once both breakers let the request through, so the service breaker isn't
+   * left waiting on a trial the endpoint breaker refused.
+   * @param endpoint Endpoint path, the query string is ignored
+   */
+  canRequest(endpoint: string): boolean {
+    const breaker = this.getBreaker(endpoint);
+    const now = new Date();
+    if (!this.service.isRequestAllowed(now) || !breaker.isRequestAllowed(now)) {
+      return false;
+    }
+
+    this.service.claimRequest(now);
+    breaker.claimRequest(now);
+    return true;
+  }
+
+  /**
+   * When the breaker keeping the endpoint from being called lets a trial
+   * request through, null if it may be called
+   */
+  retryAt(endpoint: string): Date | null {
+    return this.service.retryAt() || this.getBreaker(endpoint).retryAt();
+  }
+
+  recordSuccess(endpoint: string): void {
+    const breaker = this.getBreaker(endpoint);
+
+    if (this.service.onSuccess() !== CircuitState.CLOSED) {
+      this.logger.log(chalk.green('Snake Ways is reachable again'));
+    }
+    if (breaker.onSuccess() !== CircuitState.CLOSED) {
+      this.logger.log(chalk.green(`Snake Ways ${breaker.name} recovered`));
+    }
+  }
+
+  /**
+   * Count a failed request against the service or the endpoint, depending on
+   * the error. HTTP 4xx replies and certificate warnings aren't failures.
+   */
+  recordFailure(endpoint: string, error: any): void {
+    const code: string | undefined = error?.code;
+    const status: number | undefined = error?.response?.status;
+
+    if (code && CERTIFICATE_ERROR_CODES.includes(code)) return;
+    if (status && status < 500) {
+      this.recordSuccess(endpoint);
+      return;
+    }
+
+    const breaker =
+      code && CONNECTION_ERROR_CODES.includes(code)
+        ? this.service
+        : this.getBreaker(endpoint);
+    const wasOpen = breaker.getState() === CircuitState.OPEN;
+    const message = status
+      ? `HTTP ${status}`
+      : error?.message || code || 'Unknown error';
+
+    if (breaker.onFailure(message) === CircuitState.OPEN && !wasOpen) {
+      this.logger.warn(
+        chalk.yellow(
+          `Circuit breaker for Snake Ways ${breaker.name} opened after ${message}, retrying at ${breaker.retryAt()?.toISOString()}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * State and failures of the breakers for log messages, e.g.
+   * "service CLOSED 0/5, /wan OPEN 5/5"
+   * @param endpoint Also describe the breaker of this endpoint
+   */
+  describe(endpoint?: string): string {
+    const breakers = endpoint
+      ? [this.service, this.getBreaker(endpoint)]
+      : [this.service];
+
+    return breakers
+      .map((breaker) => {
+        const { name, state, consecutiveFailures } = breaker.snapshot();
+        return `${name} ${state} ${consecutiveFailures}/${this.options.failureThreshold}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Close the service breaker, e.g. when polling is restarted by hand
+   */
+  reset(): void {
+    this.service.reset();
+  }
+
+  getHealth(): SnakeWaysHealthDto {
+    const endpoints = [...this.endpoints.values()]
+      .map((breaker) => breaker.snapshot())
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const status =
+      this.service.getState() !== CircuitState.CLOSED
+        ? SnakeWaysHealthStatus.DOWN
+        : endpoints.some((breaker) => breaker.state !== CircuitState.CLOSED)
+          ? SnakeWaysHealthStatus.DEGRADED
+          : SnakeWaysHealthStatus.UP;
+
+    return { status, service: this.service.snapshot(), endpoints };
+  }
+
+  private getBreaker(endpoint: string): CircuitBreaker {
+    const name = endpoint.split('?')[0];
+
+    let breaker = this.endpoints.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.options);
+      this.endpoints.set(name, breaker);
+    }
+    return breaker;
+  }
+}
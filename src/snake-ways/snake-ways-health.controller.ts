@@ -0,0 +1,27 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { STAFF_ROLES } from 'src/auth/constants';
+import { Roles } from 'src/auth/decorators';
+import { SnakeWaysHealthDto } from './dto';
+import { SnakeWaysCircuitBreakerService } from './snake-ways-circuit-breaker.service';
+
+@ApiTags('SNAKE WAYS')
+@Roles(...STAFF_ROLES)
+@Controller('snake-ways')
+export class SnakeWaysHealthController {
+  constructor(
+    private readonly circuitBreaker: SnakeWaysCircuitBreakerService,
+  ) {}
+
+  @Get('health')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the circuit breaker states and last errors of Snake Ways and each endpoint called so far',
+    type: SnakeWaysHealthDto,
+  })
+  @ApiOperation({ summary: 'Get Snake Ways connection health' })
+  getHealth(): SnakeWaysHealthDto {
+    return this.circuitBreaker.getHealth();
+  }
+}
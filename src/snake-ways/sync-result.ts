@@ -0,0 +1,14 @@
+/**
+ * What a sync did with the records fetched from Snake Ways
+ */
+export interface SyncResult {
+  fetched: number;
+  created: number;
+  updated: number;
+  // Records not stored, e.g. usage of a WAN that isn't synced yet
+  skipped: number;
+}
+
+export function emptySyncResult(fetched = 0): SyncResult {
+  return { fetched, created: 0, updated: 0, skipped: 0 };
+}
@@ -0,0 +1,117 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LiveEventsService } from 'src/live/live-events.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SyncRunService } from 'src/sync/sync-run.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import {
+  RecordType,
+  SnakeWaysUserService,
+  UsageRecord,
+} from './snake-ways-user.service';
+
+const usage = (fields: Partial<UsageRecord>): UsageRecord => ({
+  ClientMac: '',
+  CreditDetail: '',
+  EndTime: 0,
+  LanName: 'Crew',
+  Lastupdate: 0,
+  RX: 0,
+  TX: 0,
+  RecordType: RecordType.USAGE,
+  StartTime: 1754035200,
+  UserID: 'captain',
+  ...fields,
+});
+
+describe('SnakeWaysUserService', () => {
+  let service: SnakeWaysUserService;
+  // Credit transactions by their unique key, as the database keeps them
+  let stored: Map<string, any>;
+  let prisma: {
+    $transaction: jest.Mock;
+    creditTransaction: { upsert: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    stored = new Map();
+    prisma = {
+      $transaction: jest.fn((operations) => Promise.all(operations)),
+      creditTransaction: {
+        upsert: jest.fn(async ({ where, update, create }) => {
+          const key = JSON.stringify(where);
+          const row = stored.has(key)
+            ? { ...stored.get(key), ...update }
+            : create;
+          stored.set(key, row);
+          return row;
+        }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SnakeWaysUserService,
+        { provide: HttpService, useValue: {} },
+        {
+          provide: SnakeWaysCircuitBreakerService,
+          useValue: { describe: () => '' },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: PrismaService, useValue: prisma },
+        { provide: SyncRunService, useValue: {} },
+        { provide: LiveEventsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(SnakeWaysUserService);
+  });
+
+  describe('syncCreditTransactions', () => {
+    const sync = (records: UsageRecord[]) =>
+      (service as any).syncCreditTransactions('user-1', records);
+
+    it('keeps the usage of every client in the same period', async () => {
+      await sync([
+        usage({ ClientMac: 'aa:bb:cc:00:00:01', RX: 100, TX: 10 }),
+        usage({ ClientMac: 'aa:bb:cc:00:00:02', RX: 200, TX: 20 }),
+      ]);
+
+      const rows = [...stored.values()];
+      expect(rows).toHaveLength(2);
+      expect(rows.map((row) => row.clientMac)).toEqual([
+        'AA:BB:CC:00:00:01',
+        'AA:BB:CC:00:00:02',
+      ]);
+      expect(rows.reduce((total, row) => total + row.amount, 0n)).toBe(-330n);
+    });
+
+    it('updates a record that is still growing in place', async () => {
+      await sync([usage({ ClientMac: 'aa:bb:cc:00:00:01', RX: 100 })]);
+      await sync([
+        usage({ ClientMac: 'aa:bb:cc:00:00:01', RX: 150, EndTime: 1754038800 }),
+      ]);
+
+      const rows = [...stored.values()];
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        rx: 150n,
+        endTime: new Date(1754038800 * 1000),
+      });
+    });
+
+    it('stores records without a client with an empty one', async () => {
+      await sync([usage({ RecordType: RecordType.CREDIT, LanName: '' })]);
+
+      expect(prisma.creditTransaction.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_startTime_recordType_clientMac_lanName:
+              expect.objectContaining({ clientMac: '', lanName: '' }),
+          },
+        }),
+      );
+    });
+  });
+});
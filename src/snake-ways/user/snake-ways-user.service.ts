@@ -1,26 +1,30 @@
 // src/external-service/external-user.service.ts
 import { HttpService } from '@nestjs/axios';
-import {
-  Injectable,
-  Logger,
-  OnModuleDestroy,
-  OnModuleInit,
-} from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
   AutocreditDefinition as PrismaAutocreditDefinition,
   AutocreditInterval as PrismaAutocreditInterval,
   AutocreditStatus as PrismaAutocreditStatus,
   AutocreditType as PrismaAutocreditType,
+  CreditTransactionType,
   User as PrismaUser,
   UserAccessLevel as PrismaUserAccessLevel,
   Status,
+  SyncTrigger,
 } from '@prisma/client';
 import { startOfDay, startOfMonth, differenceInDays } from 'date-fns';
-import { Observable, Subscription } from 'rxjs';
 import { PrismaService } from '../../prisma/prisma.service';
+import { SyncResource } from 'src/sync/dto';
+import { SyncRunService } from 'src/sync/sync-run.service';
+import { LiveEventsService } from 'src/live/live-events.service';
+import { LiveChannel } from 'src/live/interfaces';
+import { toCreditLiveState } from 'src/live/live-state';
 import { UserEntity } from '../../user/entities/user.entity';
 import { SnakeWaysBaseService } from '../snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from '../sync-result';
+import { Password } from '../../common/utils/password';
 const chalk = require('chalk');
 
 /**
@@ -105,6 +109,8 @@ export interface UsageResponse {
 export interface UserUsageSummary {
   userId: string;
   totalDebit: number; // RX + TX from RecordType 2
+  totalRx: number; // RX (download) part of totalDebit
+  totalTx: number; // TX (upload) part of totalDebit
   quota: number; // From autocredit
   credit: number; // quota - debit
   lastUpdate: Date;
@@ -331,131 +337,83 @@ export class User {
   UserID: string;
 }
 
-@Injectable()
-export class SnakeWaysUserService
-  extends SnakeWaysBaseService
-  implements OnModuleInit, OnModuleDestroy
-{
-  private userPollingSubscription: Subscription;
-  private userDataStream$: Observable<{ user: User[] } | null>;
-  private pollingActive = false;
-  private pollingIntervalInMins: number;
+/**
+ * Fields sent to Snake Ways when creating a user
+ */
+export interface CreateUserPayload {
+  Login: string;
+  DisplayName: string;
+  Password: string;
+  AccessLevel: UserAccessLevel;
+  /** Initial data credit in bytes */
+  DataCredit?: string;
+  /** Initial daily usage time in seconds */
+  TimeCredit?: string;
+}
+
+/**
+ * Fields sent to Snake Ways when updating a user
+ */
+export type UpdateUserPayload = Partial<CreateUserPayload>;
+
+/**
+ * Credit added to a user in Snake Ways
+ */
+export interface CreditPayload {
+  /** Data credit to add in bytes */
+  DataCredit?: string;
+  /** Time credit to add in seconds */
+  TimeCredit?: string;
+}
 
+/**
+ * Autocredit fields sent to Snake Ways when changing a user's autocredit
+ */
+export interface AutocreditPayload {
+  CreditInterval?: AutocreditInterval;
+  CreditType?: AutocreditType;
+  /** Credit value in bytes */
+  CreditValue?: number;
+  Status?: AutocreditStatusEnum;
+}
+
+@Injectable()
+export class SnakeWaysUserService extends SnakeWaysBaseService {
   constructor(
     protected readonly httpService: HttpService,
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
+    private readonly syncRunService: SyncRunService,
+    private readonly liveEvents: LiveEventsService,
   ) {
-    super(httpService);
+    super(httpService, circuitBreaker, configService);
     // Override logger with this class name
     Object.defineProperty(this, 'logger', {
       value: new Logger(SnakeWaysUserService.name),
     });
-
-    // Get polling interval from config
-    this.pollingIntervalInMins =
-      this.configService.get<number>('SNAKE_WAYS_USERS_POLLING_INTERVAL') ||
-      100;
-  }
-
-  /**
-   * Initialize polling when module starts
-   */
-  async onModuleInit() {
-    this.startPollingUsers();
   }
 
   /**
-   * Start polling users from Snake Ways
+   * Fetch the users from Snake Ways and store them with their usage, credit
+   * and daily snapshot, run by the sync orchestrator last so the LANs their
+   * usage refers to are synced
    */
-  private startPollingUsers() {
-    if (this.pollingActive) {
-      this.logger.log(
-        chalk.yellow('Users Polling is already active, not starting again'),
-      );
-      return;
+  async sync(): Promise<SyncResult> {
+    const response = await this.poll<{ user: User[] }>('/user');
+    if (!response?.user) {
+      throw new Error('No users returned from Snake Ways');
     }
 
-    this.pollingActive = true;
-
-    this.logger.log(
-      chalk.blue.bold(
-        `Starting to poll users from Snake Ways every ${this.pollingIntervalInMins} minutes`,
-      ),
-    );
-
-    this.userDataStream$ = this.createPollingObservable<{ user: User[] }>(
-      '/user',
-      this.pollingIntervalInMins * 1000, // Convert minutes to milliseconds
-    );
-
-    this.userPollingSubscription = this.userDataStream$.subscribe({
-      next: async (data) => {
-        if (data?.user) {
-          await this.syncUsersWithDatabase(data.user);
-        }
-      },
-      error: (error) => {
-        // This should rarely be called since we're catching errors in the observable
-        this.logger.error(
-          chalk.red.bold('Unexpected error in user polling subscription'),
-          error,
-        );
-        // Don't set pollingActive to false here to allow retries
-        // Instead, log that we'll try to recover
-        this.logger.warn(
-          chalk.yellow.bold('Attempting to recover from polling error'),
-        );
-      },
-      complete: () => {
-        this.logger.warn(
-          chalk.yellow.bold(
-            'Polling users from Snake Ways completed or stopped due to max failures',
-          ),
-        );
-        this.pollingActive = false;
-      },
-    });
-  }
-
-  /**
-   * Attempt to restart polling if it has stopped
-   * This can be called by a controller endpoint or scheduled job
-   */
-  public async restartPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(chalk.blue.bold('Attempting to restart user polling'));
-      // Reset the service availability status
-      this.resetServiceAvailability();
-      // Reset the consecutive failures counter for this endpoint
-      this.resetConsecutiveFailures('/user');
-      // Start polling again
-      this.startPollingUsers();
-      return true;
-    }
-    return false;
-  }
-
-  public async restartSnapshotsPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(
-        chalk.blue.bold('Attempting to restart snapshots polling'),
-      );
-      // Reset the service availability status
-      this.resetServiceAvailability();
-
-      this.resetConsecutiveFailures('/user/history');
-      // Start polling again
-      this.startPollingUsers();
-      return true;
-    }
-    return false;
+    return await this.syncUsersWithDatabase(response.user);
   }
 
   /**
    * Sync received users with the database
    */
-  private async syncUsersWithDatabase(snakeWaysUsers: User[]) {
+  private async syncUsersWithDatabase(
+    snakeWaysUsers: User[],
+  ): Promise<SyncResult> {
     try {
       this.logger.log(
         chalk.cyan(
@@ -482,27 +440,37 @@ export class SnakeWaysUserService
         ),
       );
 
+      const result = emptySyncResult(snakeWaysUsers.length);
+      const existingIds = new Set(
+        (await this.prismaService.user.findMany({ select: { id: true } })).map(
+          (user) => user.id,
+        ),
+      );
+
       for (const swUser of snakeWaysUsers) {
         const autocredit = autocreditMap.get(swUser.UserID);
 
-        // Fetch usage data for this specific user
-        const userUsageRecords = await this.getUserUsage(
+        // Fetch every record type once, usage (debit) records are a subset of them
+        const userRecords = await this.getUserUsage(
           swUser.UserID,
           daysToFetch,
+          null,
+        );
+        const userUsageRecords = userRecords.filter(
+          (record) => record.RecordType === RecordType.USAGE,
         );
 
         // Calculate usage summary for this user with validation
-        const totalDebit = userUsageRecords.reduce((sum, record) => {
-          const rx = Number(record.RX) || 0;
-          const tx = Number(record.TX) || 0;
-          return sum + rx + tx;
-        }, 0);
+        const { totalRx, totalTx } = this.sumUsageByDirection(userUsageRecords);
+        const totalDebit = totalRx + totalTx;
         const quota = autocredit ? Number(autocredit.CreditValue) || 0 : 0;
         const credit = Math.max(0, quota - totalDebit);
 
         const usageSummary: UserUsageSummary = {
           userId: swUser.UserID,
           totalDebit,
+          totalRx,
+          totalTx,
           quota,
           credit,
           lastUpdate: new Date(),
@@ -516,96 +484,315 @@ export class SnakeWaysUserService
 
         // Upsert user - create if doesn't exist, update if it does
         const user = await this.prismaService.user.upsert(upsertData);
+        if (existingIds.has(user.id)) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
 
         this.logger.log(
           chalk.cyan(`Synced Prisma user: ${user.name} (${user.id})`),
         );
+        this.publishCredit(user);
+
+        await this.syncClientUsage(user.id, userUsageRecords);
 
-        // Check if we already have a snapshot for this user today
-        const today = new Date(); // aka now
-        const startOfToday = startOfDay(today);
+        await this.syncCreditTransactions(user.id, userRecords);
 
-        const existingSnapshot =
-          await this.prismaService.userHistorySnapshot.findFirst({
+        await this.upsertDailySnapshot(user);
+      }
+      this.logger.log(chalk.green.bold('User sync completed successfully'));
+      return result;
+    } catch (error) {
+      this.logger.error(
+        chalk.red.bold('Failed to sync users with database'),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store per-client (MAC address) usage from a user's usage records.
+   * Snake Ways keeps growing a record until its period ends, so records are
+   * upserted on user, client, LAN and start time.
+   */
+  private async syncClientUsage(userId: string, usageRecords: UsageRecord[]) {
+    const clientRecords = usageRecords.filter(
+      (record) => record.ClientMac && record.StartTime > 0,
+    );
+
+    if (clientRecords.length === 0) {
+      return;
+    }
+
+    try {
+      await this.prismaService.$transaction(
+        clientRecords.map((record) => {
+          const clientMac = record.ClientMac.toUpperCase();
+          const lanName = record.LanName || '';
+          const startTime = new Date(record.StartTime * 1000);
+          const endTime =
+            record.EndTime > 0 ? new Date(record.EndTime * 1000) : null;
+          const rx = BigInt(Math.max(0, Math.floor(Number(record.RX) || 0)));
+          const tx = BigInt(Math.max(0, Math.floor(Number(record.TX) || 0)));
+
+          return this.prismaService.clientUsage.upsert({
             where: {
-              userId: user.id,
-              snapshotDate: {
-                gte: startOfToday,
+              userId_clientMac_lanName_startTime: {
+                userId,
+                clientMac,
+                lanName,
+                startTime,
               },
             },
-          });
-
-        if (!existingSnapshot) {
-          await this.prismaService.userHistorySnapshot.create({
-            data: {
-              userId: user.id,
-              snapshotDate: today,
-              dataCredit: user.dataCredit,
-              timeCredit: user.timeCredit,
-              status: user.status,
-              portalConnectedAt: user.portalConnectedAt,
-              accessLevel: user.accessLevel,
-              autoCredit: user.autoCredit,
-              displayName: user.displayName,
-              name: user.name,
-              autocreditDefinition: user.autocreditDefinition,
-              autocreditInterval: user.autocreditInterval,
-              autocreditType: user.autocreditType,
-              autocreditValue: user.autocreditValue,
-              autocreditLastTopup: user.autocreditLastTopup,
-              autocreditStatus: user.autocreditStatus,
-              usageDebit: user.usageDebit,
-              usageCredit: user.usageCredit,
-              usageQuota: user.usageQuota,
+            update: { rx, tx, endTime },
+            create: {
+              userId,
+              clientMac,
+              lanName,
+              startTime,
+              endTime,
+              rx,
+              tx,
             },
           });
+        }),
+      );
+
+      this.logger.log(
+        chalk.cyan(
+          `Synced ${chalk.bold(clientRecords.length)} client usage records for user ${userId}`,
+        ),
+      );
+    } catch (error) {
+      // Client usage is supplementary, don't fail the user sync because of it
+      this.logger.error(
+        chalk.red(`Failed to sync client usage for user ${userId}`),
+        error,
+      );
+    }
+  }
+
+  /**
+   * Store every usage record of a user as a credit transaction.
+   * Records are deduplicated on user, start time, record type, client and LAN,
+   * as usage is recorded per client and LAN, so records that are still growing
+   * are updated in place, end time included once Snake Ways closes them.
+   */
+  private async syncCreditTransactions(userId: string, records: UsageRecord[]) {
+    const validRecords = records.filter((record) => record.StartTime > 0);
 
-          this.logger.log(
-            chalk.green.bold(
-              `Created daily snapshot for ${user.name} (${user.id})`,
+    if (validRecords.length === 0) {
+      return;
+    }
+
+    try {
+      await this.prismaService.$transaction(
+        validRecords.map((record) => {
+          const recordType = this.mapRecordType(record.RecordType);
+          const clientMac = record.ClientMac
+            ? record.ClientMac.toUpperCase()
+            : '';
+          const lanName = record.LanName || '';
+          const startTime = new Date(record.StartTime * 1000);
+          const endTime =
+            record.EndTime > 0 ? new Date(record.EndTime * 1000) : null;
+          const rx = Math.max(0, Math.floor(Number(record.RX) || 0));
+          const tx = Math.max(0, Math.floor(Number(record.TX) || 0));
+          const data = {
+            amount: BigInt(
+              this.getCreditTransactionSign(recordType) * (rx + tx),
             ),
-          );
-        } else {
-          await this.prismaService.userHistorySnapshot.update({
-            where: { id: existingSnapshot.id },
-            data: {
-              dataCredit: user.dataCredit,
-              timeCredit: user.timeCredit,
-              status: user.status,
-              portalConnectedAt: user.portalConnectedAt,
-              accessLevel: user.accessLevel,
-              autoCredit: user.autoCredit,
-              displayName: user.displayName,
-              name: user.name,
-              snapshotDate: today,
-              autocreditDefinition: user.autocreditDefinition,
-              autocreditInterval: user.autocreditInterval,
-              autocreditType: user.autocreditType,
-              autocreditValue: user.autocreditValue,
-              autocreditLastTopup: user.autocreditLastTopup,
-              autocreditStatus: user.autocreditStatus,
-              usageDebit: user.usageDebit,
-              usageCredit: user.usageCredit,
-              usageQuota: user.usageQuota,
+            rx: BigInt(rx),
+            tx: BigInt(tx),
+            creditDetail: record.CreditDetail || null,
+            endTime,
+            lastUpdate:
+              record.Lastupdate > 0 ? new Date(record.Lastupdate * 1000) : null,
+          };
+
+          return this.prismaService.creditTransaction.upsert({
+            where: {
+              userId_startTime_recordType_clientMac_lanName: {
+                userId,
+                startTime,
+                recordType,
+                clientMac,
+                lanName,
+              },
+            },
+            update: data,
+            create: {
+              userId,
+              recordType,
+              startTime,
+              clientMac,
+              lanName,
+              ...data,
             },
           });
+        }),
+      );
 
-          this.logger.log(
-            chalk.green.bold(
-              `Updated daily snapshot for ${user.name} (${user.id})`,
-            ),
-          );
-        }
-      }
-      this.logger.log(chalk.green.bold('User sync completed successfully'));
+      this.logger.log(
+        chalk.cyan(
+          `Synced ${chalk.bold(validRecords.length)} credit transactions for user ${userId}`,
+        ),
+      );
     } catch (error) {
+      // The ledger is supplementary, don't fail the user sync because of it
       this.logger.error(
-        chalk.red.bold('Failed to sync users with database'),
+        chalk.red(`Failed to sync credit transactions for user ${userId}`),
         error,
       );
     }
   }
 
+  /**
+   * Sum downloaded (RX) and uploaded (TX) bytes of usage records
+   */
+  private sumUsageByDirection(records: UsageRecord[]): {
+    totalRx: number;
+    totalTx: number;
+  } {
+    return records.reduce(
+      (totals, record) => ({
+        totalRx: totals.totalRx + (Number(record.RX) || 0),
+        totalTx: totals.totalTx + (Number(record.TX) || 0),
+      }),
+      { totalRx: 0, totalTx: 0 },
+    );
+  }
+
+  /**
+   * Map a Snake Ways record type to the Prisma credit transaction type
+   */
+  private mapRecordType(recordType: RecordType): CreditTransactionType {
+    switch (recordType) {
+      case RecordType.SUMMARY_RECORD:
+        return CreditTransactionType.SUMMARY_RECORD;
+      case RecordType.USAGE:
+        return CreditTransactionType.USAGE;
+      case RecordType.CREDIT:
+        return CreditTransactionType.CREDIT;
+      case RecordType.ADJUSTMENT_DOWN:
+        return CreditTransactionType.ADJUSTMENT_DOWN;
+      case RecordType.ADJUSTMENT_UP:
+        return CreditTransactionType.ADJUSTMENT_UP;
+      case RecordType.AUTOCREDIT:
+        return CreditTransactionType.AUTOCREDIT;
+      case RecordType.AUTOCREDIT_DEDUCTION:
+        return CreditTransactionType.AUTOCREDIT_DEDUCTION;
+      default:
+        return CreditTransactionType.UNKNOWN;
+    }
+  }
+
+  /**
+   * Direction of a transaction on the data credit: 1 adds credit, -1 deducts it,
+   * 0 for informational records (summaries and unknown types)
+   */
+  private getCreditTransactionSign(recordType: CreditTransactionType): number {
+    switch (recordType) {
+      case CreditTransactionType.CREDIT:
+      case CreditTransactionType.ADJUSTMENT_UP:
+      case CreditTransactionType.AUTOCREDIT:
+        return 1;
+      case CreditTransactionType.USAGE:
+      case CreditTransactionType.ADJUSTMENT_DOWN:
+      case CreditTransactionType.AUTOCREDIT_DEDUCTION:
+        return -1;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Create today's history snapshot for a user, or refresh it if one already exists
+   */
+  private async upsertDailySnapshot(user: PrismaUser) {
+    // Check if we already have a snapshot for this user today
+    const today = new Date(); // aka now
+    const startOfToday = startOfDay(today);
+
+    const existingSnapshot =
+      await this.prismaService.userHistorySnapshot.findFirst({
+        where: {
+          userId: user.id,
+          snapshotDate: {
+            gte: startOfToday,
+          },
+        },
+      });
+
+    if (!existingSnapshot) {
+      await this.prismaService.userHistorySnapshot.create({
+        data: {
+          userId: user.id,
+          snapshotDate: today,
+          dataCredit: user.dataCredit,
+          timeCredit: user.timeCredit,
+          status: user.status,
+          portalConnectedAt: user.portalConnectedAt,
+          accessLevel: user.accessLevel,
+          autoCredit: user.autoCredit,
+          displayName: user.displayName,
+          name: user.name,
+          autocreditDefinition: user.autocreditDefinition,
+          autocreditInterval: user.autocreditInterval,
+          autocreditType: user.autocreditType,
+          autocreditValue: user.autocreditValue,
+          autocreditLastTopup: user.autocreditLastTopup,
+          autocreditStatus: user.autocreditStatus,
+          usageDebit: user.usageDebit,
+          usageCredit: user.usageCredit,
+          usageQuota: user.usageQuota,
+          usageRx: user.usageRx,
+          usageTx: user.usageTx,
+        },
+      });
+
+      this.logger.log(
+        chalk.green.bold(
+          `Created daily snapshot for ${user.name} (${user.id})`,
+        ),
+      );
+    } else {
+      await this.prismaService.userHistorySnapshot.update({
+        where: { id: existingSnapshot.id },
+        data: {
+          dataCredit: user.dataCredit,
+          timeCredit: user.timeCredit,
+          status: user.status,
+          portalConnectedAt: user.portalConnectedAt,
+          accessLevel: user.accessLevel,
+          autoCredit: user.autoCredit,
+          displayName: user.displayName,
+          name: user.name,
+          snapshotDate: today,
+          autocreditDefinition: user.autocreditDefinition,
+          autocreditInterval: user.autocreditInterval,
+          autocreditType: user.autocreditType,
+          autocreditValue: user.autocreditValue,
+          autocreditLastTopup: user.autocreditLastTopup,
+          autocreditStatus: user.autocreditStatus,
+          usageDebit: user.usageDebit,
+          usageCredit: user.usageCredit,
+          usageQuota: user.usageQuota,
+          usageRx: user.usageRx,
+          usageTx: user.usageTx,
+        },
+      });
+
+      this.logger.log(
+        chalk.green.bold(
+          `Updated daily snapshot for ${user.name} (${user.id})`,
+        ),
+      );
+    }
+  }
+
   /**
    * Transform Snake Ways user to Prisma user schema
    */
@@ -740,11 +927,15 @@ export class SnakeWaysUserService
             Math.max(0, Math.floor(usageSummary.credit || 0)),
           ),
           usageQuota: BigInt(Math.max(0, Math.floor(usageSummary.quota || 0))),
+          usageRx: BigInt(Math.max(0, Math.floor(usageSummary.totalRx || 0))),
+          usageTx: BigInt(Math.max(0, Math.floor(usageSummary.totalTx || 0))),
         }
       : {
           usageDebit: BigInt(0),
           usageCredit: autocreditValue || BigInt(0),
           usageQuota: autocreditValue || BigInt(0),
+          usageRx: BigInt(0),
+          usageTx: BigInt(0),
         };
 
     // Create data for upsert
@@ -755,6 +946,7 @@ export class SnakeWaysUserService
       update: {
         name: swUser.DisplayName,
         displayName: swUser.DisplayName,
+        snakeWaysLogin: swUser.Login,
         accessLevel: mapAccessLevel(swUser.AccessLevel),
         autoCredit: swUser.AutoCreditEnabled === AutoCreditStatus.ENABLED,
         dataCredit,
@@ -770,7 +962,8 @@ export class SnakeWaysUserService
         email: `${swUser.Login}.${swUser.UserID}@snakeways.local`,
         name: swUser.DisplayName,
         displayName: swUser.DisplayName,
-        password: Math.random().toString(36).slice(-8), // Random password for initial creation
+        password: Password.unusable(), // Set when the account is claimed
+        snakeWaysLogin: swUser.Login,
         accessLevel: mapAccessLevel(swUser.AccessLevel),
         autoCredit: swUser.AutoCreditEnabled === AutoCreditStatus.ENABLED,
         dataCredit,
@@ -818,14 +1011,21 @@ export class SnakeWaysUserService
    * Get usage data from Snake Ways for a specific user
    * @param userId User ID to get usage for
    * @param days Number of days from start of month to current date
+   * @param recordType Record type to fetch (default USAGE), null for every record type
    */
-  async getUserUsage(userId: string, days: number): Promise<UsageRecord[]> {
+  async getUserUsage(
+    userId: string,
+    days: number,
+    recordType: RecordType | null = RecordType.USAGE,
+  ): Promise<UsageRecord[]> {
     try {
       // Build query parameters
       const params = new URLSearchParams();
       params.append('days', days.toString());
       params.append('userid', userId);
-      params.append('recordtype', RecordType.USAGE.toString()); // Always use recordtype 2 for actual usage
+      if (recordType !== null) {
+        params.append('recordtype', recordType.toString());
+      }
 
       const endpoint = `/usage?${params.toString()}`;
 
@@ -877,11 +1077,8 @@ export class SnakeWaysUserService
     // Calculate summary for each user
     userUsageMap.forEach((records, userId) => {
       // Calculate total debit (RX + TX from all usage records) with validation
-      const totalDebit = records.reduce((sum, record) => {
-        const rx = Number(record.RX) || 0;
-        const tx = Number(record.TX) || 0;
-        return sum + rx + tx;
-      }, 0);
+      const { totalRx, totalTx } = this.sumUsageByDirection(records);
+      const totalDebit = totalRx + totalTx;
 
       // Get quota from autocredit data with validation
       const autocredit = autocreditMap.get(userId);
@@ -899,6 +1096,8 @@ export class SnakeWaysUserService
       usageSummaries.set(userId, {
         userId,
         totalDebit,
+        totalRx,
+        totalTx,
         quota,
         credit,
         lastUpdate:
@@ -913,6 +1112,8 @@ export class SnakeWaysUserService
         usageSummaries.set(autocredit.UserID, {
           userId: autocredit.UserID,
           totalDebit: 0,
+          totalRx: 0,
+          totalTx: 0,
           quota: quotaValue,
           credit: quotaValue,
           lastUpdate: new Date(),
@@ -947,8 +1148,12 @@ export class SnakeWaysUserService
         return { count: prismaUsers.length, users: prismaUsers };
       }
 
-      // Perform synchronization
-      await this.syncUsersWithDatabase(response.user);
+      // Perform synchronization, recorded as a manual sync run
+      await this.syncRunService.track(
+        SyncResource.USERS,
+        SyncTrigger.MANUAL,
+        () => this.syncUsersWithDatabase(response.user),
+      );
 
       this.logger.log(
         chalk.green.bold(
@@ -965,15 +1170,6 @@ export class SnakeWaysUserService
     }
   }
 
-  // Stop polling when application shuts down
-  onModuleDestroy() {
-    if (this.userPollingSubscription) {
-      this.logger.log(chalk.blue('Stopping user polling'));
-      this.userPollingSubscription.unsubscribe();
-      this.pollingActive = false;
-    }
-  }
-
   /**
    * Transforms Snake Ways users to our UserEntity format for API responses
    * @param snakeWaysUsers The users from Snake Ways
@@ -1014,17 +1210,16 @@ export class SnakeWaysUserService
         );
 
         // Calculate usage summary for this user with validation
-        const totalDebit = userUsageRecords.reduce((sum, record) => {
-          const rx = Number(record.RX) || 0;
-          const tx = Number(record.TX) || 0;
-          return sum + rx + tx;
-        }, 0);
+        const { totalRx, totalTx } = this.sumUsageByDirection(userUsageRecords);
+        const totalDebit = totalRx + totalTx;
         const quota = autocredit ? Number(autocredit.CreditValue) || 0 : 0;
         const credit = Math.max(0, quota - totalDebit);
 
         usageSummaryMap.set(swUser.UserID, {
           userId: swUser.UserID,
           totalDebit,
+          totalRx,
+          totalTx,
           quota,
           credit,
           lastUpdate: new Date(),
@@ -1142,11 +1337,18 @@ export class SnakeWaysUserService
       const usageQuota = usageSummary
         ? Math.max(0, Math.floor(usageSummary.quota || 0))
         : autocreditValue || 0;
+      const usageRx = usageSummary
+        ? Math.max(0, Math.floor(usageSummary.totalRx || 0))
+        : 0;
+      const usageTx = usageSummary
+        ? Math.max(0, Math.floor(usageSummary.totalTx || 0))
+        : 0;
 
       // Create a UserEntity instance with constructor
       const userEntity = new UserEntity({
         id: swUser.UserID,
         email: `${swUser.Login}.${swUser.UserID}@snakeways.local`,
+        snakeWaysLogin: swUser.Login,
         name: swUser.DisplayName,
         displayName: swUser.DisplayName,
         password: '**********', // Password is excluded from responses
@@ -1165,6 +1367,8 @@ export class SnakeWaysUserService
         usageDebit,
         usageCredit,
         usageQuota,
+        usageRx,
+        usageTx,
         createdAt: new Date(),
         updatedAt: new Date(),
         refreshToken: null,
@@ -1176,31 +1380,325 @@ export class SnakeWaysUserService
     return userEntities;
   }
 
-  //   /**
-  //    * Get user by ID
-  //    */
-  //   async getUserById(id: string): Promise<User> {
-  //     return this.get<User>(`/user/${id}`);
-  //   }
-
-  //   /**
-  //    * Create a new user
-  //    */
-  //   async createUser(userData: Omit<User, 'id'>): Promise<User> {
-  //     return this.post<User>('/user', userData);
-  //   }
-
-  //   /**
-  //    * Update user information
-  //    */
-  //   async updateUser(id: string, userData: Partial<User>): Promise<User> {
-  //     return this.put<User>(`/user/${id}`, userData);
-  //   }
-
-  //   /**
-  //    * Delete a user
-  //    */
-  //   async deleteUser(id: string): Promise<{ success: boolean }> {
-  //     return this.delete<{ success: boolean }>(`/user/${id}`);
-  //   }
+  /**
+   * Get a single user from Snake Ways
+   * @param userId Snake Ways UserID
+   * @returns The user, or null if Snake Ways does not know it
+   */
+  async getUserById(userId: string): Promise<User | null> {
+    try {
+      const response = await this.get<{ user: User[] }>(
+        `/user?userid=${encodeURIComponent(userId)}`,
+      );
+      return response?.user?.find((user) => user.UserID === userId) || null;
+    } catch (error) {
+      this.logger.error(chalk.red(`Failed to get user ${userId}`), error);
+      throw new Error(`Failed to get user ${userId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a user in Snake Ways and store it locally
+   * @param payload Snake Ways user fields
+   * @returns The created Prisma user
+   */
+  async createUser(payload: CreateUserPayload): Promise<PrismaUser> {
+    try {
+      this.logger.log(
+        chalk.blue(`Creating user ${payload.Login} in Snake Ways`),
+      );
+
+      const response = await this.post<{ user: User[] }>('/user', payload);
+
+      if (!response) {
+        throw new Error('No response received from Snake Ways');
+      }
+
+      // Snake Ways assigns the UserID, so look the user up by login if it wasn't echoed back
+      const createdUserId =
+        response.user?.[0]?.UserID ||
+        (await this.getAllUsers()).find((user) => user.Login === payload.Login)
+          ?.UserID;
+
+      if (!createdUserId) {
+        throw new Error(`User ${payload.Login} was not found after creation`);
+      }
+
+      const user = await this.refreshUser(createdUserId);
+
+      this.logger.log(
+        chalk.green.bold(`Created user ${user.name} (${user.id})`),
+      );
+
+      return user;
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to create user'), error);
+      throw new Error(`Failed to create user: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update a user in Snake Ways and refresh the local copy
+   * @param userId Snake Ways UserID
+   * @param payload Snake Ways user fields to change
+   * @returns The updated Prisma user
+   */
+  async updateUser(
+    userId: string,
+    payload: UpdateUserPayload,
+  ): Promise<PrismaUser> {
+    try {
+      this.logger.log(chalk.blue(`Updating user ${userId} in Snake Ways`));
+
+      // Sets fields to fixed values, safe to send again
+      const response = await this.put<{ user: User[] }>(
+        '/user',
+        { UserID: userId, ...payload },
+        undefined,
+        { idempotent: true },
+      );
+
+      if (!response) {
+        throw new Error('No response received from Snake Ways');
+      }
+
+      const user = await this.refreshUser(userId);
+
+      this.logger.log(
+        chalk.green.bold(`Updated user ${user.name} (${user.id})`),
+      );
+
+      return user;
+    } catch (error) {
+      this.logger.error(chalk.red(`Failed to update user ${userId}`), error);
+      throw new Error(`Failed to update user ${userId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a user in Snake Ways and remove the local copy
+   * @param userId Snake Ways UserID
+   */
+  async deleteUser(userId: string): Promise<void> {
+    try {
+      this.logger.log(chalk.blue(`Deleting user ${userId} in Snake Ways`));
+
+      const response = await this.delete<unknown>(
+        `/user?userid=${encodeURIComponent(userId)}`,
+      );
+
+      if (response === null) {
+        throw new Error('No response received from Snake Ways');
+      }
+
+      // History snapshots are removed by the cascade on UserHistorySnapshot
+      await this.prismaService.user.deleteMany({ where: { id: userId } });
+
+      this.logger.log(chalk.green.bold(`Deleted user ${userId}`));
+    } catch (error) {
+      this.logger.error(chalk.red(`Failed to delete user ${userId}`), error);
+      throw new Error(`Failed to delete user ${userId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Top up a user's data and/or time credit in Snake Ways
+   * @param userId Snake Ways UserID
+   * @param payload Credit to add
+   * @returns The updated Prisma user
+   */
+  async addCredit(userId: string, payload: CreditPayload): Promise<PrismaUser> {
+    try {
+      this.logger.log(
+        chalk.blue(
+          `Adding credit to user ${userId}: data=${payload.DataCredit ?? 0}, time=${payload.TimeCredit ?? 0}`,
+        ),
+      );
+
+      // Adds to the balance, so it is never retried once it may have reached
+      // Snake Ways
+      const response = await this.post<{ user: User[] }>('/credit', {
+        UserID: userId,
+        ...payload,
+      });
+
+      if (!response) {
+        throw new Error('No response received from Snake Ways');
+      }
+
+      const user = await this.refreshUser(userId);
+
+      this.logger.log(
+        chalk.green.bold(`Added credit to user ${user.name} (${user.id})`),
+      );
+
+      return user;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to add credit to user ${userId}`),
+        error,
+      );
+      throw new Error(
+        `Failed to add credit to user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Change a user's autocredit settings in Snake Ways and refresh the local copy
+   * @param userId Snake Ways UserID
+   * @param payload Autocredit fields to change
+   * @returns The updated Prisma user
+   */
+  async updateAutocredit(
+    userId: string,
+    payload: AutocreditPayload,
+  ): Promise<PrismaUser> {
+    try {
+      this.logger.log(
+        chalk.blue(`Updating autocredit for user ${userId} in Snake Ways`),
+      );
+
+      // Sets fields to fixed values, safe to send again
+      const response = await this.put<{ autocredit: Autocredit[] }>(
+        '/autocredit',
+        { UserID: userId, ...payload },
+        undefined,
+        { idempotent: true },
+      );
+
+      if (!response) {
+        throw new Error('No response received from Snake Ways');
+      }
+
+      const user = await this.refreshUser(userId);
+
+      this.logger.log(
+        chalk.green.bold(
+          `Updated autocredit for user ${user.name} (${user.id}): ${user.autocreditStatus}`,
+        ),
+      );
+
+      return user;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to update autocredit for user ${userId}`),
+        error,
+      );
+      throw new Error(
+        `Failed to update autocredit for user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Map a Prisma autocredit interval to the Snake Ways autocredit interval
+   */
+  toSnakeWaysAutocreditInterval(
+    interval: PrismaAutocreditInterval,
+  ): AutocreditInterval {
+    switch (interval) {
+      case PrismaAutocreditInterval.WEEKLY:
+        return AutocreditInterval.WEEKLY;
+      case PrismaAutocreditInterval.DAILY:
+        return AutocreditInterval.DAILY;
+      default:
+        return AutocreditInterval.MONTHLY;
+    }
+  }
+
+  /**
+   * Map a Prisma autocredit type to the Snake Ways autocredit type
+   */
+  toSnakeWaysAutocreditType(type: PrismaAutocreditType): AutocreditType {
+    switch (type) {
+      case PrismaAutocreditType.SET_TO_VALUE:
+        return AutocreditType.SET_TO_VALUE;
+      default:
+        return AutocreditType.ADD_VALUE;
+    }
+  }
+
+  /**
+   * Map a Prisma autocredit status to the Snake Ways autocredit status
+   */
+  toSnakeWaysAutocreditStatus(
+    status: PrismaAutocreditStatus,
+  ): AutocreditStatusEnum {
+    switch (status) {
+      case PrismaAutocreditStatus.ENABLED:
+        return AutocreditStatusEnum.ENABLED;
+      default:
+        return AutocreditStatusEnum.DISABLED;
+    }
+  }
+
+  /**
+   * Map a Prisma access level to the Snake Ways access level
+   */
+  toSnakeWaysAccessLevel(level: PrismaUserAccessLevel): UserAccessLevel {
+    switch (level) {
+      case PrismaUserAccessLevel.ADMIN:
+        return UserAccessLevel.ADMIN;
+      case PrismaUserAccessLevel.SITE_ADMIN:
+        return UserAccessLevel.SITE_ADMIN;
+      case PrismaUserAccessLevel.SITE_MASTER:
+        return UserAccessLevel.SITE_MASTER;
+      case PrismaUserAccessLevel.PREPAID_USER:
+        return UserAccessLevel.PREPAID_USER;
+      default:
+        return UserAccessLevel.USER;
+    }
+  }
+
+  /**
+   * Re-read a user from Snake Ways after a write and store it locally with a snapshot.
+   * Usage figures are kept from the last sync since they are only recalculated by polling.
+   */
+  private async refreshUser(userId: string): Promise<PrismaUser> {
+    const swUser = await this.getUserById(userId);
+
+    if (!swUser) {
+      throw new Error(`User ${userId} not found in Snake Ways`);
+    }
+
+    const autocredit = (await this.getAllAutocredits()).find(
+      (item) => item.UserID === userId,
+    );
+
+    const existingUser = await this.prismaService.user.findUnique({
+      where: { id: userId },
+    });
+
+    const usageSummary: UserUsageSummary | undefined = existingUser
+      ? {
+          userId,
+          totalDebit: Number(existingUser.usageDebit),
+          totalRx: Number(existingUser.usageRx),
+          totalTx: Number(existingUser.usageTx),
+          quota: Number(existingUser.usageQuota),
+          credit: Number(existingUser.usageCredit),
+          lastUpdate: existingUser.lastUsageUpdate || new Date(),
+        }
+      : undefined;
+
+    const user = await this.prismaService.user.upsert(
+      this.transformToPrismaUser(swUser, autocredit, usageSummary),
+    );
+
+    await this.upsertDailySnapshot(user);
+    this.publishCredit(user);
+
+    return user;
+  }
+
+  /**
+   * Push the credit of a user to the live stream when it changed
+   */
+  private publishCredit(user: PrismaUser): void {
+    this.liveEvents.publish(LiveChannel.CREDIT, toCreditLiveState(user), {
+      userId: user.id,
+      key: `${LiveChannel.CREDIT}:${user.id}`,
+    });
+  }
 }
@@ -1,14 +1,13 @@
-import {
-  Injectable,
-  Logger,
-  OnModuleDestroy,
-  OnModuleInit,
-} from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { SnakeWaysBaseService } from '../snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from '../sync-result';
 import { ApiProperty } from '@nestjs/swagger';
-import { Observable, Subscription } from 'rxjs';
 import { PrismaService } from '../../prisma/prisma.service';
+import { SyncTrigger } from '@prisma/client';
+import { SyncResource } from 'src/sync/dto';
+import { SyncRunService } from 'src/sync/sync-run.service';
 import { ConfigService } from '@nestjs/config';
 import {
   differenceInDays,
@@ -41,6 +40,26 @@ export class WanUsage {
   })
   Bytes: number;
 
+  /**
+   * Bytes received (downloaded), only present when Snake Ways reports the split
+   */
+  @ApiProperty({
+    description: 'Bytes received (downloaded) during this period',
+    example: 193227439,
+    required: false,
+  })
+  RX?: number;
+
+  /**
+   * Bytes transmitted (uploaded), only present when Snake Ways reports the split
+   */
+  @ApiProperty({
+    description: 'Bytes transmitted (uploaded) during this period',
+    example: 21469716,
+    required: false,
+  })
+  TX?: number;
+
   /**
    * End time of record as unix timestamp, 0: record is active
    */
@@ -103,128 +122,50 @@ export interface AggregatedWanUsage {
 }
 
 @Injectable()
-export class SnakeWaysWanUsageService
-  extends SnakeWaysBaseService
-  implements OnModuleInit, OnModuleDestroy
-{
-  private wanUsagePollingSubscription: Subscription;
-  private wanUsageDataStream$: Observable<{ wanusage: WanUsage[] } | null>;
-  private pollingActive = false;
-  private pollingIntervalInMins: number;
-  private defaultDaysToFetch: number;
-
+export class SnakeWaysWanUsageService extends SnakeWaysBaseService {
   constructor(
     protected readonly httpService: HttpService,
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
+    private readonly syncRunService: SyncRunService,
   ) {
-    super(httpService);
+    super(httpService, circuitBreaker, configService);
     // Override logger with this class name
     Object.defineProperty(this, 'logger', {
       value: new Logger(SnakeWaysWanUsageService.name),
     });
-
-    // Get polling interval from config
-    this.pollingIntervalInMins =
-      this.configService.get<number>('SNAKE_WAYS_WAN_USAGE_POLLING_INTERVAL') ||
-      1; // Default to 1 minute
-
-    // Get default days to fetch from config
-    // We will only fetch the current month's usage data
-    const today = new Date();
-    this.defaultDaysToFetch =
-      differenceInDays(startOfDay(today), startOfMonth(today)) + 1;
-  }
-
-  /**
-   * Initialize polling when module starts
-   */
-  async onModuleInit() {
-    this.startPollingWanUsage();
   }
 
   /**
-   * Start polling WAN usage from Snake Ways
+   * Fetch this month's WAN usage from Snake Ways and store it, run by the
+   * sync orchestrator once the WANs are synced
    */
-  private startPollingWanUsage() {
-    if (this.pollingActive) {
-      this.logger.log(
-        chalk.yellow('WAN Usage Polling is already active, not starting again'),
-      );
-      return;
-    }
-
-    this.pollingActive = true;
-
-    this.logger.log(
-      chalk.blue.bold(
-        `Starting to poll WAN usage from Snake Ways every ${this.pollingIntervalInMins} minutes`,
-      ),
-    );
-
-    // Create the endpoint with the days parameter
-    const endpoint = `/wanusage?days=${this.defaultDaysToFetch}`;
-
-    this.wanUsageDataStream$ = this.createPollingObservable<{
-      wanusage: WanUsage[];
-    }>(
-      endpoint,
-      this.pollingIntervalInMins * 1000, // Convert minutes to milliseconds
+  async sync(): Promise<SyncResult> {
+    const response = await this.poll<{ wanusage: WanUsage[] }>(
+      `/wanusage?days=${this.getDaysThisMonth()}`,
     );
+    if (!response?.wanusage) {
+      throw new Error('No WAN usage records returned from Snake Ways');
+    }
 
-    this.wanUsagePollingSubscription = this.wanUsageDataStream$.subscribe({
-      next: async (data) => {
-        if (data?.wanusage) {
-          await this.syncWanUsageWithDatabase(data.wanusage);
-        }
-      },
-      error: (error) => {
-        // This should rarely be called since we're catching errors in the observable
-        this.logger.error(
-          chalk.red.bold('Unexpected error in WAN usage polling subscription'),
-          error,
-        );
-        // Don't set pollingActive to false here to allow retries
-        // Instead, log that we'll try to recover
-        this.logger.warn(
-          chalk.yellow.bold('Attempting to recover from polling error'),
-        );
-      },
-      complete: () => {
-        this.logger.warn(
-          chalk.yellow.bold(
-            'Polling WAN usage from Snake Ways completed or stopped due to max failures',
-          ),
-        );
-        this.pollingActive = false;
-      },
-    });
+    return await this.syncWanUsageWithDatabase(response.wanusage);
   }
 
   /**
-   * Attempt to restart polling if it has stopped
-   * This can be called by a controller endpoint or scheduled job
+   * Days of history covering the current month, today included
    */
-  public async restartPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(
-        chalk.blue.bold('Attempting to restart WAN usage polling'),
-      );
-      // Reset the service availability status
-      this.resetServiceAvailability();
-      // Reset the consecutive failures counter for this endpoint
-      this.resetConsecutiveFailures('/wanusage');
-      // Start polling again
-      this.startPollingWanUsage();
-      return true;
-    }
-    return false;
+  private getDaysThisMonth(): number {
+    const today = new Date();
+    return differenceInDays(startOfDay(today), startOfMonth(today)) + 1;
   }
 
   /**
    * Sync received WAN usage with the database
    */
-  private async syncWanUsageWithDatabase(wanUsageData: WanUsage[]) {
+  private async syncWanUsageWithDatabase(
+    wanUsageData: WanUsage[],
+  ): Promise<SyncResult> {
     try {
       this.logger.log(
         chalk.cyan(
@@ -232,6 +173,7 @@ export class SnakeWaysWanUsageService
         ),
       );
 
+      const result = emptySyncResult(wanUsageData.length);
       const today = new Date();
       const startOfToday = startOfDay(today);
 
@@ -247,6 +189,7 @@ export class SnakeWaysWanUsageService
               `WAN with ID ${usageData.WanID} not found, skipping usage record`,
             ),
           );
+          result.skipped++;
           continue;
         }
 
@@ -272,6 +215,7 @@ export class SnakeWaysWanUsageService
             data: createData,
           });
 
+          result.created++;
           this.logger.log(
             chalk.green.bold(
               `Created WAN usage snapshot for ${usageData.Name} (${usageData.WanID})`,
@@ -284,6 +228,7 @@ export class SnakeWaysWanUsageService
             data: updateData,
           });
 
+          result.updated++;
           this.logger.log(
             chalk.green(
               `Updated WAN usage snapshot for ${usageData.Name} (${usageData.WanID})`,
@@ -295,11 +240,13 @@ export class SnakeWaysWanUsageService
       this.logger.log(
         chalk.green.bold('WAN usage sync completed successfully'),
       );
+      return result;
     } catch (error) {
       this.logger.error(
         chalk.red.bold('Failed to sync WAN usage with database'),
         error,
       );
+      throw error;
     }
   }
 
@@ -312,6 +259,8 @@ export class SnakeWaysWanUsageService
   private transformToPrismaWanUsage(usageData: WanUsage, wanId: string) {
     // Convert bytes to BigInt
     const bytes = BigInt(usageData.Bytes);
+    const rxBytes = BigInt(usageData.RX ?? 0);
+    const txBytes = BigInt(usageData.TX ?? 0);
     const maxBytes = BigInt(usageData.MaxBytes);
 
     // Convert timestamps to Date objects
@@ -330,6 +279,8 @@ export class SnakeWaysWanUsageService
       wanId,
       snapshotDate: today,
       bytes,
+      rxBytes,
+      txBytes,
       maxBytes,
       startTime,
       endTime,
@@ -338,6 +289,8 @@ export class SnakeWaysWanUsageService
     // Create data for update operation
     const updateData = {
       bytes,
+      rxBytes,
+      txBytes,
       maxBytes,
       startTime,
       endTime,
@@ -391,11 +344,14 @@ export class SnakeWaysWanUsageService
     );
     try {
       // Use provided days or default
-      const daysToFetch = days || this.defaultDaysToFetch;
+      const daysToFetch = days || this.getDaysThisMonth();
 
       // Fetch latest WAN usage from Snake Ways
+      // Months of history take Snake Ways a while to put together
       const response = await this.get<{ wanusage: WanUsage[] }>(
         `/wanusage?days=${daysToFetch}`,
+        undefined,
+        { timeoutMs: 30000 },
       );
 
       if (!response?.wanusage) {
@@ -407,8 +363,12 @@ export class SnakeWaysWanUsageService
         return { count: 0 };
       }
 
-      // Perform synchronization
-      await this.syncWanUsageWithDatabase(response.wanusage);
+      // Perform synchronization, recorded as a manual sync run
+      await this.syncRunService.track(
+        SyncResource.WAN_USAGE,
+        SyncTrigger.MANUAL,
+        () => this.syncWanUsageWithDatabase(response.wanusage),
+      );
 
       this.logger.log(
         chalk.green.bold(
@@ -440,6 +400,8 @@ export class SnakeWaysWanUsageService
         usageData.Endtime > 0 ? new Date(usageData.Endtime * 1000) : null;
 
       const bytes = BigInt(usageData.Bytes);
+      const rxBytes = BigInt(usageData.RX ?? 0);
+      const txBytes = BigInt(usageData.TX ?? 0);
       const maxBytes = BigInt(usageData.MaxBytes);
 
       // Create a WanUsageEntity instance with constructor
@@ -448,6 +410,8 @@ export class SnakeWaysWanUsageService
         wanId: usageData.WanID,
         wanName: usageData.Name, // Include the WAN name from the API response
         bytes,
+        rxBytes,
+        txBytes,
         maxBytes,
         startTime,
         endTime,
@@ -628,13 +592,4 @@ export class SnakeWaysWanUsageService
       throw new Error(`Failed to get aggregated WAN usage: ${error.message}`);
     }
   }
-
-  // Stop polling when application shuts down
-  onModuleDestroy() {
-    if (this.wanUsagePollingSubscription) {
-      this.logger.log(chalk.blue('Stopping WAN usage polling'));
-      this.wanUsagePollingSubscription.unsubscribe();
-      this.pollingActive = false;
-    }
-  }
 }
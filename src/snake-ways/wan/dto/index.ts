@@ -1,6 +1,7 @@
 export { ChangeSystemRouteDto } from './change-system-route.dto';
 export {
   SystemRouteResponse,
+  CachedSystemRouteResponse,
   RouteType,
   RouteStatus,
   SnakeWaysSystemRouteResponse,
@@ -92,3 +92,21 @@ export class SystemRouteResponse {
   })
   routeType: RouteType;
 }
+
+/**
+ * System route as last read by the route poller
+ */
+export class CachedSystemRouteResponse extends SystemRouteResponse {
+  @ApiProperty({
+    description: 'When the route was last read from Snake Ways',
+    example: '2025-07-31T10:30:00Z',
+  })
+  lastUpdated: Date;
+
+  @ApiProperty({
+    description:
+      'True when the last poll failed or the route is older than a few polling intervals, e.g. while Snake Ways is busy or down',
+    example: false,
+  })
+  stale: boolean;
+}
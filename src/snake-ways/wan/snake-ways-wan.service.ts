@@ -1,13 +1,17 @@
-import { OnModuleDestroy } from '@nestjs/common';
 // src/external-service/external-user.service.ts
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { SnakeWaysBaseService } from '../snake-ways-base.service';
+import { SnakeWaysCircuitBreakerService } from '../snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from '../sync-result';
 import { ApiProperty } from '@nestjs/swagger';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { SyncResource } from 'src/sync/dto';
+import { SyncRunService } from 'src/sync/sync-run.service';
+import { LiveEventsService } from 'src/live/live-events.service';
+import { LiveChannel } from 'src/live/interfaces';
+import { toWanLiveState } from 'src/live/live-state';
 import { ConfigService } from '@nestjs/config';
-import { Subscription } from 'rxjs';
-import { Observable } from 'rxjs';
 import {
   Wan as PrismaWan,
   PrepaidUsageMode as PrismaPrepaidUsageMode,
@@ -15,11 +19,15 @@ import {
   WanStatus as PrismaWanStatus,
   UsagePeriodType as PrismaUsagePeriodType,
   UsageLimitStatus as PrismaUsageLimitStatus,
+  SystemRouteStatus as PrismaSystemRouteStatus,
+  SystemRouteType as PrismaSystemRouteType,
+  SyncTrigger,
 } from '@prisma/client';
 import { WanEntity } from 'src/wan/entities/wan.entity';
 import { ChangeSystemRouteDto } from './dto/change-system-route.dto';
 import {
   SystemRouteResponse,
+  CachedSystemRouteResponse,
   RouteType,
   RouteStatus,
   SnakeWaysSystemRouteResponse,
@@ -28,6 +36,13 @@ import {
   SnakeWaysRouteStatus,
 } from './dto/system-route-response.dto';
 const chalk = require('chalk');
+
+// The single row of the SystemRoute table
+const SYSTEM_ROUTE_ID = 'current';
+
+// The cached route is stale once this many polls were missed
+const ROUTE_STALE_AFTER_POLLS = 3;
+
 /**
  * Enum for prepaid usage settings
  */
@@ -310,99 +325,69 @@ export class Wan {
 }
 
 @Injectable()
-export class SnakeWaysWanService
-  extends SnakeWaysBaseService
-  implements OnModuleInit, OnModuleDestroy
-{
-  private wanPollingSubscription: Subscription;
-  private wanDataStream$: Observable<{ wan: Wan[] } | null>;
-  private pollingActive = false;
-  private pollingIntervalInMins: number;
+export class SnakeWaysWanService extends SnakeWaysBaseService {
+  private routePollingIntervalInSecs: number;
 
   constructor(
     protected readonly httpService: HttpService,
+    protected readonly circuitBreaker: SnakeWaysCircuitBreakerService,
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
+    private readonly syncRunService: SyncRunService,
+    private readonly liveEvents: LiveEventsService,
   ) {
-    super(httpService);
+    super(httpService, circuitBreaker, configService);
     // Override logger with this class name
     Object.defineProperty(this, 'logger', {
       value: new Logger(SnakeWaysWanService.name),
     });
 
-    this.pollingIntervalInMins =
-      this.configService.get<number>('SNAKE_WAYS_WAN_POLLING_INTERVAL') || 100;
+    this.routePollingIntervalInSecs =
+      Number(this.configService.get('SNAKE_WAYS_ROUTE_POLLING_INTERVAL')) || 10;
   }
 
-  async onModuleInit() {
-    this.startPollingWans();
-  }
-
-  private startPollingWans() {
-    if (this.pollingActive) {
-      this.logger.log(
-        chalk.yellow('Wan Polling is already active, not starting again'),
-      );
-      return;
+  /**
+   * Fetch the WANs from Snake Ways and store them, run by the sync
+   * orchestrator once the interfaces are synced
+   */
+  async sync(): Promise<SyncResult> {
+    const response = await this.poll<{ wan: Wan[] }>('/wan');
+    if (!response?.wan) {
+      throw new Error('No WANs returned from Snake Ways');
     }
 
-    this.pollingActive = true;
-
-    this.logger.log(
-      chalk.blue.bold(
-        `Starting to poll WANs from Snake Ways every ${this.pollingIntervalInMins} minutes`,
-      ),
-    );
-
-    this.wanDataStream$ = this.createPollingObservable<{ wan: Wan[] }>(
-      '/wan',
-      this.pollingIntervalInMins * 1000, // Convert minutes to milliseconds
-    );
-
-    this.wanPollingSubscription = this.wanDataStream$.subscribe({
-      next: async (data) => {
-        if (data?.wan) {
-          await this.syncWansWithDatabase(data.wan);
-        }
-      },
-      error: (error) => {
-        // This should rarely be called since we're catching errors in the observable
-        this.logger.error(
-          chalk.red.bold('Unexpected error in WAN polling subscription'),
-          error,
-        );
-        // Don't set pollingActive to false here to allow retries
-        // Instead, log that we'll try to recover
-        this.logger.warn(
-          chalk.yellow.bold('Attempting to recover from polling error'),
-        );
-      },
-      complete: () => {
-        this.logger.warn(
-          chalk.yellow.bold(
-            'Polling wans from Snake Ways completed or stopped due to max failures',
-          ),
-        );
-        this.pollingActive = false;
-      },
-    });
+    return await this.syncWansWithDatabase(response.wan);
   }
 
-  public async restartPollingIfStopped(): Promise<boolean> {
-    if (!this.pollingActive) {
-      this.logger.log(chalk.blue.bold('Attempting to restart wan polling'));
-      // Reset the service availability status
-      this.resetServiceAvailability();
-      // Reset the consecutive failures counter for this endpoint
-      this.resetConsecutiveFailures('/wan');
-      // Start polling again
-      this.startPollingWans();
-      return true;
+  /**
+   * Read the system route into the database, so reading it never waits on
+   * Snake Ways. Snake Ways can switch WAN on its own in automatic mode, so
+   * the sync orchestrator runs this more often than the WAN sync.
+   * A failed read flags the cached route as stale.
+   */
+  async syncRoute(): Promise<SystemRouteResponse> {
+    let routeData: SnakeWaysRouteData | undefined;
+    try {
+      const response = await this.poll<SnakeWaysSystemRouteResponse>('/route');
+      routeData = response?.route?.[0];
+    } catch (error) {
+      await this.markSystemRouteFailed();
+      throw error;
+    }
+
+    if (!routeData) {
+      await this.markSystemRouteFailed();
+      throw new Error('No route returned from Snake Ways');
     }
-    return false;
+
+    const route = this.mapSnakeWaysRouteResponse(routeData);
+    await this.cacheSystemRoute(route);
+    return route;
   }
 
-  private async syncWansWithDatabase(snakeWaysWans: Wan[]) {
+  private async syncWansWithDatabase(
+    snakeWaysWans: Wan[],
+  ): Promise<SyncResult> {
     try {
       this.logger.log(
         chalk.cyan(
@@ -410,18 +395,57 @@ export class SnakeWaysWanService
         ),
       );
 
+      // Status before this sync, to record transitions for availability reports
+      const previousStatuses = new Map(
+        (
+          await this.prismaService.wan.findMany({
+            select: { id: true, wanStatus: true },
+          })
+        ).map((wan) => [wan.id, wan.wanStatus]),
+      );
+
+      const result = emptySyncResult(snakeWaysWans.length);
+      const wans: PrismaWan[] = [];
       for (const swWan of snakeWaysWans) {
         const upsertData = this.transformToPrismaWan(swWan);
 
         const wan = await this.prismaService.wan.upsert(upsertData);
+        wans.push(wan);
+
+        if (previousStatuses.has(wan.id)) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+
+        const previousStatus = previousStatuses.get(wan.id);
+        if (previousStatus !== wan.wanStatus) {
+          await this.prismaService.wanStatusEvent.create({
+            data: {
+              wanId: wan.id,
+              fromStatus: previousStatus ?? null,
+              toStatus: wan.wanStatus,
+            },
+          });
+          this.logger.log(
+            chalk.yellow(
+              `WAN ${wan.wanName} status changed: ${previousStatus ?? 'none'} -> ${wan.wanStatus}`,
+            ),
+          );
+        }
 
         this.logger.log(
           chalk.green(`Synced Prisma Wan: ${wan.wanName} (${wan.id})`),
         );
       }
+      this.liveEvents.publish(LiveChannel.WAN, wans.map(toWanLiveState), {
+        key: LiveChannel.WAN,
+      });
       this.logger.log(chalk.green.bold(`Wan sync completed successfully`));
+      return result;
     } catch (error) {
       this.logger.error('Failed to sync WANs with database', error);
+      throw error;
     }
   }
 
@@ -532,6 +556,8 @@ export class SnakeWaysWanService
         interfaceId: swWan.InterfaceID,
         ipAddress: swWan.IpAddress,
         ipGateway: swWan.IpGateway,
+        subnetmask: swWan.Subnetmask,
+        switchPriority: swWan.SwitchPriority,
         prepaidUsageMaxVolume: swWan.PrepaidUsageMaxVolume,
         prepaidUsagePeriodType: mapUsagePeriodType(
           swWan.PrepaidUsagePeriodType,
@@ -556,6 +582,8 @@ export class SnakeWaysWanService
         interfaceId: swWan.InterfaceID,
         ipAddress: swWan.IpAddress,
         ipGateway: swWan.IpGateway,
+        subnetmask: swWan.Subnetmask,
+        switchPriority: swWan.SwitchPriority,
         prepaidUsageMaxVolume: swWan.PrepaidUsageMaxVolume,
         prepaidUsagePeriodType: mapUsagePeriodType(
           swWan.PrepaidUsagePeriodType,
@@ -578,8 +606,8 @@ export class SnakeWaysWanService
    */
   async getAllWans(): Promise<Wan[]> {
     try {
-      const wans = await this.get<Wan[]>('/wan');
-      return wans || [];
+      const response = await this.get<{ wan: Wan[] }>('/wan');
+      return response?.wan || [];
     } catch (error) {
       this.logger.error('Failed to get WAN connections', error);
       throw new Error(`Failed to get WAN connections: ${error.message}`);
@@ -610,8 +638,12 @@ export class SnakeWaysWanService
         return { count: prismaWans.length, wans: prismaWans };
       }
 
-      // Perform synchronization
-      await this.syncWansWithDatabase(response.wan);
+      // Perform synchronization, recorded as a manual sync run
+      await this.syncRunService.track(
+        SyncResource.WANS,
+        SyncTrigger.MANUAL,
+        () => this.syncWansWithDatabase(response.wan),
+      );
 
       this.logger.log(
         chalk.green.bold(
@@ -637,9 +669,15 @@ export class SnakeWaysWanService
     try {
       this.logger.log(chalk.blue(`Changing system route to WAN: ${wanId}`));
 
-      const response = await this.put<SnakeWaysSystemRouteResponse>('/route', {
-        WanID: wanId,
-      });
+      // Setting the route twice has the same effect, so the request can be
+      // retried after a timeout, and concurrent switches to the same WAN are
+      // sent once
+      const response = await this.put<SnakeWaysSystemRouteResponse>(
+        '/route',
+        { WanID: wanId },
+        undefined,
+        { idempotent: true, idempotencyKey: `PUT /route ${wanId}` },
+      );
 
       if (!response) {
         throw new Error('No response received from Snake Ways');
@@ -660,17 +698,23 @@ export class SnakeWaysWanService
         );
       }
 
-      // Sync wans with database after changing the system route
+      // Sync wans with database after changing the system route, recorded as
+      // a manual sync run
       const wans = await this.getAllWans();
       this.logger.log(
         chalk.cyan(
           `Retrieved Wans after changing system route: ${JSON.stringify(wans)}`,
         ),
       );
-      await this.syncWansWithDatabase(wans);
+      await this.syncRunService.track(
+        SyncResource.WANS,
+        SyncTrigger.MANUAL,
+        () => this.syncWansWithDatabase(wans),
+      );
 
       const routeData = response.route[0];
       const mappedResponse = this.mapSnakeWaysRouteResponse(routeData);
+      await this.cacheSystemRoute(mappedResponse);
 
       this.logger.log(
         chalk.green(
@@ -716,6 +760,7 @@ export class SnakeWaysWanService
 
       const routeData = response.route[0];
       const mappedResponse = this.mapSnakeWaysRouteResponse(routeData);
+      await this.cacheSystemRoute(mappedResponse);
 
       this.logger.log(
         chalk.green(
@@ -730,6 +775,75 @@ export class SnakeWaysWanService
     }
   }
 
+  /**
+   * Get the system route as last read by the route sync, without calling
+   * Snake Ways
+   * @returns The cached route, null if it was never read
+   */
+  async getCachedSystemRoute(): Promise<CachedSystemRouteResponse | null> {
+    const cached = await this.prismaService.systemRoute.findUnique({
+      where: { id: SYSTEM_ROUTE_ID },
+    });
+    if (!cached) return null;
+
+    const maxAgeMs =
+      this.routePollingIntervalInSecs * 1000 * ROUTE_STALE_AFTER_POLLS;
+
+    return {
+      wanId: cached.wanId,
+      status: RouteStatus[cached.status],
+      routeType: RouteType[cached.routeType],
+      lastUpdated: cached.fetchedAt,
+      stale:
+        Date.now() - cached.fetchedAt.getTime() > maxAgeMs ||
+        (!!cached.failedAt && cached.failedAt > cached.fetchedAt),
+    };
+  }
+
+  /**
+   * Store the route just read from Snake Ways and publish it to live clients.
+   * Failures are logged so reading the route never fails on the cache.
+   */
+  private async cacheSystemRoute(route: SystemRouteResponse): Promise<void> {
+    const data = {
+      wanId: route.wanId,
+      routeType: PrismaSystemRouteType[route.routeType],
+      status: PrismaSystemRouteStatus[route.status],
+      fetchedAt: new Date(),
+    };
+
+    try {
+      await this.prismaService.systemRoute.upsert({
+        where: { id: SYSTEM_ROUTE_ID },
+        update: data,
+        create: { id: SYSTEM_ROUTE_ID, ...data },
+      });
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to cache the system route'), error);
+    }
+
+    this.liveEvents.publish(LiveChannel.ROUTE, route, {
+      key: LiveChannel.ROUTE,
+    });
+  }
+
+  /**
+   * Flag the cached route as stale after a failed poll
+   */
+  private async markSystemRouteFailed(): Promise<void> {
+    try {
+      await this.prismaService.systemRoute.updateMany({
+        where: { id: SYSTEM_ROUTE_ID },
+        data: { failedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.error(
+        chalk.red('Failed to flag the cached system route as stale'),
+        error,
+      );
+    }
+  }
+
   /**
    * Map Snake Ways route type to application route type
    */
@@ -777,14 +891,6 @@ export class SnakeWaysWanService
     };
   }
 
-  onModuleDestroy() {
-    if (this.wanPollingSubscription) {
-      this.logger.log(chalk.blue('Stopping wan polling'));
-      this.wanPollingSubscription.unsubscribe();
-      this.pollingActive = false;
-    }
-  }
-
   transformToWanEntities(swWans: Wan[]) {
     const wans: WanEntity[] = [];
 
@@ -0,0 +1,2 @@
+export * from './sync-run-query.dto';
+export * from './sync-status.dto';
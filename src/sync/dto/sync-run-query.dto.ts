@@ -0,0 +1,75 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SyncTrigger } from '@prisma/client';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { SyncResource } from './sync-status.dto';
+
+export class SyncRunQueryDto {
+  @ApiProperty({
+    enum: SyncResource,
+    description: 'Filter by synced resource',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SyncResource)
+  resource?: SyncResource;
+
+  @ApiProperty({
+    enum: SyncTrigger,
+    description: 'Filter by what started the run',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SyncTrigger)
+  trigger?: SyncTrigger;
+
+  @ApiProperty({
+    description: 'Only failed runs when true, only successful runs when false',
+    required: false,
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  failed?: boolean;
+
+  @ApiProperty({
+    description: 'Start date for filtering runs (YYYY-MM-DD)',
+    required: false,
+    example: '2025-08-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'End date for filtering runs (YYYY-MM-DD)',
+    required: false,
+    example: '2025-08-02',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of runs to return',
+    required: false,
+    example: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Data synced from Snake Ways, as used in the sync routes
+ */
+export enum SyncResource {
+  INTERFACES = 'interfaces',
+  WANS = 'wans',
+  ROUTE = 'route',
+  LANS = 'lans',
+  WAN_USAGE = 'wan-usage',
+  LAN_USAGE = 'lan-usage',
+  USERS = 'users',
+}
+
+export enum SyncJobState {
+  /** Not run since startup */
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+  /** A job it depends on hasn't synced yet */
+  WAITING = 'WAITING',
+  /** Skipped by the schedule until resumed */
+  PAUSED = 'PAUSED',
+}
+
+export class SyncJobStatusDto {
+  @ApiProperty({ enum: SyncResource, example: SyncResource.LANS })
+  resource: SyncResource;
+
+  @ApiProperty({ enum: SyncJobState, example: SyncJobState.SUCCEEDED })
+  state: SyncJobState;
+
+  @ApiProperty({
+    enum: SyncResource,
+    isArray: true,
+    description: 'Jobs that must have synced before this one runs',
+    example: [SyncResource.INTERFACES],
+  })
+  dependsOn: SyncResource[];
+
+  @ApiProperty({ example: 100 })
+  intervalSeconds: number;
+
+  @ApiProperty({ example: false })
+  paused: boolean;
+
+  @ApiProperty({ nullable: true, description: 'When the last run started' })
+  lastRunAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  lastSuccessAt: Date | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Duration of the last run',
+    example: 412,
+  })
+  lastDurationMs: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Records synced by the last successful run',
+    example: 3,
+  })
+  lastCount: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    example: 'No LANs returned from Snake Ways',
+  })
+  lastError: string | null;
+
+  @ApiProperty({ nullable: true })
+  lastErrorAt: Date | null;
+
+  @ApiProperty({ example: 0 })
+  consecutiveFailures: number;
+
+  @ApiProperty({
+    nullable: true,
+    description:
+      'When the schedule runs the job next, null while paused or before its first run',
+  })
+  nextRunAt: Date | null;
+}
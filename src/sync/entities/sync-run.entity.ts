@@ -0,0 +1,77 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prisma, SyncRun, SyncTrigger } from '@prisma/client';
+
+export class SyncRunEntity implements SyncRun {
+  constructor(partial: Partial<SyncRun>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the run',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Synced resource',
+    example: 'wans',
+  })
+  resource: string;
+
+  @ApiProperty({
+    enum: SyncTrigger,
+    description: 'What started the run',
+    example: SyncTrigger.POLL,
+  })
+  trigger: SyncTrigger;
+
+  @ApiProperty({
+    description: 'When the run started',
+    example: '2025-08-02T10:30:00Z',
+  })
+  startedAt: Date;
+
+  @ApiProperty({
+    description: 'When the run ended',
+    example: '2025-08-02T10:30:02Z',
+  })
+  endedAt: Date;
+
+  @ApiProperty({
+    description: 'Records returned by Snake Ways',
+    example: 3,
+  })
+  fetched: number;
+
+  @ApiProperty({
+    description: 'Records stored for the first time',
+    example: 0,
+  })
+  created: number;
+
+  @ApiProperty({
+    description: 'Records already stored and updated',
+    example: 3,
+  })
+  updated: number;
+
+  @ApiProperty({
+    description: 'Records not stored, e.g. usage of a WAN not synced yet',
+    example: 0,
+  })
+  skipped: number;
+
+  @ApiProperty({
+    description: 'Why the run failed, null if it succeeded',
+    nullable: true,
+    example: null,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Name, code and HTTP status of the error',
+    nullable: true,
+    example: null,
+  })
+  errorDetails: Prisma.JsonValue | null;
+}
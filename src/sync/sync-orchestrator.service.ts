@@ -0,0 +1,323 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SyncTrigger } from '@prisma/client';
+import { SnakeWaysInterfaceService } from 'src/snake-ways/interface/snake-ways-interface.service';
+import { SnakeWaysLanUsageService } from 'src/snake-ways/lan-usage/snake-ways-lan-usage.service';
+import { SnakeWaysLanService } from 'src/snake-ways/lan/snake-ways-lan.service';
+import { SnakeWaysCircuitBreakerService } from 'src/snake-ways/snake-ways-circuit-breaker.service';
+import { SyncResult, emptySyncResult } from 'src/snake-ways/sync-result';
+import { SnakeWaysUserService } from 'src/snake-ways/user/snake-ways-user.service';
+import { SnakeWaysWanUsageService } from 'src/snake-ways/wan-usage/snake-ways-wan-usage.service';
+import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
+import { SyncJobState, SyncJobStatusDto, SyncResource } from './dto';
+import { SyncRunService } from './sync-run.service';
+const chalk = require('chalk');
+
+interface SyncJob {
+  resource: SyncResource;
+  dependsOn: SyncResource[];
+  intervalMs: number;
+  // Fetches the resource and stores it
+  sync: () => Promise<SyncResult>;
+  // PAUSED is reported from the paused flag, never stored
+  state: SyncJobState;
+  paused: boolean;
+  // Run in progress, for jobs depending on this one to wait on
+  current: Promise<void> | null;
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastDurationMs: number | null;
+  lastCount: number | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  consecutiveFailures: number;
+}
+
+/**
+ * Runs the Snake Ways syncs in dependency order: interfaces, WANs, LANs,
+ * usage, then users. The schedule checks every 10 seconds which jobs are due;
+ * a job waits for the jobs it depends on to finish their run, and doesn't run
+ * at all until they've synced once, so e.g. LANs never refer to interfaces
+ * that aren't stored yet. Every run is recorded in the sync run history.
+ */
+@Injectable()
+export class SyncOrchestrator implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SyncOrchestrator.name);
+  private readonly jobs = new Map<SyncResource, SyncJob>();
+
+  constructor(
+    config: ConfigService,
+    private readonly circuitBreaker: SnakeWaysCircuitBreakerService,
+    private readonly syncRunService: SyncRunService,
+    swInterfaceService: SnakeWaysInterfaceService,
+    swWanService: SnakeWaysWanService,
+    swLanService: SnakeWaysLanService,
+    swWanUsageService: SnakeWaysWanUsageService,
+    swLanUsageService: SnakeWaysLanUsageService,
+    swUserService: SnakeWaysUserService,
+  ) {
+    const intervalMs = (key: string, defaultSeconds: number) =>
+      (Number(config.get(key)) || defaultSeconds) * 1000;
+
+    // In pipeline order, a job is always listed after the jobs it depends on
+    this.addJob(
+      SyncResource.INTERFACES,
+      [],
+      intervalMs('SNAKE_WAYS_INTERFACE_POLLING_INTERVAL', 120),
+      () => swInterfaceService.sync(),
+    );
+    this.addJob(
+      SyncResource.WANS,
+      [SyncResource.INTERFACES],
+      intervalMs('SNAKE_WAYS_WAN_POLLING_INTERVAL', 100),
+      () => swWanService.sync(),
+    );
+    this.addJob(
+      SyncResource.ROUTE,
+      [SyncResource.WANS],
+      intervalMs('SNAKE_WAYS_ROUTE_POLLING_INTERVAL', 10),
+      async () => {
+        await swWanService.syncRoute();
+        return { ...emptySyncResult(1), updated: 1 };
+      },
+    );
+    this.addJob(
+      SyncResource.LANS,
+      [SyncResource.INTERFACES],
+      intervalMs('SNAKE_WAYS_LAN_POLLING_INTERVAL', 100),
+      () => swLanService.sync(),
+    );
+    this.addJob(
+      SyncResource.WAN_USAGE,
+      [SyncResource.WANS],
+      intervalMs('SNAKE_WAYS_WAN_USAGE_POLLING_INTERVAL', 60),
+      () => swWanUsageService.sync(),
+    );
+    this.addJob(
+      SyncResource.LAN_USAGE,
+      [SyncResource.WANS, SyncResource.LANS],
+      intervalMs('SNAKE_WAYS_LAN_USAGE_POLLING_INTERVAL', 60),
+      () => swLanUsageService.sync(),
+    );
+    this.addJob(
+      SyncResource.USERS,
+      [SyncResource.LANS],
+      intervalMs('SNAKE_WAYS_USERS_POLLING_INTERVAL', 100),
+      () => swUserService.sync(),
+    );
+  }
+
+  onApplicationBootstrap() {
+    this.startDueJobs(SyncTrigger.STARTUP);
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  runDueJobs(): void {
+    this.startDueJobs(SyncTrigger.POLL);
+  }
+
+  getStatus(): SyncJobStatusDto[] {
+    return [...this.jobs.values()].map((job) => this.toStatus(job));
+  }
+
+  /**
+   * Run a job now, even when paused or when the jobs it depends on haven't
+   * synced yet. Closes the Snake Ways service breaker first so the run isn't
+   * skipped.
+   * @param resource Resource to sync
+   * @returns The job status after the run
+   */
+  async run(resource: string): Promise<SyncJobStatusDto> {
+    const job = this.getJob(resource);
+    if (job.current) {
+      throw new ConflictException(
+        `The ${job.resource} sync is already running`,
+      );
+    }
+
+    this.logger.log(chalk.yellow.bold(`Manually running ${job.resource} sync`));
+    this.circuitBreaker.reset();
+
+    job.current = this.execute(job, SyncTrigger.MANUAL);
+    await job.current;
+
+    return this.toStatus(job);
+  }
+
+  /**
+   * Keep the schedule from running a job. A run in progress finishes.
+   */
+  pause(resource: string): SyncJobStatusDto {
+    const job = this.getJob(resource);
+    if (!job.paused) {
+      job.paused = true;
+      this.logger.log(chalk.yellow(`Paused ${job.resource} sync`));
+    }
+    return this.toStatus(job);
+  }
+
+  /**
+   * Hand a paused job back to the schedule, it runs on the next tick if due
+   */
+  resume(resource: string): SyncJobStatusDto {
+    const job = this.getJob(resource);
+    if (job.paused) {
+      job.paused = false;
+      this.logger.log(chalk.green(`Resumed ${job.resource} sync`));
+    }
+    return this.toStatus(job);
+  }
+
+  private addJob(
+    resource: SyncResource,
+    dependsOn: SyncResource[],
+    intervalMs: number,
+    sync: () => Promise<SyncResult>,
+  ): void {
+    this.jobs.set(resource, {
+      resource,
+      dependsOn,
+      intervalMs,
+      sync,
+      state: SyncJobState.PENDING,
+      paused: false,
+      current: null,
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastDurationMs: null,
+      lastCount: null,
+      lastError: null,
+      lastErrorAt: null,
+      consecutiveFailures: 0,
+    });
+  }
+
+  private getJob(resource: string): SyncJob {
+    const job = this.jobs.get(resource as SyncResource);
+    if (!job) {
+      throw new NotFoundException(
+        `Unknown sync resource ${resource}, expected one of ${[...this.jobs.keys()].join(', ')}`,
+      );
+    }
+    return job;
+  }
+
+  /**
+   * Start every job that is due, in pipeline order. Runs aren't awaited, so a
+   * slow user sync doesn't hold up the route.
+   */
+  private startDueJobs(trigger: SyncTrigger): void {
+    const now = Date.now();
+
+    for (const job of this.jobs.values()) {
+      if (job.paused || job.current) continue;
+      if (job.lastRunAt && now - job.lastRunAt.getTime() < job.intervalMs) {
+        continue;
+      }
+      job.current = this.execute(job, trigger);
+    }
+  }
+
+  /**
+   * Run a job once its dependencies are done. Never rejects, the outcome is
+   * kept on the job and recorded.
+   * @param trigger What started the run, manual runs go ahead even if a
+   * dependency never synced
+   */
+  private async execute(job: SyncJob, trigger: SyncTrigger): Promise<void> {
+    try {
+      const dependencies = job.dependsOn.map((resource) =>
+        this.getJob(resource),
+      );
+      await Promise.all(dependencies.map((dependency) => dependency.current));
+
+      const unsynced = dependencies.filter(
+        (dependency) => !dependency.lastSuccessAt,
+      );
+      if (trigger !== SyncTrigger.MANUAL && unsynced.length) {
+        if (job.state !== SyncJobState.WAITING) {
+          this.logger.log(
+            chalk.yellow(
+              `${job.resource} sync waiting for ${unsynced.map((dependency) => dependency.resource).join(', ')}`,
+            ),
+          );
+        }
+        job.state = SyncJobState.WAITING;
+        return;
+      }
+
+      const startedAt = new Date();
+      job.state = SyncJobState.RUNNING;
+      job.lastRunAt = startedAt;
+
+      let result: SyncResult | null = null;
+      let failure: unknown;
+      try {
+        result = await job.sync();
+
+        job.state = SyncJobState.SUCCEEDED;
+        job.lastSuccessAt = new Date();
+        job.lastCount = result.fetched;
+        job.consecutiveFailures = 0;
+      } catch (error) {
+        failure = error;
+        job.state = SyncJobState.FAILED;
+        job.lastError = error instanceof Error ? error.message : String(error);
+        job.lastErrorAt = new Date();
+        job.consecutiveFailures++;
+
+        this.logger.error(
+          chalk.red(
+            `${job.resource} sync failed (${job.consecutiveFailures} in a row): ${job.lastError}`,
+          ),
+        );
+      }
+
+      const endedAt = new Date();
+      job.lastDurationMs = endedAt.getTime() - startedAt.getTime();
+      await this.syncRunService.record({
+        resource: job.resource,
+        trigger,
+        startedAt,
+        endedAt,
+        result,
+        error: failure,
+      });
+    } catch (error) {
+      this.logger.error(chalk.red(`Failed to run ${job.resource} sync`), error);
+    } finally {
+      job.current = null;
+    }
+  }
+
+  private toStatus(job: SyncJob): SyncJobStatusDto {
+    return {
+      resource: job.resource,
+      state:
+        job.paused && job.state !== SyncJobState.RUNNING
+          ? SyncJobState.PAUSED
+          : job.state,
+      dependsOn: job.dependsOn,
+      intervalSeconds: job.intervalMs / 1000,
+      paused: job.paused,
+      lastRunAt: job.lastRunAt,
+      lastSuccessAt: job.lastSuccessAt,
+      lastDurationMs: job.lastDurationMs,
+      lastCount: job.lastCount,
+      lastError: job.lastError,
+      lastErrorAt: job.lastErrorAt,
+      consecutiveFailures: job.consecutiveFailures,
+      nextRunAt:
+        job.paused || !job.lastRunAt
+          ? null
+          : new Date(job.lastRunAt.getTime() + job.intervalMs),
+    };
+  }
+}
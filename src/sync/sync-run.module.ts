@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+import { SyncRunService } from './sync-run.service';
+
+// Global so the Snake Ways services can record force syncs without importing
+// the sync orchestrator
+@Global()
+@Module({
+  providers: [SyncRunService],
+  exports: [SyncRunService],
+})
+export class SyncRunModule {}
@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, SyncTrigger } from '@prisma/client';
+import { endOfDay, startOfDay, subDays } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SyncResult, emptySyncResult } from 'src/snake-ways/sync-result';
+import { SyncResource } from './dto';
+import { SyncRunEntity } from './entities';
+const chalk = require('chalk');
+
+export interface SyncRunRecord {
+  resource: SyncResource;
+  trigger: SyncTrigger;
+  startedAt: Date;
+  endedAt: Date;
+  // What the sync did, null if it failed
+  result: SyncResult | null;
+  // Why the sync failed
+  error?: unknown;
+}
+
+export interface SyncRunFilter {
+  resource?: SyncResource;
+  trigger?: SyncTrigger;
+  failed?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+/**
+ * History of the sync runs, kept for SYNC_RUN_RETENTION_DAYS. The route sync
+ * alone runs every 10 seconds by default, so older runs are pruned daily.
+ */
+@Injectable()
+export class SyncRunService {
+  private readonly logger = new Logger(SyncRunService.name);
+  private readonly retentionDays: number;
+
+  constructor(
+    private prisma: PrismaService,
+    config: ConfigService,
+  ) {
+    this.retentionDays = Number(config.get('SYNC_RUN_RETENTION_DAYS')) || 30;
+  }
+
+  /**
+   * Store a run. Failures are logged so a sync never fails on its history.
+   */
+  async record(run: SyncRunRecord): Promise<void> {
+    const failed = !run.result;
+    const { fetched, created, updated, skipped } =
+      run.result ?? emptySyncResult();
+
+    try {
+      await this.prisma.syncRun.create({
+        data: {
+          resource: run.resource,
+          trigger: run.trigger,
+          startedAt: run.startedAt,
+          endedAt: run.endedAt,
+          fetched,
+          created,
+          updated,
+          skipped,
+          error: failed ? this.errorMessage(run.error) : null,
+          errorDetails: failed ? this.errorDetails(run.error) : Prisma.JsonNull,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Failed to record ${run.resource} sync run`),
+        error,
+      );
+    }
+  }
+
+  /**
+   * Run a sync outside the orchestrator, e.g. a force sync, and record it. A
+   * failed sync is recorded, then its error rethrown.
+   */
+  async track(
+    resource: SyncResource,
+    trigger: SyncTrigger,
+    sync: () => Promise<SyncResult>,
+  ): Promise<SyncResult> {
+    const startedAt = new Date();
+    let result: SyncResult | null = null;
+    let failure: unknown;
+
+    try {
+      result = await sync();
+      return result;
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      await this.record({
+        resource,
+        trigger,
+        startedAt,
+        endedAt: new Date(),
+        result,
+        error: failure,
+      });
+    }
+  }
+
+  async findAll(filter: SyncRunFilter = {}): Promise<SyncRunEntity[]> {
+    const { resource, trigger, failed, startDate, endDate, limit } = filter;
+
+    const where: Prisma.SyncRunWhereInput = {
+      ...(resource && { resource }),
+      ...(trigger && { trigger }),
+      ...(failed !== undefined && {
+        error: failed ? { not: null } : null,
+      }),
+    };
+
+    if (startDate || endDate) {
+      where.startedAt = {
+        ...(startDate && { gte: startOfDay(startDate) }),
+        ...(endDate && { lte: endOfDay(endDate) }),
+      };
+    }
+
+    const runs = await this.prisma.syncRun.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      take: limit ?? 100,
+    });
+
+    return runs.map((run) => new SyncRunEntity(run));
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
+  async prune(): Promise<void> {
+    try {
+      const { count } = await this.prisma.syncRun.deleteMany({
+        where: { startedAt: { lt: subDays(new Date(), this.retentionDays) } },
+      });
+
+      if (count) {
+        this.logger.log(
+          chalk.cyan(
+            `Pruned ${count} sync runs older than ${this.retentionDays} days`,
+          ),
+        );
+      }
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to prune sync runs'), error);
+    }
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private errorDetails(error: any): Prisma.InputJsonObject {
+    return {
+      name: error?.name ?? null,
+      code: error?.code ?? null,
+      status: error?.response?.status ?? null,
+    };
+  }
+}
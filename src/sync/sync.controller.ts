@@ -0,0 +1,89 @@
+import { Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Audit } from 'src/audit/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
+import { Roles } from 'src/auth/decorators';
+import { SyncJobStatusDto, SyncRunQueryDto } from './dto';
+import { SyncRunEntity } from './entities';
+import { SyncOrchestrator } from './sync-orchestrator.service';
+import { SyncRunService } from './sync-run.service';
+
+@ApiTags('Sync')
+@Roles(...STAFF_ROLES)
+@Controller('sync')
+export class SyncController {
+  constructor(
+    private readonly syncOrchestrator: SyncOrchestrator,
+    private readonly syncRunService: SyncRunService,
+  ) {}
+
+  @Get('status')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the state of each Snake Ways sync, in pipeline order',
+    type: [SyncJobStatusDto],
+  })
+  @ApiOperation({ summary: 'Get the status of the Snake Ways syncs' })
+  getStatus(): SyncJobStatusDto[] {
+    return this.syncOrchestrator.getStatus();
+  }
+
+  @Get('runs')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns sync runs, most recent first',
+    type: [SyncRunEntity],
+  })
+  @ApiOperation({ summary: 'Get the history of the Snake Ways sync runs' })
+  async getRuns(@Query() query: SyncRunQueryDto): Promise<SyncRunEntity[]> {
+    const { resource, trigger, failed, startDate, endDate, limit } = query;
+    return await this.syncRunService.findAll({
+      resource,
+      trigger,
+      failed: failed !== undefined ? String(failed) === 'true' : undefined,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+
+  @Audit({ idParam: 'resource' })
+  @Post(':resource/run')
+  @ApiResponse({
+    status: 201,
+    description: 'Returns the status of the sync once it ran',
+    type: SyncJobStatusDto,
+  })
+  @ApiResponse({ status: 404, description: 'Unknown resource' })
+  @ApiResponse({ status: 409, description: 'The sync is already running' })
+  @ApiOperation({ summary: 'Run a sync now, even if paused' })
+  async run(@Param('resource') resource: string): Promise<SyncJobStatusDto> {
+    return await this.syncOrchestrator.run(resource);
+  }
+
+  @Audit({ idParam: 'resource' })
+  @Post(':resource/pause')
+  @ApiResponse({
+    status: 201,
+    description: 'Sync paused',
+    type: SyncJobStatusDto,
+  })
+  @ApiResponse({ status: 404, description: 'Unknown resource' })
+  @ApiOperation({ summary: 'Stop the schedule from running a sync' })
+  pause(@Param('resource') resource: string): SyncJobStatusDto {
+    return this.syncOrchestrator.pause(resource);
+  }
+
+  @Audit({ idParam: 'resource' })
+  @Post(':resource/resume')
+  @ApiResponse({
+    status: 201,
+    description: 'Sync resumed',
+    type: SyncJobStatusDto,
+  })
+  @ApiResponse({ status: 404, description: 'Unknown resource' })
+  @ApiOperation({ summary: 'Hand a paused sync back to the schedule' })
+  resume(@Param('resource') resource: string): SyncJobStatusDto {
+    return this.syncOrchestrator.resume(resource);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SnakeWaysBaseModule } from '../snake-ways/snake-ways-base.module';
+import { SyncOrchestrator } from './sync-orchestrator.service';
+import { SyncController } from './sync.controller';
+
+@Module({
+  imports: [SnakeWaysBaseModule],
+  controllers: [SyncController],
+  providers: [SyncOrchestrator],
+  exports: [SyncOrchestrator],
+})
+export class SyncModule {}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class AddCreditDto {
+  @ApiProperty({
+    description: 'Data credit to add in bytes',
+    required: false,
+    example: 1073741824,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  dataCredit?: number;
+
+  @ApiProperty({
+    description: 'Time credit to add in seconds',
+    required: false,
+    example: 3600,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  timeCredit?: number;
+}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  AutocreditInterval,
+  AutocreditStatus,
+  AutocreditType,
+} from '@prisma/client';
+
+export class AutocreditPreviewDto {
+  @ApiProperty({ description: 'User ID', example: 'clj5abcde12345' })
+  userId: string;
+
+  @ApiProperty({ description: 'Autocredit status', enum: AutocreditStatus })
+  status: AutocreditStatus;
+
+  @ApiProperty({ description: 'Top-up interval', enum: AutocreditInterval })
+  interval: AutocreditInterval;
+
+  @ApiProperty({ description: 'Top-up type', enum: AutocreditType })
+  type: AutocreditType;
+
+  @ApiProperty({ description: 'Credit value in bytes' })
+  value: number;
+
+  @ApiProperty({ description: 'Last top-up applied', nullable: true })
+  lastTopup: Date | null;
+
+  @ApiProperty({
+    description: 'When the next top-up will occur (null when disabled)',
+    nullable: true,
+  })
+  nextTopupAt: Date | null;
+
+  @ApiProperty({ description: 'Current data credit in bytes' })
+  currentDataCredit: number;
+
+  @ApiProperty({ description: 'Data credit after the next top-up in bytes' })
+  projectedDataCredit: number;
+
+  @ApiProperty({ description: 'Human-readable current data credit' })
+  formattedCurrentDataCredit: string;
+
+  @ApiProperty({ description: 'Human-readable projected data credit' })
+  formattedProjectedDataCredit: string;
+}
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserAccessLevel } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+} from 'class-validator';
+
+export class CreateUserDto {
+  @ApiProperty({ description: 'Login name in Snake Ways', example: 'johndoe' })
+  @IsNotEmpty()
+  @IsString()
+  @Length(2, 32)
+  login: string;
+
+  @ApiProperty({ description: 'Display name of the user', example: 'John Doe' })
+  @IsNotEmpty()
+  @IsString()
+  displayName: string;
+
+  @ApiProperty({ description: 'Snake Ways password', example: 'S3cret!pw' })
+  @IsNotEmpty()
+  @IsString()
+  @Length(4, 64)
+  password: string;
+
+  @ApiProperty({
+    description: 'Access level of the user',
+    enum: UserAccessLevel,
+    required: false,
+    default: UserAccessLevel.USER,
+  })
+  @IsOptional()
+  @IsEnum(UserAccessLevel)
+  accessLevel?: UserAccessLevel;
+
+  @ApiProperty({
+    description: 'Initial data credit in bytes',
+    required: false,
+    example: 1073741824,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  dataCredit?: number;
+
+  @ApiProperty({
+    description: 'Initial daily usage time in seconds',
+    required: false,
+    example: 3600,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  timeCredit?: number;
+}
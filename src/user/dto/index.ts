@@ -0,0 +1,10 @@
+export * from './create-user.dto';
+export * from './update-user.dto';
+export * from './add-credit.dto';
+export * from './update-autocredit.dto';
+export * from './autocredit-preview.dto';
+export * from './ledger.dto';
+export * from './self-service.dto';
+export * from './link-account.dto';
+export * from './reset-password.dto';
+export * from './login-attempt-query.dto';
@@ -0,0 +1,90 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CreditTransactionType } from '@prisma/client';
+
+/**
+ * A single credit transaction with the data credit balance after it
+ */
+export class LedgerEntryDto {
+  @ApiProperty({ description: 'Transaction ID', example: 'clj5abcde12345' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Snake Ways record type',
+    enum: CreditTransactionType,
+  })
+  recordType: CreditTransactionType;
+
+  @ApiProperty({
+    description:
+      'Effect on data credit in bytes (positive = credit, negative = debit, 0 = informational)',
+    example: -104857600,
+  })
+  amount: number;
+
+  @ApiProperty({ description: 'Bytes received (downloaded)' })
+  rx: number;
+
+  @ApiProperty({ description: 'Bytes transmitted (uploaded)' })
+  tx: number;
+
+  @ApiProperty({ description: 'Client MAC address', nullable: true })
+  clientMac: string | null;
+
+  @ApiProperty({ description: 'LAN name', nullable: true })
+  lanName: string | null;
+
+  @ApiProperty({ description: 'Credit detail from Snake Ways', nullable: true })
+  creditDetail: string | null;
+
+  @ApiProperty({ description: 'Start time of the record' })
+  startTime: Date;
+
+  @ApiProperty({
+    description: 'End time of the record, null while it is still open',
+    nullable: true,
+  })
+  endTime: Date | null;
+
+  @ApiProperty({ description: 'Data credit balance after this transaction' })
+  balance: number;
+
+  @ApiProperty({ description: 'Human-readable amount', example: '-100 MB' })
+  formattedAmount: string;
+
+  @ApiProperty({ description: 'Human-readable balance', example: '4.9 GB' })
+  formattedBalance: string;
+}
+
+/**
+ * Credit statement of a user for a period
+ */
+export class LedgerDto {
+  @ApiProperty({ description: 'User ID', example: 'clj5abcde12345' })
+  userId: string;
+
+  @ApiProperty({ description: 'Start of the statement period' })
+  startDate: Date;
+
+  @ApiProperty({ description: 'End of the statement period' })
+  endDate: Date;
+
+  @ApiProperty({
+    description: 'Data credit balance at the start of the period',
+  })
+  openingBalance: number;
+
+  @ApiProperty({ description: 'Data credit balance at the end of the period' })
+  closingBalance: number;
+
+  @ApiProperty({ description: 'Sum of all credits in the period in bytes' })
+  totalCredits: number;
+
+  @ApiProperty({ description: 'Sum of all debits in the period in bytes' })
+  totalDebits: number;
+
+  @ApiProperty({
+    description: 'Transactions in chronological order',
+    type: [LedgerEntryDto],
+  })
+  entries: LedgerEntryDto[];
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class LinkAccountDto {
+  @ApiProperty({
+    description: 'ID of the signed-up account to link to this Snake Ways user',
+    example: 'clj5abcde12345',
+  })
+  @IsString()
+  @IsNotEmpty()
+  accountId: string;
+}
+
+export class LinkCodeDto {
+  @ApiProperty({ description: 'Snake Ways user ID', example: '12' })
+  userId: string;
+
+  @ApiProperty({ description: 'Snake Ways login', example: 'john.doe' })
+  login: string;
+
+  @ApiProperty({
+    description: 'One-time code to hand to the user',
+    example: 'K7QX2MPA',
+  })
+  code: string;
+
+  @ApiProperty({ description: 'When the code expires' })
+  expiresAt: Date;
+}
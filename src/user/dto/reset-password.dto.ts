@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TemporaryPasswordDto {
+  @ApiProperty({ description: 'User ID', example: 'clj5abcde12345' })
+  userId: string;
+
+  @ApiProperty({
+    description:
+      'Temporary password to hand to the user, it must be changed on next sign-in',
+    example: 'k7QX2mPa9fRt',
+  })
+  temporaryPassword: string;
+}
@@ -0,0 +1,95 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AutocreditPreviewDto } from './autocredit-preview.dto';
+
+export class DailyUsageDto {
+  @ApiProperty({ description: 'Day of the snapshot (start of day)' })
+  date: Date;
+
+  @ApiProperty({ description: 'Data credit consumed on this day in bytes' })
+  dataUsage: number;
+
+  @ApiProperty({ description: 'Usage debit added on this day in bytes' })
+  usageDebit: number;
+
+  @ApiProperty({ description: 'Bytes downloaded (RX) on this day' })
+  usageRx: number;
+
+  @ApiProperty({ description: 'Bytes uploaded (TX) on this day' })
+  usageTx: number;
+
+  @ApiProperty({ description: 'Human-readable data credit consumed' })
+  formattedDataUsage: string;
+
+  @ApiProperty({ description: 'Human-readable usage debit' })
+  formattedUsageDebit: string;
+}
+
+export class UserUsageDto {
+  @ApiProperty({ description: 'User ID', example: 'clj5abcde12345' })
+  userId: string;
+
+  @ApiProperty({ description: 'Usage debit of the current period in bytes' })
+  usageDebit: number;
+
+  @ApiProperty({ description: 'Usage credit of the current period in bytes' })
+  usageCredit: number;
+
+  @ApiProperty({ description: 'Bytes downloaded (RX) in the current period' })
+  usageRx: number;
+
+  @ApiProperty({ description: 'Bytes uploaded (TX) in the current period' })
+  usageTx: number;
+
+  @ApiProperty({ description: 'Remaining data credit in bytes' })
+  dataCredit: number;
+
+  @ApiProperty({ description: 'Remaining time credit in seconds' })
+  timeCredit: number;
+
+  @ApiProperty({ description: 'Human-readable usage debit' })
+  formattedUsageDebit: string;
+
+  @ApiProperty({ description: 'Human-readable usage credit' })
+  formattedUsageCredit: string;
+
+  @ApiProperty({ description: 'Human-readable remaining data credit' })
+  formattedDataCredit: string;
+
+  @ApiProperty({ description: 'Human-readable remaining time credit' })
+  formattedTimeCredit: string;
+
+  @ApiProperty({
+    description: 'Last time the usage was updated from Snake Ways',
+    nullable: true,
+  })
+  lastUsageUpdate: Date | null;
+
+  @ApiProperty({
+    description: 'Daily consumption calculated from the history snapshots',
+    type: [DailyUsageDto],
+  })
+  daily: DailyUsageDto[];
+}
+
+export class UserCreditDto {
+  @ApiProperty({ description: 'User ID', example: 'clj5abcde12345' })
+  userId: string;
+
+  @ApiProperty({ description: 'Remaining data credit in bytes' })
+  dataCredit: number;
+
+  @ApiProperty({ description: 'Remaining time credit in seconds' })
+  timeCredit: number;
+
+  @ApiProperty({ description: 'Human-readable remaining data credit' })
+  formattedDataCredit: string;
+
+  @ApiProperty({ description: 'Human-readable remaining time credit' })
+  formattedTimeCredit: string;
+
+  @ApiProperty({
+    description: 'Autocredit settings and the next top-up',
+    type: AutocreditPreviewDto,
+  })
+  autocredit: AutocreditPreviewDto;
+}
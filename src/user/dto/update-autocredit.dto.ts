@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  AutocreditInterval,
+  AutocreditStatus,
+  AutocreditType,
+} from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+
+export class UpdateAutocreditDto {
+  @ApiProperty({
+    description: 'Enable or disable autocredit',
+    enum: AutocreditStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AutocreditStatus)
+  status?: AutocreditStatus;
+
+  @ApiProperty({
+    description: 'How often the credit is topped up',
+    enum: AutocreditInterval,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AutocreditInterval)
+  interval?: AutocreditInterval;
+
+  @ApiProperty({
+    description:
+      'ADD_VALUE adds the value to the current credit, SET_TO_VALUE replaces it',
+    enum: AutocreditType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AutocreditType)
+  type?: AutocreditType;
+
+  @ApiProperty({
+    description: 'Credit value in bytes',
+    required: false,
+    example: 5368709120,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  value?: number;
+}
+
+/**
+ * Query params for the autocredit preview. Any value given overrides the
+ * user's current setting so allowances can be planned before applying them.
+ */
+export class AutocreditPreviewQueryDto extends UpdateAutocreditDto {}
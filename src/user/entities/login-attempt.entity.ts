@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LoginAttempt, LoginAttemptResult } from '@prisma/client';
+
+export class LoginAttemptEntity implements LoginAttempt {
+  constructor(partial: Partial<LoginAttempt>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the login attempt',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User the attempt matched, null for unknown identifiers',
+    nullable: true,
+    example: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4',
+  })
+  userId: string | null;
+
+  @ApiProperty({
+    description: 'Email or Snake Ways login as entered',
+    example: 'john.doe',
+  })
+  identifier: string;
+
+  @ApiProperty({
+    description: 'IP address of the request',
+    nullable: true,
+    example: '192.168.77.42',
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: 'User agent of the request',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    enum: LoginAttemptResult,
+    description: 'Outcome of the attempt',
+    example: LoginAttemptResult.INVALID_PASSWORD,
+  })
+  result: LoginAttemptResult;
+
+  @ApiProperty({
+    description: 'When the attempt was made',
+    example: '2023-05-15T10:30:00Z',
+  })
+  createdAt: Date;
+}
@@ -19,6 +19,8 @@ export class UserHistorySnapshotEntity
       | 'usageDebit'
       | 'usageCredit'
       | 'usageQuota'
+      | 'usageRx'
+      | 'usageTx'
     >
 {
   constructor(partial: Partial<any>) {
@@ -76,6 +78,14 @@ export class UserHistorySnapshotEntity
         this.usageQuota = Number(partial.usageQuota);
       }
     }
+
+    if (partial.usageRx !== undefined) {
+      this.usageRx = Number(partial.usageRx);
+    }
+
+    if (partial.usageTx !== undefined) {
+      this.usageTx = Number(partial.usageTx);
+    }
   }
 
   @ApiProperty({
@@ -263,6 +273,18 @@ export class UserHistorySnapshotEntity
   })
   usageQuota: number;
 
+  @ApiProperty({
+    description: 'Downloaded bytes (RX) included in the usage debit',
+    example: 966367641, // 0.9GB
+  })
+  usageRx: number;
+
+  @ApiProperty({
+    description: 'Uploaded bytes (TX) included in the usage debit',
+    example: 107374182, // 0.1GB
+  })
+  usageTx: number;
+
   @ApiProperty({
     description: 'Calculated usage debit change between snapshots',
     example: 1073741824, // 1GB
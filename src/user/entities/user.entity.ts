@@ -20,6 +20,8 @@ export class UserEntity
       | 'usageDebit'
       | 'usageCredit'
       | 'usageQuota'
+      | 'usageRx'
+      | 'usageTx'
       | 'lastUsageUpdate'
     >
 {
@@ -79,10 +81,20 @@ export class UserEntity
       }
     }
 
+    if (partial && partial.usageRx !== undefined) {
+      this.usageRx = Number(partial.usageRx);
+    }
+
+    if (partial && partial.usageTx !== undefined) {
+      this.usageTx = Number(partial.usageTx);
+    }
+
     // Ensure usage fields have default values if not provided
     if (this.usageDebit === undefined) this.usageDebit = 0;
     if (this.usageCredit === undefined) this.usageCredit = 0;
     if (this.usageQuota === undefined) this.usageQuota = 0;
+    if (this.usageRx === undefined) this.usageRx = 0;
+    if (this.usageTx === undefined) this.usageTx = 0;
   }
 
   @ApiProperty({
@@ -117,16 +129,51 @@ export class UserEntity
   })
   updatedAt: Date;
 
+  @Exclude()
+  password: string;
+
   @ApiProperty({
     required: false,
     nullable: true,
-    description: 'Refresh token for JWT authentication',
-    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Snake Ways login, null for accounts not linked to Snake Ways',
+    example: 'john.doe',
   })
-  refreshToken: string | null;
+  snakeWaysLogin: string | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'When a signed-up account was linked to this Snake Ways user',
+    example: '2023-05-15T10:30:00Z',
+  })
+  linkedAt: Date | null;
 
   @Exclude()
-  password: string;
+  linkCodeHash: string | null;
+
+  @Exclude()
+  linkCodeExpiresAt: Date | null;
+
+  @ApiProperty({
+    description:
+      'Whether the user must change their password before using the API',
+    example: false,
+  })
+  mustChangePassword: boolean;
+
+  @ApiProperty({
+    description: 'Failed sign-in attempts since the last successful sign-in',
+    example: 0,
+  })
+  failedLoginAttempts: number;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Sign-in is blocked until this time after too many failures',
+    example: null,
+  })
+  lockedUntil: Date | null;
 
   @ApiProperty({
     enum: UserAccessLevel,
@@ -239,4 +286,16 @@ export class UserEntity
     example: 5368709120, // 5GB
   })
   usageQuota: number;
+
+  @ApiProperty({
+    description: 'Downloaded bytes (RX) included in the usage debit',
+    example: 966367641, // 0.9GB
+  })
+  usageRx: number;
+
+  @ApiProperty({
+    description: 'Uploaded bytes (TX) included in the usage debit',
+    example: 107374182, // 0.1GB
+  })
+  usageTx: number;
 }
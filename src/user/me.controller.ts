@@ -0,0 +1,76 @@
+import { Controller, Get, ParseDatePipe, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { GetCurrentUserId, Roles } from 'src/auth/decorators';
+import { ALL_ROLES } from 'src/auth/constants';
+import { DeviceSummaryDto } from 'src/device/dto';
+import { UserHistorySnapshotEntity } from './entities/user-history-snapshot.entity';
+import { UserCreditDto, UserUsageDto } from './dto';
+import { UserService } from './user.service';
+
+/**
+ * Self-service endpoints, scoped to the user of the access token
+ */
+@ApiTags('Me')
+@Roles(...ALL_ROLES)
+@Controller('me')
+export class MeController {
+  constructor(private readonly userService: UserService) {}
+
+  @Get('usage')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the usage counters and credit of the current user with a daily consumption series',
+    type: UserUsageDto,
+  })
+  @ApiOperation({ summary: 'Get the usage of the current user' })
+  async getUsage(
+    @GetCurrentUserId() userId: string,
+    @Query('startDate', new ParseDatePipe({ optional: true })) startDate?: Date,
+    @Query('endDate', new ParseDatePipe({ optional: true })) endDate?: Date,
+  ): Promise<UserUsageDto> {
+    return await this.userService.getUsageSummary(userId, startDate, endDate);
+  }
+
+  @Get('history')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the history of the current user',
+    type: UserHistorySnapshotEntity,
+  })
+  @ApiOperation({ summary: 'Get the history of the current user' })
+  async getHistory(
+    @GetCurrentUserId() userId: string,
+    @Query('startDate', new ParseDatePipe({ optional: true })) startDate?: Date,
+    @Query('endDate', new ParseDatePipe({ optional: true })) endDate?: Date,
+  ) {
+    return await this.userService.getUserHistory(userId, startDate, endDate);
+  }
+
+  @Get('credit')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the remaining credit of the current user and the next top-up',
+    type: UserCreditDto,
+  })
+  @ApiOperation({ summary: 'Get the credit of the current user' })
+  async getCredit(@GetCurrentUserId() userId: string): Promise<UserCreditDto> {
+    return await this.userService.getCreditSummary(userId);
+  }
+
+  @Get('devices')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the client devices of the current user',
+    type: [DeviceSummaryDto],
+  })
+  @ApiOperation({ summary: 'Get the devices of the current user' })
+  async getDevices(
+    @GetCurrentUserId() userId: string,
+    @Query('startDate', new ParseDatePipe({ optional: true })) startDate?: Date,
+    @Query('endDate', new ParseDatePipe({ optional: true })) endDate?: Date,
+  ): Promise<DeviceSummaryDto[]> {
+    return await this.userService.getUserDevices(userId, startDate, endDate);
+  }
+}
@@ -33,8 +33,6 @@ export const sampleUsers: UserEntity[] = [
     autocreditStatus: AutocreditStatus.ENABLED,
     createdAt: new Date('2023-05-15T10:30:00Z'),
     updatedAt: new Date('2023-06-20T14:45:00Z'),
-    refreshToken:
-      'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiIxMjM0NTY3ODkwIiwibmFtZSI6IkpvaG4gRG9lIiwiaWF0IjoxNTE2MjM5MDIyfQ',
   }),
   new UserEntity({
     id: 'clj5h8i9j0k1l2m3n4',
@@ -56,7 +54,6 @@ export const sampleUsers: UserEntity[] = [
     autocreditStatus: AutocreditStatus.ENABLED,
     createdAt: new Date('2023-05-20T11:15:00Z'),
     updatedAt: new Date('2023-06-22T09:30:00Z'),
-    refreshToken: null,
   }),
   new UserEntity({
     id: 'clj5o5p6q7r8s9t0u1',
@@ -78,8 +75,6 @@ export const sampleUsers: UserEntity[] = [
     autocreditStatus: null,
     createdAt: new Date('2023-06-01T08:00:00Z'),
     updatedAt: new Date('2023-06-10T16:20:00Z'),
-    refreshToken:
-      'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiI5ODc2NTQzMjEwIiwibmFtZSI6IlJlZ3VsYXIgVXNlciIsImlhdCI6MTUxNjIzOTAyMn0',
   }),
   new UserEntity({
     id: 'clj5v2w3x4y5z6a7b8',
@@ -101,7 +96,6 @@ export const sampleUsers: UserEntity[] = [
     autocreditStatus: AutocreditStatus.DISABLED,
     createdAt: new Date('2023-06-05T15:45:00Z'),
     updatedAt: new Date('2023-06-05T15:45:00Z'),
-    refreshToken: null,
   }),
   new UserEntity({
     id: 'clj5c9d0e1f2g3h4i5',
@@ -123,7 +117,6 @@ export const sampleUsers: UserEntity[] = [
     autocreditStatus: null,
     createdAt: new Date('2023-06-18T11:30:00Z'),
     updatedAt: new Date('2023-06-18T11:30:00Z'),
-    refreshToken: null,
   }),
 ];
 
@@ -196,14 +189,6 @@ export const sampleUserHistory: UserHistorySnapshotEntity[] = [
   }),
 ];
 
-/**
- * Sample response for the polling restart endpoint
- */
-export const samplePollingRestartResponse = {
-  restarted: true,
-  message: 'Polling restarted successfully',
-};
-
 /**
  * Sample snake ways user response (can be used for testing snake ways endpoints)
  */
@@ -5,7 +5,6 @@ import { UserHistorySnapshotEntity } from './entities/user-history-snapshot.enti
 import {
   sampleUsers,
   sampleUserHistory,
-  samplePollingRestartResponse,
   sampleSnakeWaysUsers,
   getMockUserById,
   getMockUserHistory,
@@ -27,10 +26,6 @@ export class MockUserService {
     return sampleSnakeWaysUsers;
   }
 
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return samplePollingRestartResponse;
-  }
-
   async getUserHistory(
     userId: string,
     startDate?: Date,
@@ -71,11 +66,6 @@ mockController.forceSyncUsers().then(users => {
   console.log('Synced users:', users);
 });
 
-// Restart polling
-mockController.restartPolling().then(result => {
-  console.log('Polling restart result:', result);
-});
-
 // Get user history
 const userId = 'clj5o5p6q7r8s9t0u1'; // Regular user ID
 const startDate = new Date('2023-05-26');
@@ -1,9 +1,11 @@
 import {
+  Body,
   Controller,
+  Delete,
   Get,
+  Patch,
   Post,
   Req,
-  UseGuards,
   Param,
   Query,
   ParseDatePipe,
@@ -14,13 +16,37 @@ import {
   ApiTags,
   getSchemaPath,
 } from '@nestjs/swagger';
+import { UserAccessLevel } from '@prisma/client';
 import { Request } from 'express';
-import { JwtAuthGuard } from 'src/auth/guard';
+import {
+  AllowPendingPasswordChange,
+  GetCurrentUser,
+  Owner,
+  Roles,
+} from 'src/auth/decorators';
+import { ALL_ROLES, STAFF_ROLES, USER_ADMIN_ROLES } from 'src/auth/constants';
+import { Audit } from 'src/audit/decorators';
 import { UserEntity } from './entities/user.entity';
+import { LoginAttemptEntity } from './entities/login-attempt.entity';
 import { UserService } from './user.service';
+import { DeviceSummaryDto } from 'src/device/dto';
 import { UserHistorySnapshotEntity } from './entities/user-history-snapshot.entity';
+import {
+  AddCreditDto,
+  AutocreditPreviewDto,
+  AutocreditPreviewQueryDto,
+  CreateUserDto,
+  LedgerDto,
+  LinkAccountDto,
+  LinkCodeDto,
+  LoginAttemptQueryDto,
+  TemporaryPasswordDto,
+  UpdateAutocreditDto,
+  UpdateUserDto,
+} from './dto';
 
 @ApiTags('Users')
+@Roles(...STAFF_ROLES)
 @Controller('users')
 export class UserController {
   constructor(private readonly userService: UserService) {}
@@ -115,48 +141,8 @@ export class UserController {
     }
   }
 
-  @Post('restart-polling')
-  @ApiResponse({
-    status: 200,
-    description: 'Restart Snake Ways polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
-  })
-  @ApiOperation({
-    summary: 'Restart Snake Ways polling if it has stopped due to failures',
-  })
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return await this.userService.restartUsersPolling();
-  }
-
-  @Post('restart-snapshots-polling')
-  @ApiResponse({
-    status: 200,
-    description: 'Restart Snake Ways snapshots polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
-  })
-  @ApiOperation({
-    summary: 'Restart Snake Ways snapshots polling if it has stopped',
-  })
-  async restartSnapshotsPolling(): Promise<{
-    restarted: boolean;
-    message: string;
-  }> {
-    return await this.userService.restartSnapshotsPolling();
-  }
-
-  @UseGuards(JwtAuthGuard)
+  @Roles(...ALL_ROLES)
+  @AllowPendingPasswordChange()
   @Get('me')
   @ApiResponse({
     status: 200,
@@ -168,7 +154,6 @@ export class UserController {
     return req.user || null;
   }
 
-  // @UseGuards(JwtAuthGuard)
   @Get('history')
   @ApiResponse({
     status: 200,
@@ -183,7 +168,7 @@ export class UserController {
     return await this.userService.getHistory(startDate, endDate);
   }
 
-  // @UseGuards(JwtAuthGuard)
+  @Owner('userId')
   @Get('history/:userId')
   @ApiResponse({
     status: 200,
@@ -198,4 +183,259 @@ export class UserController {
   ) {
     return await this.userService.getUserHistory(userId, startDate, endDate);
   }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user', resultIdField: 'id' })
+  @Post()
+  @ApiResponse({
+    status: 201,
+    description: 'User created in Snake Ways and stored locally',
+    type: UserEntity,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiResponse({
+    status: 403,
+    description: 'Access level is above the signed-in user',
+  })
+  @ApiOperation({ summary: 'Create a user in Snake Ways' })
+  async createUser(
+    @Body() dto: CreateUserDto,
+    @GetCurrentUser('accessLevel') accessLevel: UserAccessLevel,
+  ): Promise<UserEntity> {
+    return await this.userService.createUser(dto, accessLevel);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Patch(':id')
+  @ApiResponse({
+    status: 200,
+    description: 'User updated in Snake Ways and locally',
+    type: UserEntity,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'User or new access level is above the signed-in user',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Update a user in Snake Ways' })
+  async updateUser(
+    @Param('id') id: string,
+    @Body() dto: UpdateUserDto,
+    @GetCurrentUser('accessLevel') accessLevel: UserAccessLevel,
+  ): Promise<UserEntity> {
+    return await this.userService.updateUser(id, dto, accessLevel);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Delete(':id')
+  @ApiResponse({
+    status: 200,
+    description: 'User deleted in Snake Ways and locally',
+    schema: {
+      type: 'object',
+      properties: { deleted: { type: 'boolean', example: true } },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'User is above the signed-in user',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Delete a user in Snake Ways' })
+  async deleteUser(
+    @Param('id') id: string,
+    @GetCurrentUser('accessLevel') accessLevel: UserAccessLevel,
+  ): Promise<{ deleted: boolean }> {
+    return await this.userService.deleteUser(id, accessLevel);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Post(':id/credit')
+  @ApiResponse({
+    status: 201,
+    description: 'Credit added to the user in Snake Ways',
+    type: UserEntity,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Top up data and/or time credit for a user' })
+  async addCredit(
+    @Param('id') id: string,
+    @Body() dto: AddCreditDto,
+  ): Promise<UserEntity> {
+    return await this.userService.addCredit(id, dto);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Patch(':id/autocredit')
+  @ApiResponse({
+    status: 200,
+    description: 'Autocredit settings updated in Snake Ways',
+    type: UserEntity,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({
+    summary: 'Enable/disable autocredit or change its interval, type or value',
+  })
+  async updateAutocredit(
+    @Param('id') id: string,
+    @Body() dto: UpdateAutocreditDto,
+  ): Promise<UserEntity> {
+    return await this.userService.updateAutocredit(id, dto);
+  }
+
+  @Owner('id')
+  @Get(':id/autocredit/preview')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the next top-up time and resulting data credit',
+    type: AutocreditPreviewDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({
+    summary:
+      'Preview the next autocredit top-up, optionally with different settings',
+  })
+  async getAutocreditPreview(
+    @Param('id') id: string,
+    @Query() query: AutocreditPreviewQueryDto,
+  ): Promise<AutocreditPreviewDto> {
+    return await this.userService.getAutocreditPreview(id, query);
+  }
+
+  @Owner('id')
+  @Get(':id/devices')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the client devices of a user with their usage',
+    type: [DeviceSummaryDto],
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Get the devices (MAC addresses) of a user' })
+  async getUserDevices(
+    @Param('id') id: string,
+    @Query('startDate', new ParseDatePipe({ optional: true })) startDate?: Date,
+    @Query('endDate', new ParseDatePipe({ optional: true })) endDate?: Date,
+  ): Promise<DeviceSummaryDto[]> {
+    return await this.userService.getUserDevices(id, startDate, endDate);
+  }
+
+  @Owner('id')
+  @Get(':id/ledger')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns every credit and debit of a user with a running balance',
+    type: LedgerDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Get the credit ledger of a user' })
+  async getUserLedger(
+    @Param('id') id: string,
+    @Query('startDate', new ParseDatePipe({ optional: true })) startDate?: Date,
+    @Query('endDate', new ParseDatePipe({ optional: true })) endDate?: Date,
+  ): Promise<LedgerDto> {
+    return await this.userService.getUserLedger(id, startDate, endDate);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Post(':id/link-code')
+  @ApiResponse({
+    status: 201,
+    description: 'Returns a one-time code the user can link their account with',
+    type: LinkCodeDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({
+    summary: 'Create a one-time code to link an account to a Snake Ways user',
+  })
+  async createLinkCode(@Param('id') id: string): Promise<LinkCodeDto> {
+    return await this.userService.createLinkCode(id);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Post(':id/link')
+  @ApiResponse({
+    status: 201,
+    description: 'Account linked to the Snake Ways user',
+    type: UserEntity,
+  })
+  @ApiResponse({ status: 404, description: 'User or account not found' })
+  @ApiOperation({
+    summary: 'Link a signed-up account to a Snake Ways user',
+  })
+  async linkAccount(
+    @Param('id') id: string,
+    @Body() dto: LinkAccountDto,
+  ): Promise<UserEntity> {
+    const user = await this.userService.linkAccount(dto.accountId, id);
+    return new UserEntity(user);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Post(':id/reset-password')
+  @ApiResponse({
+    status: 201,
+    description:
+      'Returns a temporary password that must be changed on next sign-in',
+    type: TemporaryPasswordDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'User is above the signed-in user',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Reset the password of a user' })
+  async resetPassword(
+    @Param('id') id: string,
+    @GetCurrentUser('accessLevel') accessLevel: UserAccessLevel,
+  ): Promise<TemporaryPasswordDto> {
+    return await this.userService.resetPassword(id, accessLevel);
+  }
+
+  @Roles(...USER_ADMIN_ROLES)
+  @Audit({ model: 'user' })
+  @Post(':id/unlock')
+  @ApiResponse({
+    status: 201,
+    description: 'Sign-in lockout lifted',
+    type: UserEntity,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'User is above the signed-in user',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Unlock a user locked out after failed sign-ins' })
+  async unlockUser(
+    @Param('id') id: string,
+    @GetCurrentUser('accessLevel') accessLevel: UserAccessLevel,
+  ): Promise<UserEntity> {
+    return await this.userService.unlockUser(id, accessLevel);
+  }
+
+  @Owner('id')
+  @Get(':id/login-attempts')
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the sign-in attempts of a user, most recent first',
+    type: [LoginAttemptEntity],
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiOperation({ summary: 'Get the sign-in audit trail of a user' })
+  async getLoginAttempts(
+    @Param('id') id: string,
+    @Query() query: LoginAttemptQueryDto,
+  ): Promise<LoginAttemptEntity[]> {
+    const { limit } = query;
+    return await this.userService.getLoginAttempts(
+      id,
+      limit ? Number(limit) : undefined,
+    );
+  }
 }
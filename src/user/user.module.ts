@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { UserController } from './user.controller';
+import { MeController } from './me.controller';
 import { UserService } from './user.service';
 import { SnakeWaysBaseModule } from '../snake-ways/snake-ways-base.module';
+import { DeviceModule } from '../device/device.module';
 @Module({
-  imports: [SnakeWaysBaseModule],
-  controllers: [UserController],
+  imports: [SnakeWaysBaseModule, DeviceModule],
+  controllers: [UserController, MeController],
   providers: [UserService],
   exports: [UserService],
 })
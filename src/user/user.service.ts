@@ -1,21 +1,66 @@
 import {
+  BadRequestException,
+  ForbiddenException,
   Injectable,
   Logger,
+  NotFoundException,
   OnModuleDestroy,
   OnModuleInit,
 } from '@nestjs/common';
+import {
+  AutocreditInterval,
+  AutocreditStatus,
+  AutocreditType,
+  User,
+  UserAccessLevel,
+} from '@prisma/client';
+import * as argon from 'argon2';
+import { randomInt } from 'crypto';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { outranks } from 'src/auth/constants';
 import { SnakeWaysUserService } from 'src/snake-ways/user/snake-ways-user.service';
+import { DeviceService } from 'src/device/device.service';
+import { DeviceSummaryDto } from 'src/device/dto';
 import { UserEntity } from './entities/user.entity';
+import { LoginAttemptEntity } from './entities/login-attempt.entity';
 import { UserHistorySnapshotEntity } from './entities/user-history-snapshot.entity';
+import {
+  AddCreditDto,
+  AutocreditPreviewDto,
+  AutocreditPreviewQueryDto,
+  CreateUserDto,
+  DailyUsageDto,
+  LedgerDto,
+  LedgerEntryDto,
+  LinkCodeDto,
+  TemporaryPasswordDto,
+  UpdateAutocreditDto,
+  UpdateUserDto,
+  UserCreditDto,
+  UserUsageDto,
+} from './dto';
 import {
   startOfDay,
   endOfDay,
   isSameMonth,
   differenceInMonths,
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  startOfMonth,
+  startOfWeek,
 } from 'date-fns';
 const chalk = require('chalk');
 
+const LINK_CODE_LENGTH = 8;
+const LINK_CODE_TTL_HOURS = 24;
+// No 0/O or 1/I so codes can be read out or written down without confusion
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TEMPORARY_PASSWORD_LENGTH = 12;
+const TEMPORARY_PASSWORD_ALPHABET =
+  'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+
 @Injectable()
 export class UserService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(UserService.name);
@@ -23,6 +68,7 @@ export class UserService implements OnModuleInit, OnModuleDestroy {
   constructor(
     private prisma: PrismaService,
     private swUserService: SnakeWaysUserService,
+    private deviceService: DeviceService,
   ) {}
 
   async onModuleInit() {
@@ -168,6 +214,446 @@ export class UserService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Create a user in Snake Ways and store it locally
+   * @param dto User fields
+   * @param actorAccessLevel Access level of the user creating it
+   * @returns The created user
+   * @throws ForbiddenException if the access level is above the actor's
+   */
+  async createUser(
+    dto: CreateUserDto,
+    actorAccessLevel: UserAccessLevel,
+  ): Promise<UserEntity> {
+    this.ensureCanGrant(actorAccessLevel, dto.accessLevel);
+
+    try {
+      const user = await this.swUserService.createUser({
+        Login: dto.login,
+        DisplayName: dto.displayName,
+        Password: dto.password,
+        AccessLevel: this.swUserService.toSnakeWaysAccessLevel(
+          dto.accessLevel ?? UserAccessLevel.USER,
+        ),
+        DataCredit: dto.dataCredit?.toString(),
+        TimeCredit: dto.timeCredit?.toString(),
+      });
+
+      return new UserEntity(user);
+    } catch (error) {
+      this.logger.error(chalk.red('Error creating user in Snake Ways'), error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a user in Snake Ways and refresh the local copy
+   * @param userId User ID (Snake Ways UserID)
+   * @param dto Fields to change
+   * @param actorAccessLevel Access level of the user making the change
+   * @returns The updated user
+   * @throws ForbiddenException if the user or the new access level is above
+   * the actor's
+   */
+  async updateUser(
+    userId: string,
+    dto: UpdateUserDto,
+    actorAccessLevel: UserAccessLevel,
+  ): Promise<UserEntity> {
+    await this.ensureCanManage(actorAccessLevel, userId);
+    this.ensureCanGrant(actorAccessLevel, dto.accessLevel);
+
+    try {
+      const user = await this.swUserService.updateUser(userId, {
+        Login: dto.login,
+        DisplayName: dto.displayName,
+        Password: dto.password,
+        AccessLevel: dto.accessLevel
+          ? this.swUserService.toSnakeWaysAccessLevel(dto.accessLevel)
+          : undefined,
+      });
+
+      return new UserEntity(user);
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Error updating user ${userId} in Snake Ways`),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a user in Snake Ways and locally
+   * @param userId User ID (Snake Ways UserID)
+   * @param actorAccessLevel Access level of the user deleting it
+   * @throws ForbiddenException if the user is above the actor
+   */
+  async deleteUser(
+    userId: string,
+    actorAccessLevel: UserAccessLevel,
+  ): Promise<{ deleted: boolean }> {
+    await this.ensureCanManage(actorAccessLevel, userId);
+
+    try {
+      await this.swUserService.deleteUser(userId);
+      return { deleted: true };
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Error deleting user ${userId} in Snake Ways`),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Top up a user's data and/or time credit
+   * @param userId User ID (Snake Ways UserID)
+   * @param dto Credit to add
+   * @returns The updated user
+   */
+  async addCredit(userId: string, dto: AddCreditDto): Promise<UserEntity> {
+    if (!dto.dataCredit && !dto.timeCredit) {
+      throw new BadRequestException(
+        'Either dataCredit or timeCredit must be provided',
+      );
+    }
+
+    await this.ensureUserExists(userId);
+
+    try {
+      const user = await this.swUserService.addCredit(userId, {
+        DataCredit: dto.dataCredit?.toString(),
+        TimeCredit: dto.timeCredit?.toString(),
+      });
+
+      return new UserEntity(user);
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Error adding credit to user ${userId} in Snake Ways`),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Change a user's autocredit settings in Snake Ways
+   * @param userId User ID (Snake Ways UserID)
+   * @param dto Autocredit fields to change
+   * @returns The updated user
+   */
+  async updateAutocredit(
+    userId: string,
+    dto: UpdateAutocreditDto,
+  ): Promise<UserEntity> {
+    if (
+      dto.status === undefined &&
+      dto.interval === undefined &&
+      dto.type === undefined &&
+      dto.value === undefined
+    ) {
+      throw new BadRequestException(
+        'At least one of status, interval, type or value must be provided',
+      );
+    }
+
+    await this.ensureUserExists(userId);
+
+    try {
+      const user = await this.swUserService.updateAutocredit(userId, {
+        Status: dto.status
+          ? this.swUserService.toSnakeWaysAutocreditStatus(dto.status)
+          : undefined,
+        CreditInterval: dto.interval
+          ? this.swUserService.toSnakeWaysAutocreditInterval(dto.interval)
+          : undefined,
+        CreditType: dto.type
+          ? this.swUserService.toSnakeWaysAutocreditType(dto.type)
+          : undefined,
+        CreditValue: dto.value,
+      });
+
+      return new UserEntity(user);
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Error updating autocredit for user ${userId}`),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Preview the next autocredit top-up for a user
+   * @param userId User ID (Snake Ways UserID)
+   * @param overrides Optional settings to preview instead of the user's current ones
+   * @returns When the next top-up occurs and the resulting data credit
+   */
+  async getAutocreditPreview(
+    userId: string,
+    overrides: AutocreditPreviewQueryDto = {},
+  ): Promise<AutocreditPreviewDto> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const status =
+      overrides.status ?? user.autocreditStatus ?? AutocreditStatus.DISABLED;
+    const interval =
+      overrides.interval ??
+      user.autocreditInterval ??
+      AutocreditInterval.MONTHLY;
+    const type =
+      overrides.type ?? user.autocreditType ?? AutocreditType.ADD_VALUE;
+    const value =
+      overrides.value !== undefined
+        ? Number(overrides.value)
+        : Number(user.autocreditValue ?? 0);
+
+    const currentDataCredit = Number(user.dataCredit);
+    const enabled = status === AutocreditStatus.ENABLED;
+
+    let projectedDataCredit = currentDataCredit;
+    if (enabled) {
+      projectedDataCredit =
+        type === AutocreditType.SET_TO_VALUE
+          ? value
+          : currentDataCredit + value;
+    }
+
+    return {
+      userId: user.id,
+      status,
+      interval,
+      type,
+      value,
+      lastTopup: user.autocreditLastTopup,
+      nextTopupAt: enabled
+        ? this.calculateNextTopup(interval, user.autocreditLastTopup)
+        : null,
+      currentDataCredit,
+      projectedDataCredit,
+      formattedCurrentDataCredit: this.formatBytes(currentDataCredit),
+      formattedProjectedDataCredit: this.formatBytes(projectedDataCredit),
+    };
+  }
+
+  /**
+   * Get the client devices of a user with their usage
+   * @param userId User ID (Snake Ways UserID)
+   * @param startDate Optional start date, defaults to the start of the month
+   * @param endDate Optional end date
+   * @returns Devices sorted by usage, highest first
+   */
+  async getUserDevices(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<DeviceSummaryDto[]> {
+    await this.ensureUserExists(userId);
+    return await this.deviceService.getUserDevices(userId, {
+      startDate,
+      endDate,
+    });
+  }
+
+  /**
+   * Get the current usage counters and credit of a user together with the
+   * daily consumption calculated from consecutive history snapshots
+   * @param userId User ID (Snake Ways UserID)
+   * @param startDate Optional start date, defaults to the start of the month
+   * @param endDate Optional end date, defaults to now
+   * @returns UserUsageDto
+   */
+  async getUsageSummary(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<UserUsageDto> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    // Include the snapshot of the day before so the first day has a baseline
+    const from = startOfDay(startDate ?? startOfMonth(new Date()));
+    const snapshots = await this.prisma.userHistorySnapshot.findMany({
+      where: {
+        userId,
+        snapshotDate: {
+          gte: addDays(from, -1),
+          lte: endOfDay(endDate ?? new Date()),
+        },
+      },
+      orderBy: { snapshotDate: 'asc' },
+    });
+
+    const daily: DailyUsageDto[] = [];
+    for (let i = 1; i < snapshots.length; i++) {
+      const prev = snapshots[i - 1];
+      const current = snapshots[i];
+
+      if (current.snapshotDate < from) continue;
+
+      const dataUsage = this.calculateCreditUsage(
+        prev.dataCredit,
+        current.dataCredit,
+      );
+      const usageDebit = this.calculateDebitUsage(
+        prev.usageDebit,
+        current.usageDebit,
+      );
+
+      daily.push({
+        date: startOfDay(current.snapshotDate),
+        dataUsage,
+        usageDebit,
+        usageRx: this.calculateDebitUsage(prev.usageRx, current.usageRx),
+        usageTx: this.calculateDebitUsage(prev.usageTx, current.usageTx),
+        formattedDataUsage: this.formatBytes(dataUsage),
+        formattedUsageDebit: this.formatBytes(usageDebit),
+      });
+    }
+
+    return {
+      userId: user.id,
+      usageDebit: Number(user.usageDebit),
+      usageCredit: Number(user.usageCredit),
+      usageRx: Number(user.usageRx),
+      usageTx: Number(user.usageTx),
+      dataCredit: Number(user.dataCredit),
+      timeCredit: Number(user.timeCredit),
+      formattedUsageDebit: this.formatBytes(Number(user.usageDebit)),
+      formattedUsageCredit: this.formatBytes(Number(user.usageCredit)),
+      formattedDataCredit: this.formatBytes(Number(user.dataCredit)),
+      formattedTimeCredit: this.formatTime(Number(user.timeCredit)),
+      lastUsageUpdate: user.lastUsageUpdate,
+      daily,
+    };
+  }
+
+  /**
+   * Get the remaining credit of a user and their next autocredit top-up
+   * @param userId User ID (Snake Ways UserID)
+   * @returns UserCreditDto
+   */
+  async getCreditSummary(userId: string): Promise<UserCreditDto> {
+    const autocredit = await this.getAutocreditPreview(userId);
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { dataCredit: true, timeCredit: true },
+    });
+
+    return {
+      userId,
+      dataCredit: Number(user.dataCredit),
+      timeCredit: Number(user.timeCredit),
+      formattedDataCredit: this.formatBytes(Number(user.dataCredit)),
+      formattedTimeCredit: this.formatTime(Number(user.timeCredit)),
+      autocredit,
+    };
+  }
+
+  /**
+   * Get the credit statement of a user with a running data credit balance.
+   * The balance is reconstructed backwards from the current data credit, so every
+   * transaction up to now is taken into account even if endDate is earlier.
+   * @param userId User ID (Snake Ways UserID)
+   * @param startDate Optional start date, defaults to the start of the month
+   * @param endDate Optional end date, defaults to now
+   * @returns LedgerDto
+   */
+  async getUserLedger(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<LedgerDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, dataCredit: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const periodStart = startOfDay(startDate ?? startOfMonth(new Date()));
+    const periodEnd = endDate ? endOfDay(endDate) : new Date();
+
+    try {
+      const transactions = await this.prisma.creditTransaction.findMany({
+        where: { userId, startTime: { gte: periodStart } },
+        orderBy: [{ startTime: 'desc' }, { endTime: 'desc' }],
+      });
+
+      // Walk backwards from the current credit to get the balance after each transaction
+      let balance = Number(user.dataCredit);
+      const entries: LedgerEntryDto[] = [];
+      let closingBalance = balance;
+
+      for (const transaction of transactions) {
+        const amount = Number(transaction.amount);
+
+        if (transaction.startTime <= periodEnd) {
+          if (entries.length === 0) {
+            closingBalance = balance;
+          }
+
+          entries.push({
+            id: transaction.id,
+            recordType: transaction.recordType,
+            amount,
+            rx: Number(transaction.rx),
+            tx: Number(transaction.tx),
+            clientMac: transaction.clientMac || null,
+            lanName: transaction.lanName || null,
+            creditDetail: transaction.creditDetail,
+            startTime: transaction.startTime,
+            endTime: transaction.endTime,
+            balance,
+            formattedAmount:
+              (amount < 0 ? '-' : '') + this.formatBytes(Math.abs(amount)),
+            formattedBalance: this.formatBytes(Math.max(0, balance)),
+          });
+        }
+
+        balance -= amount;
+      }
+
+      if (entries.length === 0) {
+        closingBalance = balance;
+      }
+
+      entries.reverse();
+
+      return {
+        userId: user.id,
+        startDate: periodStart,
+        endDate: periodEnd,
+        openingBalance: balance,
+        closingBalance,
+        totalCredits: entries
+          .filter((entry) => entry.amount > 0)
+          .reduce((sum, entry) => sum + entry.amount, 0),
+        totalDebits: entries
+          .filter((entry) => entry.amount < 0)
+          .reduce((sum, entry) => sum - entry.amount, 0),
+        entries,
+      };
+    } catch (error) {
+      this.logger.error(
+        chalk.red(`Error building ledger for user ${userId}`),
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Get history snapshots for all users within a date range with usage calculation
    * @param startDate Optional start date to filter snapshots (inclusive - greater than or equal to)
@@ -465,112 +951,305 @@ export class UserService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Update user's refresh token
-   * @param userId User ID
-   * @param refreshToken New refresh token
+   * Create a one-time code that lets the owner of a signed-up account link it
+   * to this Snake Ways user. A new code replaces the previous one.
+   * @param userId User ID (Snake Ways UserID)
+   * @returns The code in plain text, only the hash is stored
    */
-  async updateRefreshToken(userId: string, refreshToken: string) {
+  async createLinkCode(userId: string): Promise<LinkCodeDto> {
+    const user = await this.getLinkableUser(userId);
+
+    const code = Array.from(
+      { length: LINK_CODE_LENGTH },
+      () => LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)],
+    ).join('');
+    const expiresAt = addHours(new Date(), LINK_CODE_TTL_HOURS);
+
     await this.prisma.user.update({
-      where: {
-        id: userId,
-      },
+      where: { id: userId },
       data: {
-        refreshToken: refreshToken,
+        linkCodeHash: await argon.hash(code),
+        linkCodeExpiresAt: expiresAt,
       },
     });
+
+    return {
+      userId,
+      login: user.snakeWaysLogin as string,
+      code,
+      expiresAt,
+    };
   }
 
   /**
-   * Attempt to restart Snake Ways polling if it has stopped
-   * @returns Object indicating if polling was restarted and a status message
+   * Link a signed-up account to a Snake Ways user with a one-time code
+   * @param accountId ID of the signed-up account
+   * @param login Snake Ways login of the user to link to
+   * @param code One-time code from createLinkCode
+   * @returns The linked Snake Ways user
    */
-  async restartUsersPolling(): Promise<{
-    restarted: boolean;
-    message: string;
-  }> {
-    try {
-      this.logger.log(chalk.cyan('Attempting to restart Snake Ways polling'));
+  async linkAccountWithCode(
+    accountId: string,
+    login: string,
+    code: string,
+  ): Promise<User> {
+    const user = await this.prisma.user.findUnique({
+      where: { snakeWaysLogin: login },
+    });
 
-      const wasRestarted = await this.swUserService.restartPollingIfStopped();
+    const codeMatches =
+      !!user?.linkCodeHash &&
+      !!user.linkCodeExpiresAt &&
+      user.linkCodeExpiresAt > new Date() &&
+      (await argon.verify(user.linkCodeHash, code.trim().toUpperCase()));
 
-      if (wasRestarted) {
-        this.logger.log(
-          chalk.green.bold('Snake Ways polling restarted successfully'),
-        );
-        return {
-          restarted: true,
-          message: 'Polling restarted successfully',
-        };
-      } else {
-        this.logger.log(
-          chalk.yellow(
-            'Snake Ways polling was already active, no restart needed',
-          ),
-        );
-        return {
-          restarted: false,
-          message: 'Polling was already active, no restart needed',
-        };
-      }
-    } catch (error) {
-      this.logger.error(
-        chalk.red.bold('Failed to restart Snake Ways polling'),
-        error,
-      );
-      return {
-        restarted: false,
-        message: `Failed to restart polling: ${error.message}`,
-      };
+    if (!user || !codeMatches) {
+      throw new BadRequestException('Invalid or expired link code');
     }
+
+    return await this.linkAccount(accountId, user.id);
   }
 
   /**
-   * Attempt to restart Snake Ways snapshots polling if it has stopped
-   * @returns Object indicating if polling was restarted and a status message
+   * Link a signed-up account to a Snake Ways user. The account's email and
+   * password move to the Snake Ways user and the standalone account is removed,
+   * so the user keeps a single record with their real quota and history.
+   * @param accountId ID of the signed-up account
+   * @param userId User ID (Snake Ways UserID)
+   * @returns The linked Snake Ways user
    */
-  async restartSnapshotsPolling(): Promise<{
-    restarted: boolean;
-    message: string;
-  }> {
-    try {
-      this.logger.log(
-        chalk.cyan('Attempting to restart Snake Ways snapshots polling'),
+  async linkAccount(accountId: string, userId: string): Promise<User> {
+    const account = await this.prisma.user.findUnique({
+      where: { id: accountId },
+    });
+
+    if (!account) {
+      throw new NotFoundException(`Account ${accountId} not found`);
+    }
+
+    if (account.snakeWaysLogin) {
+      throw new BadRequestException(
+        `Account ${accountId} already belongs to a Snake Ways user`,
       );
+    }
 
-      const wasRestarted =
-        await this.swUserService.restartSnapshotsPollingIfStopped();
+    await this.getLinkableUser(userId);
 
-      if (wasRestarted) {
-        this.logger.log(
-          chalk.green.bold(
-            'Snake Ways snapshots polling restarted successfully',
-          ),
-        );
-        return {
-          restarted: true,
-          message: 'Polling restarted successfully',
-        };
-      } else {
-        this.logger.log(
-          chalk.yellow(
-            'Snake Ways snapshots polling was already active, no restart needed',
-          ),
-        );
-        return {
-          restarted: false,
-          message:
-            'Snake Ways snapshots polling was already active, no restart needed',
-        };
+    const user = await this.prisma.$transaction(async (tx) => {
+      await tx.user.delete({ where: { id: accountId } });
+
+      return await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: account.email,
+          password: account.password,
+          linkedAt: new Date(),
+          linkCodeHash: null,
+          linkCodeExpiresAt: null,
+        },
+      });
+    });
+
+    this.logger.log(
+      chalk.green(
+        `Linked account ${account.email} to Snake Ways user ${userId}`,
+      ),
+    );
+
+    return user;
+  }
+
+  /**
+   * Calculate the next autocredit top-up. Top-ups happen at the start of each
+   * interval (day, ISO week or month) following the last top-up; if that moment
+   * has already passed the next interval boundary from now is used instead.
+   */
+  private calculateNextTopup(
+    interval: AutocreditInterval,
+    lastTopup: Date | null,
+  ): Date {
+    const nextBoundary = (from: Date): Date => {
+      switch (interval) {
+        case AutocreditInterval.DAILY:
+          return startOfDay(addDays(from, 1));
+        case AutocreditInterval.WEEKLY:
+          return startOfWeek(addWeeks(from, 1), { weekStartsOn: 1 });
+        default:
+          return startOfMonth(addMonths(from, 1));
       }
-    } catch (error) {
-      this.logger.error(
-        chalk.red.bold('Failed to restart Snake Ways snapshots polling'),
-        error,
+    };
+
+    const now = new Date();
+    const next = nextBoundary(lastTopup ?? now);
+
+    return next > now ? next : nextBoundary(now);
+  }
+
+  /**
+   * Replace the password of a user with a temporary one that must be changed
+   * on next sign-in. Every session of the user is signed out.
+   * @param userId User ID
+   * @param actorAccessLevel Access level of the user resetting it
+   * @returns The temporary password in plain text
+   * @throws ForbiddenException if the user is above the actor
+   */
+  async resetPassword(
+    userId: string,
+    actorAccessLevel: UserAccessLevel,
+  ): Promise<TemporaryPasswordDto> {
+    await this.ensureCanManage(actorAccessLevel, userId);
+
+    // Must satisfy IsPasswordValid (a letter and a number) to be usable at sign-in
+    let temporaryPassword = '';
+    while (
+      !/[A-Za-z]/.test(temporaryPassword) ||
+      !/\d/.test(temporaryPassword)
+    ) {
+      temporaryPassword = Array.from(
+        { length: TEMPORARY_PASSWORD_LENGTH },
+        () =>
+          TEMPORARY_PASSWORD_ALPHABET[
+            randomInt(TEMPORARY_PASSWORD_ALPHABET.length)
+          ],
+      ).join('');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: await argon.hash(temporaryPassword),
+        mustChangePassword: true,
+        sessions: {
+          updateMany: {
+            where: { revokedAt: null },
+            data: { revokedAt: new Date() },
+          },
+        },
+      },
+    });
+
+    this.logger.log(chalk.blue(`Password of user ${userId} reset by an admin`));
+
+    return { userId, temporaryPassword };
+  }
+
+  /**
+   * Lift a sign-in lockout and clear the failed-attempt counter
+   * @param userId User ID
+   * @param actorAccessLevel Access level of the user unlocking it
+   * @returns The unlocked user
+   * @throws ForbiddenException if the user is above the actor
+   */
+  async unlockUser(
+    userId: string,
+    actorAccessLevel: UserAccessLevel,
+  ): Promise<UserEntity> {
+    await this.ensureCanManage(actorAccessLevel, userId);
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+
+    this.logger.log(chalk.blue(`User ${userId} unlocked by an admin`));
+
+    return new UserEntity(user);
+  }
+
+  /**
+   * Get the sign-in attempts of a user, most recent first
+   * @param userId User ID
+   * @param limit Maximum number of attempts, defaults to 100
+   */
+  async getLoginAttempts(
+    userId: string,
+    limit = 100,
+  ): Promise<LoginAttemptEntity[]> {
+    await this.ensureUserExists(userId);
+
+    const attempts = await this.prisma.loginAttempt.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return attempts.map((attempt) => new LoginAttemptEntity(attempt));
+  }
+
+  /**
+   * Get a Snake Ways user that no account has been linked to yet
+   * @throws NotFoundException if the user does not exist
+   * @throws BadRequestException if it is not a Snake Ways user or already linked
+   */
+  private async getLinkableUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    if (!user.snakeWaysLogin) {
+      throw new BadRequestException(`User ${userId} is not a Snake Ways user`);
+    }
+
+    if (user.linkedAt) {
+      throw new BadRequestException(
+        `User ${userId} is already linked to an account`,
       );
-      return {
-        restarted: false,
-        message: `Failed to restart snapshots polling: ${error.message}`,
-      };
+    }
+
+    return user;
+  }
+
+  /**
+   * Throw a NotFoundException if the user is not in the database, or a
+   * ForbiddenException if they outrank the actor
+   */
+  private async ensureCanManage(
+    actorAccessLevel: UserAccessLevel,
+    userId: string,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { accessLevel: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    if (outranks(user.accessLevel, actorAccessLevel)) {
+      throw new ForbiddenException(
+        `Not allowed to manage a user with access level ${user.accessLevel}`,
+      );
+    }
+  }
+
+  /**
+   * Throw a ForbiddenException if the access level is above the actor's
+   */
+  private ensureCanGrant(
+    actorAccessLevel: UserAccessLevel,
+    accessLevel: UserAccessLevel | undefined,
+  ): void {
+    if (accessLevel && outranks(accessLevel, actorAccessLevel)) {
+      throw new ForbiddenException(
+        `Not allowed to grant access level ${accessLevel}`,
+      );
+    }
+  }
+
+  /**
+   * Throw a NotFoundException if the user is not in the database
+   */
+  private async ensureUserExists(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
     }
   }
 
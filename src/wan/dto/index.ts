@@ -1 +1,3 @@
 export * from './wan-usage-chart.dto';
+export * from './wan-availability.dto';
+export * from './route-history.dto';
@@ -0,0 +1,92 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SystemRouteType } from '@prisma/client';
+import { IsDateString, IsOptional } from 'class-validator';
+import { RouteChangeEntity } from '../entities';
+
+export class RouteHistoryQueryDto {
+  @ApiProperty({
+    description: 'Start of the period, defaults to the start of this month',
+    required: false,
+    example: '2025-07-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'End of the period, defaults to now',
+    required: false,
+    example: '2025-08-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+/**
+ * Time the system route spent on a WAN
+ */
+export class RouteWanDurationDto {
+  @ApiProperty({ example: '979FC0CE166A11EDA4F51737CD617E52' })
+  wanId: string;
+
+  @ApiProperty({
+    description: 'WAN name, null if the WAN is no longer known',
+    nullable: true,
+    example: 'VSAT',
+  })
+  wanName: string | null;
+
+  @ApiProperty({ description: 'Seconds the WAN carried the route' })
+  seconds: number;
+
+  @ApiProperty({ description: 'Share of the period', example: 72.5 })
+  percent: number;
+}
+
+/**
+ * Time the system route spent in a route type
+ */
+export class RouteTypeDurationDto {
+  @ApiProperty({ enum: SystemRouteType, example: SystemRouteType.AUTOMATIC })
+  routeType: SystemRouteType;
+
+  @ApiProperty({ description: 'Seconds in this route type' })
+  seconds: number;
+
+  @ApiProperty({ description: 'Share of the period', example: 88.1 })
+  percent: number;
+}
+
+/**
+ * Route changes over a period and the time spent per WAN and route type
+ */
+export class RouteHistoryDto {
+  @ApiProperty({ example: '2025-07-01T00:00:00Z' })
+  from: Date;
+
+  @ApiProperty({ example: '2025-08-01T00:00:00Z' })
+  to: Date;
+
+  @ApiProperty({
+    description:
+      'Seconds with a WAN carrying the route, per WAN. Time without a default route is left out',
+    type: [RouteWanDurationDto],
+  })
+  byWan: RouteWanDurationDto[];
+
+  @ApiProperty({
+    description: 'Seconds per route type, e.g. forced vs automatic',
+    type: [RouteTypeDurationDto],
+  })
+  byRouteType: RouteTypeDurationDto[];
+
+  @ApiProperty({ description: 'Seconds before the first recorded route' })
+  unknownSeconds: number;
+
+  @ApiProperty({
+    description: 'Route changes within the period, oldest first',
+    type: [RouteChangeEntity],
+  })
+  changes: RouteChangeEntity[];
+}
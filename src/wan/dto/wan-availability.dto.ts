@@ -0,0 +1,122 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WanStatus } from '@prisma/client';
+import { IsDateString, IsOptional } from 'class-validator';
+
+/**
+ * How a WAN status counts towards availability
+ */
+export enum AvailabilityState {
+  /** READY or ONLINE */
+  UP = 'UP',
+  /** ERROR or NOT_READY, counted as an outage */
+  DOWN = 'DOWN',
+  /** Suspended, forced off, out of quota or initialising: left out of the uptime */
+  EXCLUDED = 'EXCLUDED',
+  /** Before the first recorded status */
+  UNKNOWN = 'UNKNOWN',
+}
+
+export class WanAvailabilityQueryDto {
+  @ApiProperty({
+    description: 'Start of the period, defaults to 30 days ago',
+    required: false,
+    example: '2025-07-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'End of the period, defaults to now',
+    required: false,
+    example: '2025-08-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+/**
+ * Period in which a WAN kept the same status
+ */
+export class AvailabilitySegmentDto {
+  @ApiProperty({
+    enum: WanStatus,
+    nullable: true,
+    description: 'WAN status, null before the first recorded status',
+    example: WanStatus.ONLINE,
+  })
+  status: WanStatus | null;
+
+  @ApiProperty({ enum: AvailabilityState, example: AvailabilityState.UP })
+  state: AvailabilityState;
+
+  @ApiProperty({ example: '2025-07-01T00:00:00Z' })
+  from: Date;
+
+  @ApiProperty({ example: '2025-07-03T14:20:00Z' })
+  to: Date;
+
+  @ApiProperty({ description: 'Length of the period in seconds' })
+  durationSeconds: number;
+}
+
+/**
+ * Uptime of a WAN over a period
+ */
+export class WanAvailabilityDto {
+  @ApiProperty({ example: '979FC0CE166A11EDA4F51737CD617E52' })
+  wanId: string;
+
+  @ApiProperty({ example: 'VSAT' })
+  wanName: string;
+
+  @ApiProperty({ example: '2025-07-01T00:00:00Z' })
+  from: Date;
+
+  @ApiProperty({ example: '2025-08-01T00:00:00Z' })
+  to: Date;
+
+  @ApiProperty({
+    description:
+      'Share of the up and down time the WAN was up, null without any. Excluded and unknown time is left out',
+    nullable: true,
+    example: 99.42,
+  })
+  uptimePercent: number | null;
+
+  @ApiProperty({ description: 'Seconds up' })
+  upSeconds: number;
+
+  @ApiProperty({ description: 'Seconds down' })
+  downSeconds: number;
+
+  @ApiProperty({ description: 'Seconds left out of the uptime' })
+  excludedSeconds: number;
+
+  @ApiProperty({ description: 'Seconds without a known status' })
+  unknownSeconds: number;
+
+  @ApiProperty({
+    description: 'Number of outages, consecutive down statuses count as one',
+  })
+  outageCount: number;
+
+  @ApiProperty({
+    description: 'Mean time to recover from the outages that ended, in seconds',
+    nullable: true,
+  })
+  mttrSeconds: number | null;
+
+  @ApiProperty({
+    description: 'Longest outage within the period in seconds',
+    nullable: true,
+  })
+  longestOutageSeconds: number | null;
+
+  @ApiProperty({
+    description: 'Status periods in order, for a timeline chart',
+    type: [AvailabilitySegmentDto],
+  })
+  timeline: AvailabilitySegmentDto[];
+}
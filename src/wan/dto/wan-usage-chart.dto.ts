@@ -8,7 +8,8 @@ export class WanUsageChartDataDto {
   date: Date;
 
   // Dynamic properties can't have decorators
-  // Each key represents a WAN name with its usage value
+  // Each key represents a WAN name with its usage value, plus `<WAN name>_rx`
+  // and `<WAN name>_tx` keys for the download and upload part of that usage
   [wanName: string]: Date | number;
 }
 
@@ -25,6 +26,32 @@ export class WanChartMetadataDto {
   @ApiProperty({ description: 'Human-readable formatted total bytes' })
   formattedTotalBytes: string;
 
+  @ApiProperty({
+    description: 'Data point key holding the download (RX) usage of this WAN',
+    example: 'STARLINK_rx',
+  })
+  rxKey: string;
+
+  @ApiProperty({ description: 'Total bytes received (downloaded)' })
+  totalRxBytes: number;
+
+  @ApiProperty({ description: 'Human-readable formatted total bytes received' })
+  formattedTotalRxBytes: string;
+
+  @ApiProperty({
+    description: 'Data point key holding the upload (TX) usage of this WAN',
+    example: 'STARLINK_tx',
+  })
+  txKey: string;
+
+  @ApiProperty({ description: 'Total bytes transmitted (uploaded)' })
+  totalTxBytes: number;
+
+  @ApiProperty({
+    description: 'Human-readable formatted total bytes transmitted',
+  })
+  formattedTotalTxBytes: string;
+
   @ApiProperty({ description: 'Optional color for the chart', required: false })
   color?: string;
 }
@@ -1 +1,3 @@
 export * from './wan.entity';
+export * from './wan-failover.entity';
+export * from './route-change.entity';
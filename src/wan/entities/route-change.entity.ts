@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  RouteChange,
+  RouteChangeSource,
+  SystemRouteStatus,
+  SystemRouteType,
+} from '@prisma/client';
+
+export class RouteChangeEntity implements RouteChange {
+  constructor(partial: Partial<RouteChange>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the route change',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'WAN carrying the route, as reported by Snake Ways',
+    example: '979FC0CE166A11EDA4F51737CD617E52',
+  })
+  wanId: string;
+
+  @ApiProperty({
+    enum: SystemRouteType,
+    example: SystemRouteType.AUTOMATIC,
+  })
+  routeType: SystemRouteType;
+
+  @ApiProperty({
+    enum: SystemRouteStatus,
+    example: SystemRouteStatus.DEFAULT_ROUTE_SET,
+  })
+  status: SystemRouteStatus;
+
+  @ApiProperty({
+    enum: RouteChangeSource,
+    description:
+      'What changed the route. OBSERVED changes were found by polling, e.g. Snake Ways switching WAN in automatic mode',
+    example: RouteChangeSource.OBSERVED,
+  })
+  source: RouteChangeSource;
+
+  @ApiProperty({
+    description: 'When the change was made or first seen',
+    example: '2025-07-29T10:30:00Z',
+  })
+  changedAt: Date;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FailoverReason, WanFailover } from '@prisma/client';
+
+export class WanFailoverEntity implements WanFailover {
+  constructor(partial: Partial<WanFailover>) {
+    Object.assign(this, partial);
+  }
+
+  @ApiProperty({
+    description: 'Unique identifier for the failover',
+    example: 'clj5abcde12345',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'WAN the route was switched away from',
+    example: '979FC0CE166A11EDA4F51737CD617E52',
+  })
+  fromWanId: string;
+
+  @ApiProperty({
+    description: 'WAN the route was switched to',
+    example: 'FCF623211656E1EDA56E193DE7CF5745',
+  })
+  toWanId: string;
+
+  @ApiProperty({
+    description: 'Route restored once the WAN recovers, WAN ID or "AUTO"',
+    example: 'AUTO',
+  })
+  restoreTarget: string;
+
+  @ApiProperty({
+    enum: FailoverReason,
+    description: 'Why the route was switched',
+    example: FailoverReason.QUOTA_THRESHOLD,
+  })
+  reason: FailoverReason;
+
+  @ApiProperty({
+    description: 'Quota usage of the WAN when it was switched away from',
+    nullable: true,
+    example: 91.4,
+  })
+  usagePercent: number | null;
+
+  @ApiProperty({
+    description: 'When the route was switched',
+    example: '2025-07-23T10:30:00Z',
+  })
+  startedAt: Date;
+
+  @ApiProperty({
+    description: 'When the route was switched back, null while in effect',
+    nullable: true,
+  })
+  restoredAt: Date | null;
+}
@@ -1,7 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { WanUsage } from '@prisma/client';
 
-export class WanUsageEntity implements Omit<WanUsage, 'bytes' | 'maxBytes'> {
+export class WanUsageEntity
+  implements Omit<WanUsage, 'bytes' | 'rxBytes' | 'txBytes' | 'maxBytes'>
+{
   constructor(partial: Partial<any>) {
     Object.assign(this, partial);
 
@@ -21,6 +23,14 @@ export class WanUsageEntity implements Omit<WanUsage, 'bytes' | 'maxBytes'> {
         this.maxBytes = Number(partial.maxBytes);
       }
     }
+
+    if (partial.rxBytes !== undefined) {
+      this.rxBytes = Number(partial.rxBytes);
+    }
+
+    if (partial.txBytes !== undefined) {
+      this.txBytes = Number(partial.txBytes);
+    }
   }
 
   @ApiProperty({
@@ -73,6 +83,18 @@ export class WanUsageEntity implements Omit<WanUsage, 'bytes' | 'maxBytes'> {
   })
   bytes: number;
 
+  @ApiProperty({
+    description: 'Bytes received (downloaded) during this period',
+    example: 193227439,
+  })
+  rxBytes: number;
+
+  @ApiProperty({
+    description: 'Bytes transmitted (uploaded) during this period',
+    example: 21469716,
+  })
+  txBytes: number;
+
   @ApiProperty({
     description: 'Maximum allowed usage bytes',
     example: 1073741824, // 1GB
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  RouteChange,
+  RouteChangeSource,
+  SystemRouteStatus,
+  SystemRouteType,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SystemRouteResponse } from 'src/snake-ways/wan/dto';
+import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
+import { RouteHistoryService } from './route-history.service';
+
+const STARLINK = '979FC0CE166A11EDA4F51737CD617E52';
+const VSAT = 'FCF62321165611EDA56E193DE7CF5745';
+
+const change = (fields: Partial<RouteChange>): RouteChange => ({
+  id: 'change',
+  wanId: STARLINK,
+  routeType: SystemRouteType.SWITCH_FORCED_TO_WAN,
+  status: SystemRouteStatus.DEFAULT_ROUTE_SET,
+  source: RouteChangeSource.MANUAL,
+  changedAt: new Date('2025-08-01T00:00:00Z'),
+  ...fields,
+});
+
+const route = {
+  wanId: STARLINK,
+  routeType: SystemRouteType.SWITCH_FORCED_TO_WAN,
+  status: SystemRouteStatus.DEFAULT_ROUTE_SET,
+} as SystemRouteResponse;
+
+describe('RouteHistoryService', () => {
+  let service: RouteHistoryService;
+  let prisma: {
+    routeChange: {
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+    };
+    wan: { findMany: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      routeChange: {
+        findFirst: jest.fn(),
+        findMany: jest.fn(),
+        create: jest.fn((args) => change(args.data)),
+        update: jest.fn((args) => change(args.data)),
+      },
+      wan: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: STARLINK, wanName: 'Starlink' },
+          { id: VSAT, wanName: 'VSAT' },
+        ]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteHistoryService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SnakeWaysWanService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(RouteHistoryService);
+  });
+
+  describe('record', () => {
+    it('skips a route that matches the last one recorded', async () => {
+      prisma.routeChange.findFirst.mockResolvedValue(change({}));
+
+      await expect(
+        service.record(route, RouteChangeSource.OBSERVED),
+      ).resolves.toBeNull();
+      expect(prisma.routeChange.create).not.toHaveBeenCalled();
+    });
+
+    it('gives a recent observed record the source of the change', async () => {
+      prisma.routeChange.findFirst.mockResolvedValue(
+        change({
+          id: 'observed',
+          source: RouteChangeSource.OBSERVED,
+          changedAt: new Date(Date.now() - 5000),
+        }),
+      );
+
+      await service.record(route, RouteChangeSource.POLICY);
+
+      expect(prisma.routeChange.update).toHaveBeenCalledWith({
+        where: { id: 'observed' },
+        data: { source: RouteChangeSource.POLICY },
+      });
+      expect(prisma.routeChange.create).not.toHaveBeenCalled();
+    });
+
+    it('leaves an older observed record alone', async () => {
+      prisma.routeChange.findFirst.mockResolvedValue(
+        change({
+          source: RouteChangeSource.OBSERVED,
+          changedAt: new Date(Date.now() - 10 * 60_000),
+        }),
+      );
+
+      await expect(
+        service.record(route, RouteChangeSource.MANUAL),
+      ).resolves.toBeNull();
+      expect(prisma.routeChange.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHistory', () => {
+    it('splits the period between the routes in effect', async () => {
+      // Forced to Starlink since before the period, automatic on VSAT from
+      // 06:00, then no default route from 18:00
+      prisma.routeChange.findFirst.mockResolvedValue(
+        change({ changedAt: new Date('2025-07-31T12:00:00Z') }),
+      );
+      prisma.routeChange.findMany.mockResolvedValue([
+        change({
+          wanId: VSAT,
+          routeType: SystemRouteType.AUTOMATIC,
+          changedAt: new Date('2025-08-01T06:00:00Z'),
+        }),
+        change({
+          wanId: VSAT,
+          routeType: SystemRouteType.AUTOMATIC,
+          status: SystemRouteStatus.NO_DEFAULT_ROUTE,
+          changedAt: new Date('2025-08-01T18:00:00Z'),
+        }),
+      ]);
+
+      const history = await service.getHistory(
+        new Date('2025-08-01T00:00:00Z'),
+        new Date('2025-08-02T00:00:00Z'),
+      );
+
+      expect(history.byWan).toEqual([
+        { wanId: VSAT, wanName: 'VSAT', seconds: 12 * 3600, percent: 50 },
+        {
+          wanId: STARLINK,
+          wanName: 'Starlink',
+          seconds: 6 * 3600,
+          percent: 25,
+        },
+      ]);
+      expect(history.byRouteType).toEqual([
+        {
+          routeType: SystemRouteType.AUTOMATIC,
+          seconds: 18 * 3600,
+          percent: 75,
+        },
+        {
+          routeType: SystemRouteType.SWITCH_FORCED_TO_WAN,
+          seconds: 6 * 3600,
+          percent: 25,
+        },
+      ]);
+      expect(history.unknownSeconds).toBe(0);
+    });
+
+    it('counts time before the first recorded change as unknown', async () => {
+      prisma.routeChange.findFirst.mockResolvedValue(null);
+      prisma.routeChange.findMany.mockResolvedValue([
+        change({ changedAt: new Date('2025-08-01T06:00:00Z') }),
+      ]);
+
+      const history = await service.getHistory(
+        new Date('2025-08-01T00:00:00Z'),
+        new Date('2025-08-02T00:00:00Z'),
+      );
+
+      expect(history.unknownSeconds).toBe(6 * 3600);
+      expect(history.byWan).toEqual([
+        {
+          wanId: STARLINK,
+          wanName: 'Starlink',
+          seconds: 18 * 3600,
+          percent: 75,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  RouteChange,
+  RouteChangeSource,
+  SystemRouteStatus,
+  SystemRouteType,
+} from '@prisma/client';
+import { differenceInSeconds, startOfMonth } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SystemRouteResponse } from 'src/snake-ways/wan/dto';
+import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
+import { RouteHistoryDto } from './dto';
+import { RouteChangeEntity } from './entities';
+const chalk = require('chalk');
+
+// How long after the route poller records a route a change made through the
+// API can still claim it, covers the WAN re-sync after a route change
+const OBSERVED_CLAIM_WINDOW_SECONDS = 60;
+
+/**
+ * Keeps the history of the system route. Changes made through the API are
+ * recorded with their source as they happen, and the route cached by the
+ * route poller is checked so Snake Ways switching WAN on its own in automatic
+ * mode is caught as well.
+ */
+@Injectable()
+export class RouteHistoryService {
+  private readonly logger = new Logger(RouteHistoryService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private swWanService: SnakeWaysWanService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async recordObservedRoute(): Promise<void> {
+    // Skip the tick if the previous one is still running
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const route = await this.swWanService.getCachedSystemRoute();
+      if (route && !route.stale) {
+        await this.record(route, RouteChangeSource.OBSERVED);
+      }
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to check the system route'), error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Store the route if it differs from the last one recorded. If the route
+   * poller recorded the same route moments before, that record is given the
+   * source of the change instead. Failures are logged so a route change never
+   * fails on its history.
+   * @param route Route reported by Snake Ways
+   * @param source What changed the route
+   * @returns The stored or updated change, null if the route didn't change
+   */
+  async record(
+    route: SystemRouteResponse,
+    source: RouteChangeSource,
+  ): Promise<RouteChange | null> {
+    try {
+      const last = await this.prisma.routeChange.findFirst({
+        orderBy: { changedAt: 'desc' },
+      });
+
+      if (
+        last &&
+        last.wanId === route.wanId &&
+        last.routeType === route.routeType &&
+        last.status === route.status
+      ) {
+        if (
+          last.source === RouteChangeSource.OBSERVED &&
+          source !== RouteChangeSource.OBSERVED &&
+          differenceInSeconds(new Date(), last.changedAt) <=
+            OBSERVED_CLAIM_WINDOW_SECONDS
+        ) {
+          return await this.prisma.routeChange.update({
+            where: { id: last.id },
+            data: { source },
+          });
+        }
+
+        return null;
+      }
+
+      const change = await this.prisma.routeChange.create({
+        data: {
+          wanId: route.wanId,
+          routeType: SystemRouteType[route.routeType],
+          status: SystemRouteStatus[route.status],
+          source,
+        },
+      });
+
+      this.logger.log(
+        chalk.cyan(
+          `System route now ${change.routeType} on WAN ${change.wanId} (${source.toLowerCase()})`,
+        ),
+      );
+
+      return change;
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to record route change'), error);
+      return null;
+    }
+  }
+
+  /**
+   * Route changes over a period with the time spent per WAN and route type
+   * @param from Start of the period, defaults to the start of this month
+   * @param to End of the period, defaults to now
+   */
+  async getHistory(from?: Date, to?: Date): Promise<RouteHistoryDto> {
+    const now = new Date();
+    const periodStart = from || startOfMonth(now);
+    const periodEnd = to && to < now ? to : now;
+    if (periodStart >= periodEnd) {
+      throw new BadRequestException('from must be before to and in the past');
+    }
+
+    const [previous, changes, wans] = await Promise.all([
+      this.prisma.routeChange.findFirst({
+        where: { changedAt: { lt: periodStart } },
+        orderBy: { changedAt: 'desc' },
+      }),
+      this.prisma.routeChange.findMany({
+        where: { changedAt: { gte: periodStart, lt: periodEnd } },
+        orderBy: { changedAt: 'asc' },
+      }),
+      this.prisma.wan.findMany({ select: { id: true, wanName: true } }),
+    ]);
+
+    const wanSeconds = new Map<string, number>();
+    const typeSeconds = new Map<SystemRouteType, number>();
+    let unknownSeconds = 0;
+    let current: RouteChange | null = previous;
+    let cursor = periodStart;
+
+    for (const change of [...changes, null]) {
+      const until = change ? change.changedAt : periodEnd;
+      const seconds = differenceInSeconds(until, cursor);
+
+      if (!current) {
+        unknownSeconds += seconds;
+      } else {
+        typeSeconds.set(
+          current.routeType,
+          (typeSeconds.get(current.routeType) || 0) + seconds,
+        );
+        if (current.status === SystemRouteStatus.DEFAULT_ROUTE_SET) {
+          wanSeconds.set(
+            current.wanId,
+            (wanSeconds.get(current.wanId) || 0) + seconds,
+          );
+        }
+      }
+
+      current = change;
+      cursor = until;
+    }
+
+    const periodSeconds = differenceInSeconds(periodEnd, periodStart);
+    const percentOf = (seconds: number) =>
+      periodSeconds > 0
+        ? parseFloat(((seconds / periodSeconds) * 100).toFixed(2))
+        : 0;
+
+    return {
+      from: periodStart,
+      to: periodEnd,
+      byWan: [...wanSeconds]
+        .map(([wanId, seconds]) => ({
+          wanId,
+          wanName: wans.find((wan) => wan.id === wanId)?.wanName ?? null,
+          seconds,
+          percent: percentOf(seconds),
+        }))
+        .sort((a, b) => b.seconds - a.seconds),
+      byRouteType: [...typeSeconds]
+        .map(([routeType, seconds]) => ({
+          routeType,
+          seconds,
+          percent: percentOf(seconds),
+        }))
+        .sort((a, b) => b.seconds - a.seconds),
+      unknownSeconds,
+      changes: changes.map((change) => new RouteChangeEntity(change)),
+    };
+  }
+}
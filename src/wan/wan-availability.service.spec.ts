@@ -0,0 +1,121 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { WanStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AvailabilityState } from './dto';
+import { WanAvailabilityService } from './wan-availability.service';
+
+const WAN_ID = '979FC0CE166A11EDA4F51737CD617E52';
+const FROM = new Date('2025-08-01T00:00:00Z');
+const TO = new Date('2025-08-02T00:00:00Z');
+
+const at = (time: string) => new Date(`2025-08-01T${time}:00Z`);
+
+describe('WanAvailabilityService', () => {
+  let service: WanAvailabilityService;
+  let prisma: {
+    wan: { findUnique: jest.Mock };
+    wanStatusEvent: { findFirst: jest.Mock; findMany: jest.Mock };
+  };
+
+  const givenEvents = (
+    previous: WanStatus | null,
+    events: [string, WanStatus][],
+  ) => {
+    prisma.wanStatusEvent.findFirst.mockResolvedValue(
+      previous ? { toStatus: previous } : null,
+    );
+    prisma.wanStatusEvent.findMany.mockResolvedValue(
+      events.map(([time, toStatus]) => ({ changedAt: at(time), toStatus })),
+    );
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      wan: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ id: WAN_ID, wanName: 'Starlink' }),
+      },
+      wanStatusEvent: { findFirst: jest.fn(), findMany: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WanAvailabilityService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(WanAvailabilityService);
+  });
+
+  it('throws for an unknown WAN', async () => {
+    prisma.wan.findUnique.mockResolvedValue(null);
+
+    await expect(service.getAvailability(WAN_ID, FROM, TO)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('leaves excluded and unknown time out of the uptime', async () => {
+    // Unknown until 06:00, up until 12:00, down until 15:00, suspended after
+    givenEvents(null, [
+      ['06:00', WanStatus.ONLINE],
+      ['12:00', WanStatus.ERROR],
+      ['15:00', WanStatus.SUSPENDED],
+    ]);
+
+    const availability = await service.getAvailability(WAN_ID, FROM, TO);
+
+    expect(availability).toMatchObject({
+      unknownSeconds: 6 * 3600,
+      upSeconds: 6 * 3600,
+      downSeconds: 3 * 3600,
+      excludedSeconds: 9 * 3600,
+      uptimePercent: 66.67,
+    });
+    expect(availability.timeline.map((segment) => segment.state)).toEqual([
+      AvailabilityState.UNKNOWN,
+      AvailabilityState.UP,
+      AvailabilityState.DOWN,
+      AvailabilityState.EXCLUDED,
+    ]);
+  });
+
+  it('merges transitions to the same status into one segment', async () => {
+    givenEvents(WanStatus.ONLINE, [['06:00', WanStatus.ONLINE]]);
+
+    const availability = await service.getAvailability(WAN_ID, FROM, TO);
+
+    expect(availability.timeline).toEqual([
+      {
+        status: WanStatus.ONLINE,
+        state: AvailabilityState.UP,
+        from: FROM,
+        to: TO,
+        durationSeconds: 24 * 3600,
+      },
+    ]);
+    expect(availability.uptimePercent).toBe(100);
+  });
+
+  it('counts consecutive down statuses as one outage', async () => {
+    // Down for 2 hours across two statuses, then for an hour until the end
+    givenEvents(WanStatus.ONLINE, [
+      ['06:00', WanStatus.ERROR],
+      ['07:00', WanStatus.NOT_READY],
+      ['08:00', WanStatus.ONLINE],
+      ['23:00', WanStatus.ERROR],
+    ]);
+
+    const availability = await service.getAvailability(WAN_ID, FROM, TO);
+
+    expect(availability).toMatchObject({
+      outageCount: 2,
+      longestOutageSeconds: 2 * 3600,
+      // Only the outage that ended counts towards the time to recover
+      mttrSeconds: 2 * 3600,
+    });
+  });
+});
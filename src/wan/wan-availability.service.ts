@@ -0,0 +1,152 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { WanStatus } from '@prisma/client';
+import { differenceInSeconds, subDays } from 'date-fns';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  AvailabilitySegmentDto,
+  AvailabilityState,
+  WanAvailabilityDto,
+} from './dto';
+
+const STATUS_STATES: Record<WanStatus, AvailabilityState> = {
+  [WanStatus.READY]: AvailabilityState.UP,
+  [WanStatus.ONLINE]: AvailabilityState.UP,
+  [WanStatus.ERROR]: AvailabilityState.DOWN,
+  [WanStatus.NOT_READY]: AvailabilityState.DOWN,
+  [WanStatus.SUSPENDED]: AvailabilityState.EXCLUDED,
+  [WanStatus.INITIALIZING]: AvailabilityState.EXCLUDED,
+  [WanStatus.ALL_WAN_FORCED_OFF]: AvailabilityState.EXCLUDED,
+  [WanStatus.QUOTA_REACHED]: AvailabilityState.EXCLUDED,
+};
+
+@Injectable()
+export class WanAvailabilityService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Uptime, outages and status timeline of a WAN, built from the status
+   * transitions recorded by the WAN sync. Transitions are only seen when
+   * Snake Ways is polled, so times are as precise as the polling interval.
+   * @param wanId WAN ID
+   * @param from Start of the period, defaults to 30 days ago
+   * @param to End of the period, defaults to now
+   */
+  async getAvailability(
+    wanId: string,
+    from?: Date,
+    to?: Date,
+  ): Promise<WanAvailabilityDto> {
+    const wan = await this.prismaService.wan.findUnique({
+      where: { id: wanId },
+    });
+    if (!wan) {
+      throw new NotFoundException(`WAN ${wanId} not found`);
+    }
+
+    const now = new Date();
+    const periodStart = from || subDays(now, 30);
+    const periodEnd = to && to < now ? to : now;
+    if (periodStart >= periodEnd) {
+      throw new BadRequestException('from must be before to and in the past');
+    }
+
+    const [previous, events] = await Promise.all([
+      this.prismaService.wanStatusEvent.findFirst({
+        where: { wanId, changedAt: { lt: periodStart } },
+        orderBy: { changedAt: 'desc' },
+      }),
+      this.prismaService.wanStatusEvent.findMany({
+        where: { wanId, changedAt: { gte: periodStart, lt: periodEnd } },
+        orderBy: { changedAt: 'asc' },
+      }),
+    ]);
+
+    const timeline: AvailabilitySegmentDto[] = [];
+    let status: WanStatus | null = previous?.toStatus ?? null;
+    let cursor = periodStart;
+
+    for (const event of [
+      ...events,
+      { changedAt: periodEnd, toStatus: null as WanStatus | null },
+    ]) {
+      if (event.changedAt > cursor) {
+        const last = timeline[timeline.length - 1];
+        if (last && last.status === status) {
+          last.to = event.changedAt;
+          last.durationSeconds = differenceInSeconds(last.to, last.from);
+        } else {
+          timeline.push({
+            status,
+            state: status ? STATUS_STATES[status] : AvailabilityState.UNKNOWN,
+            from: cursor,
+            to: event.changedAt,
+            durationSeconds: differenceInSeconds(event.changedAt, cursor),
+          });
+        }
+      }
+      status = event.toStatus;
+      cursor = event.changedAt;
+    }
+
+    const secondsIn = (state: AvailabilityState) =>
+      timeline
+        .filter((segment) => segment.state === state)
+        .reduce((total, segment) => total + segment.durationSeconds, 0);
+
+    const upSeconds = secondsIn(AvailabilityState.UP);
+    const downSeconds = secondsIn(AvailabilityState.DOWN);
+
+    // Consecutive down segments (e.g. ERROR then NOT_READY) are one outage
+    const outages: { durationSeconds: number; recovered: boolean }[] = [];
+    timeline.forEach((segment, index) => {
+      if (segment.state !== AvailabilityState.DOWN) return;
+
+      const previousSegment = timeline[index - 1];
+      if (previousSegment?.state === AvailabilityState.DOWN) {
+        outages[outages.length - 1].durationSeconds += segment.durationSeconds;
+      } else {
+        outages.push({
+          durationSeconds: segment.durationSeconds,
+          recovered: false,
+        });
+      }
+      outages[outages.length - 1].recovered = index < timeline.length - 1;
+    });
+
+    const recovered = outages.filter((outage) => outage.recovered);
+
+    return {
+      wanId: wan.id,
+      wanName: wan.wanName,
+      from: periodStart,
+      to: periodEnd,
+      uptimePercent:
+        upSeconds + downSeconds > 0
+          ? parseFloat(
+              ((upSeconds / (upSeconds + downSeconds)) * 100).toFixed(2),
+            )
+          : null,
+      upSeconds,
+      downSeconds,
+      excludedSeconds: secondsIn(AvailabilityState.EXCLUDED),
+      unknownSeconds: secondsIn(AvailabilityState.UNKNOWN),
+      outageCount: outages.length,
+      mttrSeconds: recovered.length
+        ? Math.round(
+            recovered.reduce(
+              (total, outage) => total + outage.durationSeconds,
+              0,
+            ) / recovered.length,
+          )
+        : null,
+      longestOutageSeconds: outages.length
+        ? Math.max(...outages.map((outage) => outage.durationSeconds))
+        : null,
+      timeline,
+    };
+  }
+}
@@ -0,0 +1,248 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  FailoverReason,
+  RouteChangeSource,
+  Wan,
+  WanFailover,
+  WanStatus,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RouteType } from 'src/snake-ways/wan/dto';
+import { WanFailoverEntity } from './entities';
+import { WanService } from './wan.service';
+const chalk = require('chalk');
+
+// WAN statuses a route can be failed over to
+const USABLE_WAN_STATUSES: WanStatus[] = [WanStatus.READY, WanStatus.ONLINE];
+
+/**
+ * Switches the system route away from a WAN that crosses its quota threshold,
+ * reaches its quota or fails, to the next WAN by switch priority (lowest
+ * first). The route is switched back once that WAN is healthy again, which for
+ * quotas is when its usage period resets. While a failover is open the route
+ * policy scheduler leaves the route alone and sets what it is restored to.
+ */
+@Injectable()
+export class WanFailoverService {
+  private readonly logger = new Logger(WanFailoverService.name);
+  private readonly enabled: boolean;
+  private readonly thresholdPercent: number;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private wanService: WanService,
+    config: ConfigService,
+  ) {
+    this.enabled = config.get('QUOTA_FAILOVER_ENABLED') !== 'false';
+    this.thresholdPercent =
+      Number(config.get('QUOTA_FAILOVER_THRESHOLD_PERCENT')) || 90;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async evaluate(): Promise<void> {
+    // Skip the tick if the previous one is still waiting on Snake Ways
+    if (!this.enabled || this.running) return;
+    this.running = true;
+
+    try {
+      const wans = await this.prisma.wan.findMany();
+      const active = await this.prisma.wanFailover.findFirst({
+        where: { restoredAt: null },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      if (active) {
+        await this.checkActiveFailover(active, wans);
+      } else {
+        await this.checkCurrentRoute(wans);
+      }
+    } catch (error) {
+      this.logger.error(chalk.red('Failed to evaluate WAN failover'), error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Get failovers, most recent first
+   * @param limit Maximum number of failovers, defaults to 100
+   */
+  async getFailovers(limit = 100): Promise<WanFailoverEntity[]> {
+    const failovers = await this.prisma.wanFailover.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return failovers.map((failover) => new WanFailoverEntity(failover));
+  }
+
+  /**
+   * Fail over when the WAN currently carrying the route trips
+   */
+  private async checkCurrentRoute(wans: Wan[]): Promise<void> {
+    const route = await this.wanService.getCurrentSystemRoute();
+    if (route.routeType === RouteType.SWITCH_FORCED_OFF) return;
+
+    const current = wans.find((wan) => wan.id === route.wanId);
+    const reason = current && this.getTripReason(current);
+    if (!current || !reason) return;
+
+    const next = this.getNextWan(wans, [current.id]);
+    if (!next) {
+      this.logger.warn(
+        chalk.yellow(
+          `WAN ${current.wanName} tripped (${reason}) but no other WAN is available`,
+        ),
+      );
+      return;
+    }
+
+    await this.wanService.changeSystemRoute(
+      next.id,
+      RouteChangeSource.FAILOVER,
+    );
+
+    await this.prisma.wanFailover.create({
+      data: {
+        fromWanId: current.id,
+        toWanId: next.id,
+        restoreTarget:
+          route.routeType === RouteType.AUTOMATIC ? 'AUTO' : current.id,
+        reason,
+        usagePercent: this.getUsagePercent(current),
+      },
+    });
+
+    this.logger.warn(
+      chalk.yellow(
+        `Failed over from ${current.wanName} to ${next.wanName} (${reason})`,
+      ),
+    );
+  }
+
+  /**
+   * Switch back once the original WAN recovers, or move on if the WAN failed
+   * over to trips as well. If the route was changed by hand since, the
+   * failover is closed and the new route checked like any other.
+   */
+  private async checkActiveFailover(
+    failover: WanFailover,
+    wans: Wan[],
+  ): Promise<void> {
+    const route = await this.wanService.getCurrentSystemRoute();
+    if (
+      route.routeType !== RouteType.SWITCH_FORCED_TO_WAN ||
+      route.wanId !== failover.toWanId
+    ) {
+      await this.prisma.wanFailover.update({
+        where: { id: failover.id },
+        data: { restoredAt: new Date() },
+      });
+
+      this.logger.log(
+        chalk.yellow(
+          `Route moved off ${failover.toWanId} since the failover, closing it without restoring ${failover.restoreTarget}`,
+        ),
+      );
+
+      await this.checkCurrentRoute(wans);
+      return;
+    }
+
+    const from = wans.find((wan) => wan.id === failover.fromWanId);
+
+    if (!from || !this.getTripReason(from)) {
+      await this.wanService.changeSystemRoute(
+        failover.restoreTarget,
+        RouteChangeSource.FAILOVER,
+      );
+      await this.prisma.wanFailover.update({
+        where: { id: failover.id },
+        data: { restoredAt: new Date() },
+      });
+
+      this.logger.log(
+        chalk.green(
+          `WAN ${from?.wanName || failover.fromWanId} recovered, route restored to ${failover.restoreTarget}`,
+        ),
+      );
+      return;
+    }
+
+    const to = wans.find((wan) => wan.id === failover.toWanId);
+    if (to && !this.getTripReason(to)) return;
+
+    const next = this.getNextWan(wans, [from.id, failover.toWanId]);
+    if (!next) {
+      this.logger.warn(
+        chalk.yellow(
+          `Failover WAN ${to?.wanName || failover.toWanId} tripped but no other WAN is available`,
+        ),
+      );
+      return;
+    }
+
+    await this.wanService.changeSystemRoute(
+      next.id,
+      RouteChangeSource.FAILOVER,
+    );
+    await this.prisma.wanFailover.update({
+      where: { id: failover.id },
+      data: { toWanId: next.id },
+    });
+
+    this.logger.warn(chalk.yellow(`Failover moved on to ${next.wanName}`));
+  }
+
+  /**
+   * Why a WAN should not carry the route, null if it can
+   */
+  private getTripReason(wan: Wan): FailoverReason | null {
+    if (wan.wanStatus === WanStatus.QUOTA_REACHED) {
+      return FailoverReason.QUOTA_REACHED;
+    }
+    if (wan.wanStatus === WanStatus.ERROR) {
+      return FailoverReason.WAN_ERROR;
+    }
+
+    const usagePercent = this.getUsagePercent(wan);
+    if (usagePercent !== null && usagePercent >= this.thresholdPercent) {
+      return FailoverReason.QUOTA_THRESHOLD;
+    }
+
+    return null;
+  }
+
+  /**
+   * Usage of the current period as a percentage of the quota, null without a quota
+   */
+  private getUsagePercent(wan: Wan): number | null {
+    const maxUsageInBytes = Number(wan.maxUsageInBytes);
+    if (!maxUsageInBytes) return null;
+
+    return parseFloat(
+      ((Number(wan.usageInBytes) / maxUsageInBytes) * 100).toFixed(2),
+    );
+  }
+
+  /**
+   * Usable WAN with the lowest switch priority, WANs without one last
+   */
+  private getNextWan(wans: Wan[], excludeIds: string[]): Wan | undefined {
+    return wans
+      .filter(
+        (wan) =>
+          !excludeIds.includes(wan.id) &&
+          USABLE_WAN_STATUSES.includes(wan.wanStatus) &&
+          !this.getTripReason(wan),
+      )
+      .sort(
+        (a, b) =>
+          (a.switchPriority ?? Number.MAX_SAFE_INTEGER) -
+          (b.switchPriority ?? Number.MAX_SAFE_INTEGER),
+      )[0];
+  }
+}
@@ -4,7 +4,6 @@ import {
   Logger,
   Param,
   ParseArrayPipe,
-  Post,
   Query,
 } from '@nestjs/common';
 import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
@@ -12,8 +11,11 @@ import { AggregatedWanUsage } from '../snake-ways/wan-usage/snake-ways-wan-usage
 import { WanUsageChartResponseDto } from './dto';
 import { WanUsageEntity } from './entities/wan-usage.entity';
 import { WanUsageService } from './wan-usage.service';
+import { Roles } from 'src/auth/decorators';
+import { STAFF_ROLES } from 'src/auth/constants';
 
 @ApiTags('wan-usage')
+@Roles(...STAFF_ROLES)
 @Controller('wan-usage')
 export class WanUsageController {
   private readonly logger = new Logger(WanUsageController.name);
@@ -21,7 +23,6 @@ export class WanUsageController {
   constructor(private readonly wanUsageService: WanUsageService) {}
 
   @Get()
-  //   @Roles(Role.ADMIN)
   @ApiOperation({ summary: 'Get WAN usage entities with filtering options' })
   @ApiQuery({ name: 'wanId', required: false, type: String })
   @ApiQuery({ name: 'startDate', required: false, type: Date })
@@ -47,7 +48,6 @@ export class WanUsageController {
   }
 
   @Get('chart/:period')
-  //   @Roles(Role.ADMIN)
   @ApiOperation({ summary: 'Get WAN usage data for charts' })
   @ApiQuery({
     name: 'wanIds',
@@ -76,28 +76,8 @@ export class WanUsageController {
     return this.wanUsageService.getWanUsageChartData(period, wanIds);
   }
 
-  @Post('restart-polling')
-  @ApiResponse({
-    status: 200,
-    description: 'Restart Snake Ways polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
-  })
-  @ApiOperation({
-    summary: 'Restart Snake Ways polling if it has stopped',
-  })
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return await this.wanUsageService.restartPolling();
-  }
-
   //! Unused in the UI
   @Get('aggregated/:period')
-  //   @Roles(Role.ADMIN)
   @ApiOperation({ summary: 'Get aggregated WAN usage data' })
   @ApiQuery({
     name: 'wanIds',
@@ -232,11 +232,17 @@ export class WanUsageService {
       // Process all WANs in wanNames
       for (const [wanId, wanName] of Object.entries(wanNames)) {
         const records = groupedByWan[wanId] || [];
+        const rxKey = `${wanName}_rx`;
+        const txKey = `${wanName}_tx`;
         let totalBytes = 0;
+        let totalRxBytes = 0;
+        let totalTxBytes = 0;
 
         // Initialize all data points with zero for this WAN
         for (let i = 0; i < chartData.length; i++) {
           chartData[i][wanName] = 0;
+          chartData[i][rxKey] = 0;
+          chartData[i][txKey] = 0;
         }
 
         // If we have records for this WAN, process them
@@ -272,86 +278,30 @@ export class WanUsageService {
             );
 
             if (periodRecords.length >= 2) {
-              // Calculate usage for this period
-              const firstRecord = periodRecords[0];
-              const lastRecord = periodRecords[periodRecords.length - 1];
-
-              const isWithinSameMonth = isSameMonth(
-                firstRecord.snapshotDate,
-                lastRecord.snapshotDate,
+              // Calculate usage for this period, in total and by direction
+              const totalUsage = this.calculatePeriodUsage(
+                periodRecords,
+                'bytes',
+                period,
+              );
+              const rxUsage = this.calculatePeriodUsage(
+                periodRecords,
+                'rxBytes',
+                period,
+              );
+              const txUsage = this.calculatePeriodUsage(
+                periodRecords,
+                'txBytes',
+                period,
               );
 
-              if (period === 'weekly' && !isWithinSameMonth) {
-                const recordsOfStartMonth = periodRecords
-                  .filter((record) =>
-                    isSameMonth(record.snapshotDate, firstRecord.snapshotDate),
-                  )
-                  .sort(
-                    (a, b) =>
-                      a.snapshotDate.getTime() - b.snapshotDate.getTime(),
-                  );
-                const recordsOfEndMonth = periodRecords
-                  .filter((record) =>
-                    isSameMonth(record.snapshotDate, lastRecord.snapshotDate),
-                  )
-                  .sort(
-                    (a, b) =>
-                      a.snapshotDate.getTime() - b.snapshotDate.getTime(),
-                  );
-
-                const firstRecordOfStartMonth = recordsOfStartMonth[0];
-                const firstRecordOfEndMonth = recordsOfEndMonth[0];
-                const lastRecordOfStartMonth =
-                  recordsOfStartMonth[recordsOfStartMonth.length - 1];
-                const lastRecordOfEndMonth =
-                  recordsOfEndMonth[recordsOfEndMonth.length - 1];
-
-                const firstRecordOfStartMonthBytes =
-                  typeof firstRecordOfStartMonth.bytes === 'bigint'
-                    ? firstRecordOfStartMonth.bytes
-                    : BigInt(firstRecordOfStartMonth.bytes || 0);
-                const firstRecordOfEndMonthBytes =
-                  typeof firstRecordOfEndMonth.bytes === 'bigint'
-                    ? firstRecordOfEndMonth.bytes
-                    : BigInt(firstRecordOfEndMonth.bytes || 0);
-                const lastRecordOfStartMonthBytes =
-                  typeof lastRecordOfStartMonth.bytes === 'bigint'
-                    ? lastRecordOfStartMonth.bytes
-                    : BigInt(lastRecordOfStartMonth.bytes || 0);
-                const lastRecordOfEndMonthBytes =
-                  typeof lastRecordOfEndMonth.bytes === 'bigint'
-                    ? lastRecordOfEndMonth.bytes
-                    : BigInt(lastRecordOfEndMonth.bytes || 0);
-
-                const firstMonthUsage = Math.abs(
-                  Number(
-                    lastRecordOfStartMonthBytes - firstRecordOfStartMonthBytes,
-                  ),
-                );
-                const lastMonthUsage = Math.abs(
-                  Number(
-                    lastRecordOfEndMonthBytes - firstRecordOfEndMonthBytes,
-                  ),
-                );
-                const totalUsage = firstMonthUsage + lastMonthUsage;
-                chartData[i][wanName] = totalUsage;
-                totalBytes += totalUsage;
-              } else {
-                // Keep as BigInt for calculation to avoid precision loss
-                const lastBytes =
-                  typeof lastRecord.bytes === 'bigint'
-                    ? lastRecord.bytes
-                    : BigInt(lastRecord.bytes);
-                const firstBytes =
-                  typeof firstRecord.bytes === 'bigint'
-                    ? firstRecord.bytes
-                    : BigInt(firstRecord.bytes);
-                const totalUsage = Math.abs(Number(lastBytes - firstBytes));
-
-                // Add usage to chart data with WAN name as key
-                chartData[i][wanName] = totalUsage;
-                totalBytes += totalUsage;
-              }
+              // Add usage to chart data with WAN name as key
+              chartData[i][wanName] = totalUsage;
+              chartData[i][rxKey] = rxUsage;
+              chartData[i][txKey] = txUsage;
+              totalBytes += totalUsage;
+              totalRxBytes += rxUsage;
+              totalTxBytes += txUsage;
             }
           }
         }
@@ -361,6 +311,12 @@ export class WanUsageService {
           name: wanName,
           totalBytes,
           formattedTotalBytes: this.formatBytes(totalBytes),
+          rxKey,
+          totalRxBytes,
+          formattedTotalRxBytes: this.formatBytes(totalRxBytes),
+          txKey,
+          totalTxBytes,
+          formattedTotalTxBytes: this.formatBytes(totalTxBytes),
         });
       }
 
@@ -377,54 +333,60 @@ export class WanUsageService {
   }
 
   /**
-   * Attempt to restart Snake Ways polling if it has stopped
-   * @returns Object indicating if polling was restarted and a status message
+   * Calculate the usage of one chart period from its snapshots.
+   * Snake Ways counters restart with each usage period (month), so a weekly
+   * period spanning two months is calculated per month and summed.
+   * @param periodRecords Snapshots within the period, sorted by snapshotDate
+   * @param field Counter to calculate the usage for
+   * @param period The chart period type
+   * @returns Bytes used in the period
    */
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    try {
-      this.logger.log(
-        chalk.cyan(
-          'Attempting to restart Snake Ways WAN Usage service polling',
+  private calculatePeriodUsage(
+    periodRecords: { snapshotDate: Date; [key: string]: any }[],
+    field: 'bytes' | 'rxBytes' | 'txBytes',
+    period: 'daily' | 'weekly' | 'monthly',
+  ): number {
+    const toBigInt = (value: bigint | number | null | undefined): bigint =>
+      typeof value === 'bigint' ? value : BigInt(value || 0);
+
+    const firstRecord = periodRecords[0];
+    const lastRecord = periodRecords[periodRecords.length - 1];
+
+    if (
+      period === 'weekly' &&
+      !isSameMonth(firstRecord.snapshotDate, lastRecord.snapshotDate)
+    ) {
+      const recordsOfStartMonth = periodRecords
+        .filter((record) =>
+          isSameMonth(record.snapshotDate, firstRecord.snapshotDate),
+        )
+        .sort((a, b) => a.snapshotDate.getTime() - b.snapshotDate.getTime());
+      const recordsOfEndMonth = periodRecords
+        .filter((record) =>
+          isSameMonth(record.snapshotDate, lastRecord.snapshotDate),
+        )
+        .sort((a, b) => a.snapshotDate.getTime() - b.snapshotDate.getTime());
+
+      const firstMonthUsage = Math.abs(
+        Number(
+          toBigInt(recordsOfStartMonth[recordsOfStartMonth.length - 1][field]) -
+            toBigInt(recordsOfStartMonth[0][field]),
         ),
       );
-
-      const wasRestarted =
-        await this.snakeWaysWanUsageService.restartPollingIfStopped();
-
-      if (wasRestarted) {
-        this.logger.log(
-          chalk.green.bold(
-            'Snake Ways WAN Usage service polling restarted successfully',
-          ),
-        );
-        return {
-          restarted: true,
-          message: 'Polling restarted successfully',
-        };
-      } else {
-        this.logger.log(
-          chalk.yellow(
-            'Snake Ways WAN service polling was already active, no restart needed',
-          ),
-        );
-        return {
-          restarted: false,
-          message:
-            'WAN Usage service polling was already active, no restart needed',
-        };
-      }
-    } catch (error) {
-      this.logger.error(
-        chalk.red.bold(
-          'Failed to restart Snake Ways WAN Usage service polling',
+      const lastMonthUsage = Math.abs(
+        Number(
+          toBigInt(recordsOfEndMonth[recordsOfEndMonth.length - 1][field]) -
+            toBigInt(recordsOfEndMonth[0][field]),
         ),
-        error,
       );
-      return {
-        restarted: false,
-        message: `Failed to restart WAN Usage service polling: ${error.message}`,
-      };
+
+      return firstMonthUsage + lastMonthUsage;
     }
+
+    // Keep as BigInt for calculation to avoid precision loss
+    return Math.abs(
+      Number(toBigInt(lastRecord[field]) - toBigInt(firstRecord[field])),
+    );
   }
 
   /**
@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RouteChangeSource } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  RouteStatus,
+  RouteType,
+  SystemRouteResponse,
+} from 'src/snake-ways/wan/dto';
+import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
+import { RouteHistoryService } from './route-history.service';
+import { WanAvailabilityService } from './wan-availability.service';
+import { WanController } from './wan.controller';
+import { WanFailoverService } from './wan-failover.service';
+import { WanService } from './wan.service';
+
+const VSAT = 'FCF62321165611EDA56E193DE7CF5745';
+
+describe('WanController', () => {
+  let controller: WanController;
+  let swWanService: { changeSystemRoute: jest.Mock };
+  let prisma: {
+    routeChange: { findFirst: jest.Mock; create: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    const route: SystemRouteResponse = {
+      wanId: VSAT,
+      status: RouteStatus.DEFAULT_ROUTE_SET,
+      routeType: RouteType.SWITCH_FORCED_TO_WAN,
+    };
+    swWanService = { changeSystemRoute: jest.fn().mockResolvedValue(route) };
+    prisma = {
+      routeChange: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn((args) => ({ id: 'change', ...args.data })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WanController],
+      providers: [
+        WanService,
+        RouteHistoryService,
+        { provide: SnakeWaysWanService, useValue: swWanService },
+        { provide: PrismaService, useValue: prisma },
+        { provide: WanFailoverService, useValue: {} },
+        { provide: WanAvailabilityService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get(WanController);
+  });
+
+  describe('changeSystemRoute', () => {
+    it('switches the route and records a manual route change', async () => {
+      const route = await controller.changeSystemRoute({ wanId: VSAT });
+
+      expect(swWanService.changeSystemRoute).toHaveBeenCalledWith(VSAT);
+      expect(route.wanId).toBe(VSAT);
+      expect(prisma.routeChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          wanId: VSAT,
+          source: RouteChangeSource.MANUAL,
+        }),
+      });
+    });
+  });
+});
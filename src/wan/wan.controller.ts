@@ -1,23 +1,44 @@
-import { Controller, Get, Post, Put, Body, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Query,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags, ApiBody } from '@nestjs/swagger';
 import { WanService } from './wan.service';
-import { WanEntity } from './entities';
-import { UserEntity } from 'src/user/entities';
+import { WanFailoverService } from './wan-failover.service';
+import { WanAvailabilityService } from './wan-availability.service';
+import { RouteHistoryService } from './route-history.service';
+import {
+  RouteHistoryDto,
+  RouteHistoryQueryDto,
+  WanAvailabilityDto,
+  WanAvailabilityQueryDto,
+} from './dto';
+import { WanEntity, WanFailoverEntity } from './entities';
 import {
+  CachedSystemRouteResponse,
   ChangeSystemRouteDto,
-  RouteStatus,
-  RouteType,
   SystemRouteResponse,
 } from 'src/snake-ways/wan/dto';
 import { Roles } from 'src/auth/decorators';
-import { Role } from 'src/auth/enums/role.enum';
-import { JwtAuthGuard, RolesGuard } from 'src/auth/guard';
-import { UserAccessLevel } from '@prisma/client';
+import { ROUTE_CONTROL_ROLES, STAFF_ROLES } from 'src/auth/constants';
+import { Audit } from 'src/audit/decorators';
 
 @ApiTags('WANS')
+@Roles(...STAFF_ROLES)
 @Controller('wans')
 export class WanController {
-  constructor(private readonly wanService: WanService) {}
+  constructor(
+    private readonly wanService: WanService,
+    private readonly wanFailoverService: WanFailoverService,
+    private readonly wanAvailabilityService: WanAvailabilityService,
+    private readonly routeHistoryService: RouteHistoryService,
+  ) {}
 
   @Get()
   @ApiResponse({
@@ -70,46 +91,76 @@ export class WanController {
     }
   }
 
-  @Post('restart-polling')
+  @Get('route')
   @ApiResponse({
     status: 200,
-    description: 'Restart Snake Ways polling if it has stopped',
-    schema: {
-      type: 'object',
-      properties: {
-        restarted: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Polling restarted successfully' },
-      },
-    },
+    description:
+      'Returns the system route as last polled from Snake Ways, flagged stale when polling fails',
+    type: CachedSystemRouteResponse,
   })
-  @ApiOperation({
-    summary: 'Restart Snake Ways polling if it has stopped due to failures',
+  @ApiResponse({
+    status: 503,
+    description:
+      'The route was never polled and Snake Ways service is unavailable',
   })
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
-    return await this.wanService.restartPolling();
+  @ApiOperation({ summary: 'Get current system route status' })
+  async getCurrentSystemRoute(): Promise<CachedSystemRouteResponse> {
+    return await this.wanService.getCachedSystemRoute();
   }
 
-  @Get('route')
+  @Get('route/history')
   @ApiResponse({
     status: 200,
-    description: 'Returns current system route status',
-    type: SystemRouteResponse,
+    description:
+      'Returns the system route changes over the period with the time spent per WAN and route type',
+    type: RouteHistoryDto,
   })
+  @ApiOperation({ summary: 'Get the system route change history' })
+  async getRouteHistory(
+    @Query() query: RouteHistoryQueryDto,
+  ): Promise<RouteHistoryDto> {
+    return await this.routeHistoryService.getHistory(
+      query.from ? new Date(query.from) : undefined,
+      query.to ? new Date(query.to) : undefined,
+    );
+  }
+
+  @Get('failovers')
   @ApiResponse({
-    status: 503,
-    description: 'Snake Ways service is unavailable',
+    status: 200,
+    description:
+      'Returns automatic route switches away from tripped WANs, most recent first',
+    type: [WanFailoverEntity],
   })
-  @ApiOperation({ summary: 'Get current system route status' })
-  async getCurrentSystemRoute(): Promise<SystemRouteResponse> {
-    try {
-      return await this.wanService.getCurrentSystemRoute();
-    } catch (error) {
-      throw error;
-    }
+  @ApiOperation({ summary: 'Get the quota failover history' })
+  async getFailovers(
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ): Promise<WanFailoverEntity[]> {
+    return await this.wanFailoverService.getFailovers(limit);
   }
 
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserAccessLevel.ADMIN, UserAccessLevel.SITE_ADMIN)
+  @Get(':id/availability')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns uptime, outages, MTTR and a status timeline of the WAN over the period',
+    type: WanAvailabilityDto,
+  })
+  @ApiResponse({ status: 404, description: 'WAN not found' })
+  @ApiOperation({ summary: 'Get WAN availability for SLA reporting' })
+  async getAvailability(
+    @Param('id') id: string,
+    @Query() query: WanAvailabilityQueryDto,
+  ): Promise<WanAvailabilityDto> {
+    return await this.wanAvailabilityService.getAvailability(
+      id,
+      query.from ? new Date(query.from) : undefined,
+      query.to ? new Date(query.to) : undefined,
+    );
+  }
+
+  @Roles(...ROUTE_CONTROL_ROLES)
+  @Audit({ idField: 'wanId' })
   @Put('force-switch')
   @ApiBody({ type: ChangeSystemRouteDto })
   @ApiResponse({
@@ -121,6 +172,10 @@ export class WanController {
     status: 400,
     description: 'Invalid WAN ID provided',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Only administrators can change the system route',
+  })
   @ApiResponse({
     status: 503,
     description: 'Snake Ways service is unavailable',
@@ -133,16 +188,6 @@ export class WanController {
   async changeSystemRoute(
     @Body() changeRouteDto: ChangeSystemRouteDto,
   ): Promise<SystemRouteResponse> {
-    try {
-      console.log('changeRouteDto', changeRouteDto);
-      return {
-        wanId: changeRouteDto.wanId,
-        status: RouteStatus.DEFAULT_ROUTE_SET,
-        routeType: RouteType.SWITCH_FORCED_TO_WAN,
-      };
-      // return await this.wanService.changeSystemRoute(changeRouteDto.wanId);
-    } catch (error) {
-      throw error;
-    }
+    return await this.wanService.changeSystemRoute(changeRouteDto.wanId);
   }
 }
@@ -2,13 +2,22 @@ import { Module } from '@nestjs/common';
 import { SnakeWaysBaseModule } from '../snake-ways/snake-ways-base.module';
 import { WanController } from './wan.controller';
 import { WanService } from './wan.service';
+import { WanFailoverService } from './wan-failover.service';
+import { WanAvailabilityService } from './wan-availability.service';
+import { RouteHistoryService } from './route-history.service';
 import { WanUsageController } from './wan-usage.controller';
 import { WanUsageService } from './wan-usage.service';
 
 @Module({
   imports: [SnakeWaysBaseModule],
   controllers: [WanController, WanUsageController],
-  providers: [WanService, WanUsageService],
+  providers: [
+    WanService,
+    WanUsageService,
+    WanFailoverService,
+    WanAvailabilityService,
+    RouteHistoryService,
+  ],
   exports: [WanService, WanUsageService],
 })
 export class WanModule {}
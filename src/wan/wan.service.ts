@@ -3,11 +3,17 @@ import {
   Logger,
   OnModuleDestroy,
   OnModuleInit,
+  ServiceUnavailableException,
 } from '@nestjs/common';
+import { RouteChangeSource } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { SnakeWaysWanService } from 'src/snake-ways/wan/snake-ways-wan.service';
 import { WanEntity } from './entities';
-import { SystemRouteResponse } from 'src/snake-ways/wan/dto';
+import {
+  CachedSystemRouteResponse,
+  SystemRouteResponse,
+} from 'src/snake-ways/wan/dto';
+import { RouteHistoryService } from './route-history.service';
 const chalk = require('chalk');
 
 @Injectable()
@@ -16,6 +22,7 @@ export class WanService implements OnModuleInit, OnModuleDestroy {
   constructor(
     private swWanService: SnakeWaysWanService,
     private prisma: PrismaService,
+    private routeHistoryService: RouteHistoryService,
   ) {}
 
   async onModuleInit() {
@@ -96,73 +103,65 @@ export class WanService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Attempt to restart Snake Ways polling if it has stopped
-   * @returns Object indicating if polling was restarted and a status message
+   * Get current system route status
+   * @returns Current route status information
    */
-  async restartPolling(): Promise<{ restarted: boolean; message: string }> {
+  async getCurrentSystemRoute(): Promise<SystemRouteResponse> {
     try {
-      this.logger.log(
-        chalk.cyan('Attempting to restart Snake Ways WAN service polling'),
-      );
-
-      const wasRestarted = await this.swWanService.restartPollingIfStopped();
+      this.logger.log(chalk.cyan('Getting current system route status'));
+      return await this.swWanService.getCurrentSystemRoute();
+    } catch (error) {
+      this.logger.error(chalk.red('Error getting current system route'), error);
+      throw error;
+    }
+  }
 
-      if (wasRestarted) {
-        this.logger.log(
-          chalk.green.bold(
-            'Snake Ways WAN service polling restarted successfully',
-          ),
-        );
-        return {
-          restarted: true,
-          message: 'Polling restarted successfully',
-        };
-      } else {
-        this.logger.log(
+  /**
+   * Get the system route as last polled from Snake Ways, so a busy or
+   * unreachable router doesn't hold up the request. Snake Ways is only asked
+   * directly when the route was never polled.
+   * @returns Route status information with when it was last read
+   * @throws ServiceUnavailableException if the route was never read and Snake Ways is unavailable
+   */
+  async getCachedSystemRoute(): Promise<CachedSystemRouteResponse> {
+    const cached = await this.swWanService.getCachedSystemRoute();
+    if (cached) {
+      if (cached.stale) {
+        this.logger.warn(
           chalk.yellow(
-            'Snake Ways WAN service polling was already active, no restart needed',
+            `Serving stale system route, last read ${cached.lastUpdated.toISOString()}`,
           ),
         );
-        return {
-          restarted: false,
-          message: 'WAN service polling was already active, no restart needed',
-        };
       }
-    } catch (error) {
-      this.logger.error(
-        chalk.red.bold('Failed to restart Snake Ways WAN service polling'),
-        error,
-      );
-      return {
-        restarted: false,
-        message: `Failed to restart WAN service polling: ${error.message}`,
-      };
+      return cached;
     }
-  }
 
-  /**
-   * Get current system route status
-   * @returns Current route status information
-   */
-  async getCurrentSystemRoute(): Promise<SystemRouteResponse> {
     try {
-      this.logger.log(chalk.cyan('Getting current system route status'));
-      return await this.swWanService.getCurrentSystemRoute();
+      const route = await this.swWanService.getCurrentSystemRoute();
+      return { ...route, lastUpdated: new Date(), stale: false };
     } catch (error) {
       this.logger.error(chalk.red('Error getting current system route'), error);
-      throw error;
+      throw new ServiceUnavailableException(
+        'System route is not known yet and Snake Ways is unavailable',
+      );
     }
   }
 
   /**
    * Change system route to the specified WAN
    * @param wanId ID of WAN to be used as system route, "AUTO" for automatic routing, or "OFF" to disable all WAN interfaces
+   * @param source What is changing the route, kept in the route history
    * @returns Route status information
    */
-  async changeSystemRoute(wanId: string): Promise<SystemRouteResponse> {
+  async changeSystemRoute(
+    wanId: string,
+    source: RouteChangeSource = RouteChangeSource.MANUAL,
+  ): Promise<SystemRouteResponse> {
     try {
       this.logger.log(chalk.cyan(`Changing system route to WAN: ${wanId}`));
-      return await this.swWanService.changeSystemRoute(wanId);
+      const route = await this.swWanService.changeSystemRoute(wanId);
+      await this.routeHistoryService.record(route, source);
+      return route;
     } catch (error) {
       this.logger.error(chalk.red('Error changing system route'), error);
       throw error;